@@ -0,0 +1,449 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import styles from "../../dashboard.module.css";
+import adminStyles from "../users/admin.module.css";
+import { CorporateAction, CorporateActionType, CorporateActionSuggestion } from "@/lib/types";
+
+const TYPE_LABELS: Record<CorporateActionType, string> = {
+    SPLIT: "Split",
+    SPIN_OFF: "Spin-off",
+    SYMBOL_CHANGE: "Symbol change",
+};
+
+const emptyForm = {
+    type: "SPLIT" as CorporateActionType,
+    date: "",
+    symbol: "",
+    newSymbol: "",
+    ratio: "",
+    costAllocation: "",
+    note: "",
+};
+
+async function fetchCorporateActions(): Promise<{ actions: CorporateAction[]; suggestions: CorporateActionSuggestion[] }> {
+    const response = await fetch("/api/admin/corporate-actions");
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to load corporate actions");
+    return data;
+}
+
+// "10-for-1", "1-for-20", or the spin-off's shares per parent share
+function describeAction(action: CorporateAction): string {
+    if (action.type === "SYMBOL_CHANGE") return `${action.symbol} → ${action.newSymbol}`;
+    if (action.type === "SPIN_OFF") {
+        return `${action.ratio} ${action.newSymbol} per ${action.symbol} share, ${(action.costAllocation * 100).toFixed(1)}% of basis`;
+    }
+    return action.ratio >= 1 ? `${action.ratio}-for-1` : `1-for-${Number((1 / action.ratio).toFixed(4))}`;
+}
+
+export default function AdminCorporateActionsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [actions, setActions] = useState<CorporateAction[]>([]);
+    const [suggestions, setSuggestions] = useState<CorporateActionSuggestion[]>([]);
+    const [formData, setFormData] = useState(emptyForm);
+    const [showForm, setShowForm] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    // Load recorded actions and unrecorded import rows
+    useEffect(() => {
+        fetchCorporateActions()
+            .then((data) => {
+                setActions(data.actions);
+                setSuggestions(data.suggestions);
+            })
+            .catch((err) => setError(err.message))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const reload = async () => {
+        try {
+            const data = await fetchCorporateActions();
+            setActions(data.actions);
+            setSuggestions(data.suggestions);
+        } catch {
+            setError("Failed to load corporate actions");
+        }
+    };
+
+    const handleRecordSuggestion = (suggestion: CorporateActionSuggestion) => {
+        setFormData({
+            ...emptyForm,
+            type: suggestion.type,
+            date: suggestion.transactionDate.slice(0, 10),
+            symbol: suggestion.symbol,
+            ratio: suggestion.ratio ? String(suggestion.ratio) : "",
+            note: suggestion.description,
+        });
+        setShowForm(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSuccess("");
+        setIsSaving(true);
+
+        try {
+            const response = await fetch("/api/admin/corporate-actions", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    ...formData,
+                    ratio: formData.ratio ? Number(formData.ratio) : null,
+                    // Entered as a percentage
+                    costAllocation: formData.costAllocation ? Number(formData.costAllocation) / 100 : 0,
+                }),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setSuccess(`${TYPE_LABELS[data.action.type as CorporateActionType]} recorded and lots rebuilt`);
+                setFormData(emptyForm);
+                setShowForm(false);
+                reload();
+            } else {
+                setError(data.error || "Failed to record corporate action");
+            }
+        } catch {
+            setError("Failed to record corporate action");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (action: CorporateAction) => {
+        if (!confirm(`Delete the ${TYPE_LABELS[action.type].toLowerCase()} for ${action.symbol}? Lots will be rebuilt without it.`)) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/admin/corporate-actions/${action.id}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                setSuccess("Corporate action deleted and lots rebuilt");
+                reload();
+            } else {
+                const data = await response.json();
+                setError(data.error || "Failed to delete corporate action");
+            }
+        } catch {
+            setError("Failed to delete corporate action");
+        }
+    };
+
+    const getInitials = (name: string) => {
+        return name
+            .split(" ")
+            .map((n) => n[0])
+            .join("")
+            .toUpperCase()
+            .slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    return (
+        <div className={styles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={styles.sidebar}>
+                <div className={styles.sidebarHeader}>
+                    <Link href="/dashboard" className={styles.sidebarLogo}>
+                        <div className={styles.sidebarLogoIcon}>💵</div>
+                        <span className={styles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={styles.sidebarNav}>
+                    <Link href="/dashboard" className={styles.navItem}>
+                        <span className={styles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={styles.navItem}>
+                        <span className={styles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/members" className={styles.navItem}>
+                        <span className={styles.navIcon}>👥</span>
+                        Members
+                    </Link>
+                    <Link href="/settings" className={styles.navItem}>
+                        <span className={styles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    <Link href="/admin/users" className={`${styles.navItem} ${styles.navItemActive}`}>
+                        <span className={styles.navIcon}>🔐</span>
+                        Admin Panel
+                    </Link>
+                </nav>
+
+                <div className={styles.sidebarFooter}>
+                    <div className={styles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={styles.userAvatar}>
+                            {session.user?.name ? getInitials(session.user.name) : "U"}
+                        </div>
+                        <div className={styles.userDetails}>
+                            <div className={styles.userName}>{session.user?.name || "User"}</div>
+                            <div className={styles.userRole}>{session.user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={styles.mainContent}>
+                <header className={styles.header}>
+                    <div className={styles.headerContent}>
+                        <h1 className={styles.pageTitle}>Corporate Actions</h1>
+                        <div className={adminStyles.actions}>
+                            <button
+                                onClick={() => {
+                                    setFormData(emptyForm);
+                                    setShowForm(!showForm);
+                                }}
+                                className={adminStyles.primaryButton}
+                            >
+                                + Record Action
+                            </button>
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.pageContent}>
+                    {/* Alerts */}
+                    {error && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(239, 68, 68, 0.1)", borderColor: "#ef4444", color: "#ef4444" }}>
+                            {error}
+                            <button onClick={() => setError("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+                    {success && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(16, 185, 129, 0.1)", borderColor: "#10b981", color: "#10b981" }}>
+                            {success}
+                            <button onClick={() => setSuccess("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+
+                    {/* Record form */}
+                    {showForm && (
+                        <div className={adminStyles.formCard}>
+                            <h2>Record a Corporate Action</h2>
+                            <form onSubmit={handleSubmit}>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Type</label>
+                                    <select
+                                        value={formData.type}
+                                        onChange={(e) => setFormData({ ...formData, type: e.target.value as CorporateActionType })}
+                                        className={adminStyles.formInput}
+                                    >
+                                        {(Object.keys(TYPE_LABELS) as CorporateActionType[]).map((type) => (
+                                            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Effective Date</label>
+                                    <input
+                                        type="date"
+                                        value={formData.date}
+                                        onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>{formData.type === "SPIN_OFF" ? "Parent Symbol" : formData.type === "SYMBOL_CHANGE" ? "Old Symbol" : "Symbol"}</label>
+                                    <input
+                                        type="text"
+                                        value={formData.symbol}
+                                        onChange={(e) => setFormData({ ...formData, symbol: e.target.value })}
+                                        required
+                                        placeholder="NVDA"
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                {formData.type !== "SPLIT" && (
+                                    <div className={adminStyles.formGroup}>
+                                        <label>{formData.type === "SPIN_OFF" ? "Spun-off Symbol" : "New Symbol"}</label>
+                                        <input
+                                            type="text"
+                                            value={formData.newSymbol}
+                                            onChange={(e) => setFormData({ ...formData, newSymbol: e.target.value })}
+                                            required
+                                            className={adminStyles.formInput}
+                                        />
+                                    </div>
+                                )}
+                                {formData.type !== "SYMBOL_CHANGE" && (
+                                    <div className={adminStyles.formGroup}>
+                                        <label>
+                                            {formData.type === "SPLIT"
+                                                ? "New Shares per Old Share (10 for 10-for-1, 0.1 for 1-for-10)"
+                                                : "New Company Shares per Parent Share"}
+                                        </label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            min="0"
+                                            value={formData.ratio}
+                                            onChange={(e) => setFormData({ ...formData, ratio: e.target.value })}
+                                            required
+                                            className={adminStyles.formInput}
+                                        />
+                                    </div>
+                                )}
+                                {formData.type === "SPIN_OFF" && (
+                                    <div className={adminStyles.formGroup}>
+                                        <label>Share of the Parent&apos;s Cost Basis Moved to the New Shares (%)</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            min="0"
+                                            max="100"
+                                            value={formData.costAllocation}
+                                            onChange={(e) => setFormData({ ...formData, costAllocation: e.target.value })}
+                                            placeholder="From the company's Form 8937"
+                                            className={adminStyles.formInput}
+                                        />
+                                    </div>
+                                )}
+                                <div className={adminStyles.formGroup}>
+                                    <label>Note</label>
+                                    <input
+                                        type="text"
+                                        value={formData.note}
+                                        onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formActions}>
+                                    <button type="button" onClick={() => setShowForm(false)} className={adminStyles.secondaryButton}>
+                                        Cancel
+                                    </button>
+                                    <button type="submit" className={adminStyles.primaryButton} disabled={isSaving}>
+                                        {isSaving ? "Saving..." : "Record"}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+
+                    {/* Import rows with nothing recorded for them */}
+                    {suggestions.length > 0 && (
+                        <div className={adminStyles.tableCard} style={{ marginBottom: "2rem" }}>
+                            <h2>Unrecorded Import Rows ({suggestions.length})</h2>
+                            <p style={{ color: "var(--color-text-muted)", marginBottom: "1rem" }}>
+                                The transaction history has split or symbol change rows with no corporate action recorded,
+                                so quantities before them aren&apos;t adjusted yet.
+                            </p>
+                            <table className={adminStyles.usersTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Date</th>
+                                        <th>Type</th>
+                                        <th>Symbol</th>
+                                        <th>Description</th>
+                                        <th>Shares</th>
+                                        <th>Suggested Ratio</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {suggestions.map((suggestion, index) => (
+                                        <tr key={index}>
+                                            <td>{new Date(suggestion.transactionDate).toLocaleDateString("en-US", { timeZone: "UTC" })}</td>
+                                            <td>{TYPE_LABELS[suggestion.type]}</td>
+                                            <td>{suggestion.symbol}</td>
+                                            <td>{suggestion.description}</td>
+                                            <td>{suggestion.quantity}</td>
+                                            <td>{suggestion.ratio ?? "—"}</td>
+                                            <td>
+                                                <button onClick={() => handleRecordSuggestion(suggestion)} className={adminStyles.actionButton}>
+                                                    Record
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {/* Recorded actions */}
+                    <div className={adminStyles.tableCard}>
+                        <h2>Recorded ({actions.length})</h2>
+                        <p style={{ color: "var(--color-text-muted)", marginBottom: "1rem" }}>
+                            Quantities and prices before a split, and symbols before a ticker change, are restated in
+                            today&apos;s terms for lots, returns and charts. A spin-off gives each open lot of the parent a
+                            lot of the new company with the same purchase date.
+                        </p>
+                        {actions.length === 0 ? (
+                            <p style={{ color: "var(--color-text-muted)" }}>No corporate actions recorded.</p>
+                        ) : (
+                            <table className={adminStyles.usersTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Date</th>
+                                        <th>Type</th>
+                                        <th>Symbol</th>
+                                        <th>Details</th>
+                                        <th>Note</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {[...actions].reverse().map((action) => (
+                                        <tr key={action.id}>
+                                            <td>{new Date(action.date).toLocaleDateString("en-US", { timeZone: "UTC" })}</td>
+                                            <td>{TYPE_LABELS[action.type]}</td>
+                                            <td>
+                                                <Link href={`/stock/${action.type === "SYMBOL_CHANGE" ? action.newSymbol : action.symbol}`}>{action.symbol}</Link>
+                                            </td>
+                                            <td>{describeAction(action)}</td>
+                                            <td>{action.note}</td>
+                                            <td>
+                                                <button
+                                                    onClick={() => handleDelete(action)}
+                                                    className={`${adminStyles.actionButton} ${adminStyles.actionButtonDanger}`}
+                                                    title="Delete corporate action"
+                                                >
+                                                    🗑️ Delete
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import styles from "../../dashboard.module.css";
+import adminStyles from "../users/admin.module.css";
+import { ImportBatchSummary, ImportBatchDetail } from "@/lib/types";
+
+export default function AdminImportsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [batches, setBatches] = useState<ImportBatchSummary[]>([]);
+    const [selectedBatch, setSelectedBatch] = useState<ImportBatchDetail | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    // Load import history
+    useEffect(() => {
+        loadBatches();
+    }, []);
+
+    const loadBatches = async () => {
+        try {
+            const response = await fetch("/api/admin/imports");
+            if (response.ok) {
+                const data = await response.json();
+                setBatches(data.batches);
+            }
+        } catch {
+            setError("Failed to load import history");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleViewBatch = async (batchId: string) => {
+        if (selectedBatch?.id === batchId) {
+            setSelectedBatch(null);
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/admin/imports/${batchId}`);
+            const data = await response.json();
+
+            if (response.ok) {
+                setSelectedBatch(data.batch);
+            } else {
+                setError(data.error || "Failed to load import");
+            }
+        } catch {
+            setError("Failed to load import");
+        }
+    };
+
+    const handleRollback = async (batch: ImportBatchSummary) => {
+        const message = batch.isCurrentPositions
+            ? "Roll back this import? Its holdings and transactions will be deleted and the previous positions upload becomes current again."
+            : "Roll back this import? Its transactions will be deleted.";
+
+        if (!confirm(`${message}\n\nRows that later uploads also contained are kept and move to the newest of them. This action cannot be undone.`)) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/admin/imports/${batch.id}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                setSuccess("Import rolled back successfully");
+                if (selectedBatch?.id === batch.id) {
+                    setSelectedBatch(null);
+                }
+                loadBatches();
+            } else {
+                const data = await response.json();
+                setError(data.error || "Failed to roll back import");
+            }
+        } catch {
+            setError("Failed to roll back import");
+        }
+    };
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        }).format(value);
+    };
+
+    const getInitials = (name: string) => {
+        return name
+            .split(" ")
+            .map((n) => n[0])
+            .join("")
+            .toUpperCase()
+            .slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    return (
+        <div className={styles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={styles.sidebar}>
+                <div className={styles.sidebarHeader}>
+                    <Link href="/dashboard" className={styles.sidebarLogo}>
+                        <div className={styles.sidebarLogoIcon}>💵</div>
+                        <span className={styles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={styles.sidebarNav}>
+                    <Link href="/dashboard" className={styles.navItem}>
+                        <span className={styles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={styles.navItem}>
+                        <span className={styles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/members" className={styles.navItem}>
+                        <span className={styles.navIcon}>👥</span>
+                        Members
+                    </Link>
+                    <Link href="/settings" className={styles.navItem}>
+                        <span className={styles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    <Link href="/admin/users" className={`${styles.navItem} ${styles.navItemActive}`}>
+                        <span className={styles.navIcon}>🔐</span>
+                        Admin Panel
+                    </Link>
+                </nav>
+
+                <div className={styles.sidebarFooter}>
+                    <div className={styles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={styles.userAvatar}>
+                            {session.user?.name ? getInitials(session.user.name) : "U"}
+                        </div>
+                        <div className={styles.userDetails}>
+                            <div className={styles.userName}>{session.user?.name || "User"}</div>
+                            <div className={styles.userRole}>{session.user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={styles.mainContent}>
+                <header className={styles.header}>
+                    <div className={styles.headerContent}>
+                        <h1 className={styles.pageTitle}>Import History</h1>
+                        <Link href="/settings" className={adminStyles.primaryButton}>
+                            + New Import
+                        </Link>
+                    </div>
+                </header>
+
+                <div className={styles.pageContent}>
+                    {/* Alerts */}
+                    {error && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(239, 68, 68, 0.1)", borderColor: "#ef4444", color: "#ef4444" }}>
+                            {error}
+                            <button onClick={() => setError("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+                    {success && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(16, 185, 129, 0.1)", borderColor: "#10b981", color: "#10b981" }}>
+                            {success}
+                            <button onClick={() => setSuccess("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+
+                    {/* Imports Table */}
+                    <div className={adminStyles.tableCard}>
+                        <h2>All Imports ({batches.length})</h2>
+                        {batches.length === 0 ? (
+                            <p style={{ color: "var(--color-text-muted)" }}>
+                                No imports yet. Upload Schwab files from Settings to get started.
+                            </p>
+                        ) : (
+                            <table className={adminStyles.usersTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Uploaded</th>
+                                        <th>By</th>
+                                        <th>Files</th>
+                                        <th>Holdings</th>
+                                        <th>Added</th>
+                                        <th>Duplicates</th>
+                                        <th>Conflicts</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {batches.map((batch) => (
+                                        <tr key={batch.id}>
+                                            <td>{new Date(batch.createdAt).toLocaleString()}</td>
+                                            <td>{batch.uploadedBy ?? "—"}</td>
+                                            <td>
+                                                {batch.positionsFile && <div>{batch.positionsFile}</div>}
+                                                {batch.transactionsFile && <div>{batch.transactionsFile}</div>}
+                                                <div style={{ color: "var(--color-text-muted)", fontSize: "0.75rem" }}>
+                                                    {batch.parser}
+                                                </div>
+                                            </td>
+                                            <td>
+                                                {batch.holdingsCount}
+                                                {batch.isCurrentPositions && (
+                                                    <>
+                                                        {" "}
+                                                        <span className={`${adminStyles.badge} ${adminStyles.badgeMember}`}>
+                                                            Current
+                                                        </span>
+                                                    </>
+                                                )}
+                                            </td>
+                                            <td>{batch.transactionsAdded}</td>
+                                            <td>{batch.duplicatesSkipped}</td>
+                                            <td>{batch.conflicts}</td>
+                                            <td>
+                                                <div className={adminStyles.actions}>
+                                                    <button
+                                                        onClick={() => handleViewBatch(batch.id)}
+                                                        className={adminStyles.actionButton}
+                                                        title="View imported rows"
+                                                    >
+                                                        {selectedBatch?.id === batch.id ? "Hide" : "👁️ View"}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRollback(batch)}
+                                                        className={`${adminStyles.actionButton} ${adminStyles.actionButtonDanger}`}
+                                                        title="Delete everything this import added"
+                                                    >
+                                                        ↩️ Roll Back
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {/* Selected Import */}
+                    {selectedBatch && (
+                        <div className={adminStyles.tableCard} style={{ marginTop: "2rem" }}>
+                            <h2>
+                                Import from {new Date(selectedBatch.createdAt).toLocaleString()}
+                            </h2>
+
+                            {selectedBatch.holdings.length > 0 && (
+                                <>
+                                    <h3 style={{ marginBottom: "1rem" }}>Holdings ({selectedBatch.holdings.length})</h3>
+                                    <table className={adminStyles.usersTable} style={{ marginBottom: "2rem" }}>
+                                        <thead>
+                                            <tr>
+                                                <th>Symbol</th>
+                                                <th>Quantity</th>
+                                                <th>Cost / Share</th>
+                                                <th>Market Value</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {selectedBatch.holdings.map((holding) => (
+                                                <tr key={holding.symbol}>
+                                                    <td>{holding.symbol}</td>
+                                                    <td>{holding.quantity}</td>
+                                                    <td>{formatCurrency(holding.costPerShare)}</td>
+                                                    <td>{formatCurrency(holding.marketValue)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </>
+                            )}
+
+                            <h3 style={{ marginBottom: "1rem" }}>Transactions Added ({selectedBatch.transactions.length})</h3>
+                            {selectedBatch.transactions.length === 0 ? (
+                                <p style={{ color: "var(--color-text-muted)" }}>
+                                    This import did not add any transactions.
+                                </p>
+                            ) : (
+                                <table className={adminStyles.usersTable}>
+                                    <thead>
+                                        <tr>
+                                            <th>Date</th>
+                                            <th>Action</th>
+                                            <th>Symbol</th>
+                                            <th>Quantity</th>
+                                            <th>Amount</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {selectedBatch.transactions.map((t, index) => (
+                                            <tr key={index}>
+                                                <td>{new Date(t.date).toLocaleDateString()}</td>
+                                                <td>{t.action}</td>
+                                                <td>{t.symbol || "—"}</td>
+                                                <td>{t.quantity || "—"}</td>
+                                                <td>{formatCurrency(t.amount)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useSession } from "next-auth/react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import styles from "../k1.module.css";
+import { PartnershipAllocation } from "@/lib/types";
+
+function MemberStatement() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const userId = params.userId as string;
+    const year = Number(searchParams.get("year") || new Date().getFullYear() - 1);
+
+    const [allocation, setAllocation] = useState<PartnershipAllocation | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    useEffect(() => {
+        const loadAllocation = async () => {
+            try {
+                const response = await fetch(`/api/reports/k1?year=${year}`);
+                const data = await response.json();
+                if (response.ok) {
+                    setAllocation(data.allocation);
+                } else {
+                    setError(data.error || "Failed to load statement");
+                }
+            } catch {
+                setError("Failed to load statement");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadAllocation();
+    }, [year]);
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        }).format(value);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString("en-US", { timeZone: "UTC" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    const member = allocation?.allocations.find((a) => a.userId === userId);
+
+    return (
+        <div className={styles.page}>
+            <div className={styles.toolbar}>
+                <Link href="/admin/k1" className="btn btn-secondary">← All members</Link>
+                <button onClick={() => window.print()} className="btn btn-primary" disabled={!member}>
+                    Print
+                </button>
+            </div>
+
+            {error && <p className={styles.error}>{error}</p>}
+            {allocation && !member && !error && (
+                <p className={styles.error}>This member held no units in {year}.</p>
+            )}
+
+            {allocation && member && (
+                <div className={styles.statement}>
+                    <h1>DFDII Investment Club</h1>
+                    <h2>Partner&apos;s Share of Income, {allocation.year}</h2>
+                    <p className={styles.period}>
+                        For the period {formatDate(allocation.periodStart)} to {formatDate(allocation.periodEnd)}
+                    </p>
+
+                    <section className={styles.section}>
+                        <h3>Partner</h3>
+                        <p>{member.name}</p>
+                        <p>{member.email}</p>
+                    </section>
+
+                    <section className={styles.section}>
+                        <h3>Partner&apos;s Interest</h3>
+                        <table className={styles.table}>
+                            <tbody>
+                                <tr>
+                                    <td>Average units held</td>
+                                    <td>{member.averageUnits.toFixed(4)}</td>
+                                </tr>
+                                <tr>
+                                    <td>Units at end of period</td>
+                                    <td>{member.unitsAtYearEnd.toFixed(4)}</td>
+                                </tr>
+                                <tr>
+                                    <td>Share of income</td>
+                                    <td>{member.sharePercent.toFixed(4)}%</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </section>
+
+                    <section className={styles.section}>
+                        <h3>Partner&apos;s Share</h3>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th></th>
+                                    <th>Partner</th>
+                                    <th>Club Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <tr>
+                                    <td>Net short-term capital gain (loss)</td>
+                                    <td>{formatCurrency(member.shortTermGain)}</td>
+                                    <td>{formatCurrency(allocation.totals.shortTermGain)}</td>
+                                </tr>
+                                <tr>
+                                    <td>Net long-term capital gain (loss)</td>
+                                    <td>{formatCurrency(member.longTermGain)}</td>
+                                    <td>{formatCurrency(allocation.totals.longTermGain)}</td>
+                                </tr>
+                                <tr>
+                                    <td>Dividends</td>
+                                    <td>{formatCurrency(member.dividends)}</td>
+                                    <td>{formatCurrency(allocation.totals.dividends)}</td>
+                                </tr>
+                                <tr>
+                                    <td>Expenses</td>
+                                    <td>{formatCurrency(member.expenses)}</td>
+                                    <td>{formatCurrency(allocation.totals.expenses)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </section>
+
+                    <p className={styles.note}>
+                        Income is shared in proportion to the units each partner held, averaged over every day of
+                        the period. Keep this statement with your tax records.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function MemberStatementPage() {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <MemberStatement />
+        </Suspense>
+    );
+}
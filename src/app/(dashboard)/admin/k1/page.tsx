@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import styles from "../../dashboard.module.css";
+import adminStyles from "../users/admin.module.css";
+import { PartnershipAllocation } from "@/lib/types";
+
+export default function AdminK1Page() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [year, setYear] = useState(new Date().getFullYear() - 1);
+    const [allocation, setAllocation] = useState<PartnershipAllocation | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    // Load the allocations for the selected year
+    useEffect(() => {
+        const loadAllocation = async () => {
+            try {
+                const response = await fetch(`/api/reports/k1?year=${year}`);
+                const data = await response.json();
+                if (response.ok) {
+                    setAllocation(data.allocation);
+                } else {
+                    setError(data.error || "Failed to load allocations");
+                }
+            } catch {
+                setError("Failed to load allocations");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadAllocation();
+    }, [year]);
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        }).format(value);
+    };
+
+    const getInitials = (name: string) => {
+        return name
+            .split(" ")
+            .map((n) => n[0])
+            .join("")
+            .toUpperCase()
+            .slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    return (
+        <div className={styles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={styles.sidebar}>
+                <div className={styles.sidebarHeader}>
+                    <Link href="/dashboard" className={styles.sidebarLogo}>
+                        <div className={styles.sidebarLogoIcon}>💵</div>
+                        <span className={styles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={styles.sidebarNav}>
+                    <Link href="/dashboard" className={styles.navItem}>
+                        <span className={styles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={styles.navItem}>
+                        <span className={styles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/members" className={styles.navItem}>
+                        <span className={styles.navIcon}>👥</span>
+                        Members
+                    </Link>
+                    <Link href="/settings" className={styles.navItem}>
+                        <span className={styles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    <Link href="/admin/users" className={`${styles.navItem} ${styles.navItemActive}`}>
+                        <span className={styles.navIcon}>🔐</span>
+                        Admin Panel
+                    </Link>
+                </nav>
+
+                <div className={styles.sidebarFooter}>
+                    <div className={styles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={styles.userAvatar}>
+                            {session.user?.name ? getInitials(session.user.name) : "U"}
+                        </div>
+                        <div className={styles.userDetails}>
+                            <div className={styles.userName}>{session.user?.name || "User"}</div>
+                            <div className={styles.userRole}>{session.user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={styles.mainContent}>
+                <header className={styles.header}>
+                    <div className={styles.headerContent}>
+                        <h1 className={styles.pageTitle}>Member K-1 Allocations</h1>
+                        <div className={adminStyles.actions}>
+                            <select
+                                value={year}
+                                onChange={(e) => setYear(Number(e.target.value))}
+                                className={adminStyles.formInput}
+                            >
+                                {(allocation?.years ?? [year]).map((y) => (
+                                    <option key={y} value={y}>{y}</option>
+                                ))}
+                            </select>
+                            <a href={`/api/reports/k1?year=${year}&format=csv`} className={adminStyles.primaryButton}>
+                                Download CSV
+                            </a>
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.pageContent}>
+                    {error && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(239, 68, 68, 0.1)", borderColor: "#ef4444", color: "#ef4444" }}>
+                            {error}
+                            <button onClick={() => setError("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+
+                    {allocation && (
+                        <div className={adminStyles.tableCard}>
+                            <h2>Allocations {allocation.year}</h2>
+                            <p style={{ color: "var(--color-text-muted)", marginBottom: "1rem" }}>
+                                Each member&apos;s share is the units they held, averaged over every day from{" "}
+                                {new Date(allocation.periodStart).toLocaleDateString("en-US", { timeZone: "UTC" })} to{" "}
+                                {new Date(allocation.periodEnd).toLocaleDateString("en-US", { timeZone: "UTC" })}.
+                            </p>
+                            {allocation.allocations.length === 0 ? (
+                                <p style={{ color: "var(--color-text-muted)" }}>No members held units in {allocation.year}.</p>
+                            ) : (
+                                <table className={adminStyles.usersTable}>
+                                    <thead>
+                                        <tr>
+                                            <th>Member</th>
+                                            <th>Average Units</th>
+                                            <th>Share</th>
+                                            <th>Short-Term Gain</th>
+                                            <th>Long-Term Gain</th>
+                                            <th>Dividends</th>
+                                            <th>Expenses</th>
+                                            <th>Statement</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {allocation.allocations.map((a) => (
+                                            <tr key={a.userId}>
+                                                <td>{a.name}</td>
+                                                <td>{a.averageUnits.toFixed(4)}</td>
+                                                <td>{a.sharePercent.toFixed(2)}%</td>
+                                                <td>{formatCurrency(a.shortTermGain)}</td>
+                                                <td>{formatCurrency(a.longTermGain)}</td>
+                                                <td>{formatCurrency(a.dividends)}</td>
+                                                <td>{formatCurrency(a.expenses)}</td>
+                                                <td>
+                                                    <Link href={`/admin/k1/${a.userId}?year=${allocation.year}`} className={adminStyles.actionButton}>
+                                                        View
+                                                    </Link>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        <tr>
+                                            <td><strong>Total</strong></td>
+                                            <td></td>
+                                            <td></td>
+                                            <td><strong>{formatCurrency(allocation.totals.shortTermGain)}</strong></td>
+                                            <td><strong>{formatCurrency(allocation.totals.longTermGain)}</strong></td>
+                                            <td><strong>{formatCurrency(allocation.totals.dividends)}</strong></td>
+                                            <td><strong>{formatCurrency(allocation.totals.expenses)}</strong></td>
+                                            <td></td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
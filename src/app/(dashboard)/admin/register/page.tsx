@@ -0,0 +1,619 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import styles from "../../dashboard.module.css";
+import adminStyles from "../users/admin.module.css";
+import { RegisterHolding } from "@/lib/types";
+
+const emptyLotForm = {
+    symbol: "",
+    name: "",
+    quantity: "",
+    price: "",
+    costBasis: "",
+    purchaseDate: "",
+};
+
+const emptyDividendForm = {
+    symbol: "",
+    amount: "",
+    paidDate: "",
+    note: "",
+};
+
+export default function AdminRegisterPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [holdings, setHoldings] = useState<RegisterHolding[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+    const [success, setSuccess] = useState("");
+    const [showLotForm, setShowLotForm] = useState(false);
+    const [showDividendForm, setShowDividendForm] = useState(false);
+    const [lotForm, setLotForm] = useState(emptyLotForm);
+    const [dividendForm, setDividendForm] = useState(emptyDividendForm);
+    const [editingLotId, setEditingLotId] = useState<string | null>(null);
+    const [editingCostBasis, setEditingCostBasis] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    // Load the register
+    useEffect(() => {
+        loadRegister();
+    }, []);
+
+    const loadRegister = async () => {
+        try {
+            const response = await fetch("/api/register");
+            if (response.ok) {
+                const data = await response.json();
+                setHoldings(data.holdings);
+            }
+        } catch {
+            setError("Failed to load holdings register");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSeed = async () => {
+        if (!confirm("Fill the register from the original holdings sheet?")) {
+            return;
+        }
+
+        try {
+            const response = await fetch("/api/admin/register/seed", { method: "POST" });
+            const data = await response.json();
+
+            if (response.ok) {
+                setSuccess(`Added ${data.count} holdings from the sheet`);
+                loadRegister();
+            } else {
+                setError(data.error || "Failed to seed register");
+            }
+        } catch {
+            setError("Failed to seed register");
+        }
+    };
+
+    const handleAddLot = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSuccess("");
+
+        try {
+            const response = await fetch("/api/admin/register/lots", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(lotForm),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setSuccess(`Lot added to ${lotForm.symbol.toUpperCase()}`);
+                setLotForm(emptyLotForm);
+                setShowLotForm(false);
+                loadRegister();
+            } else {
+                setError(data.error || "Failed to add lot");
+            }
+        } catch {
+            setError("Failed to add lot");
+        }
+    };
+
+    const handleRecordDividend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSuccess("");
+
+        try {
+            const response = await fetch("/api/admin/register/dividends", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(dividendForm),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setSuccess(`Dividend recorded for ${dividendForm.symbol}`);
+                setDividendForm(emptyDividendForm);
+                setShowDividendForm(false);
+                loadRegister();
+            } else {
+                setError(data.error || "Failed to record dividend");
+            }
+        } catch {
+            setError("Failed to record dividend");
+        }
+    };
+
+    const handleSaveCostBasis = async (lotId: string) => {
+        try {
+            const response = await fetch(`/api/admin/register/lots/${lotId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ costBasis: editingCostBasis }),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setSuccess("Cost basis updated");
+                setEditingLotId(null);
+                loadRegister();
+            } else {
+                setError(data.error || "Failed to update cost basis");
+            }
+        } catch {
+            setError("Failed to update cost basis");
+        }
+    };
+
+    const handleDeleteLot = async (symbol: string, lotId: string) => {
+        if (!confirm(`Delete this ${symbol} lot? This action cannot be undone.`)) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/admin/register/lots/${lotId}`, { method: "DELETE" });
+
+            if (response.ok) {
+                setSuccess("Lot deleted");
+                loadRegister();
+            } else {
+                const data = await response.json();
+                setError(data.error || "Failed to delete lot");
+            }
+        } catch {
+            setError("Failed to delete lot");
+        }
+    };
+
+    const handleDeleteDividend = async (dividendId: string) => {
+        if (!confirm("Delete this dividend entry? This action cannot be undone.")) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/admin/register/dividends/${dividendId}`, { method: "DELETE" });
+
+            if (response.ok) {
+                setSuccess("Dividend deleted");
+                loadRegister();
+            } else {
+                const data = await response.json();
+                setError(data.error || "Failed to delete dividend");
+            }
+        } catch {
+            setError("Failed to delete dividend");
+        }
+    };
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        }).format(value);
+    };
+
+    // Register dates are midnight UTC
+    const formatDate = (value: string) => {
+        return new Date(value).toLocaleDateString("en-US", { timeZone: "UTC" });
+    };
+
+    const getInitials = (name: string) => {
+        return name
+            .split(" ")
+            .map((n) => n[0])
+            .join("")
+            .toUpperCase()
+            .slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    const dividends = holdings
+        .flatMap((h) => h.dividendPayments.map((d) => ({ ...d, symbol: h.symbol })))
+        .sort((a, b) => (b.paidDate ?? "").localeCompare(a.paidDate ?? ""));
+
+    return (
+        <div className={styles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={styles.sidebar}>
+                <div className={styles.sidebarHeader}>
+                    <Link href="/dashboard" className={styles.sidebarLogo}>
+                        <div className={styles.sidebarLogoIcon}>💵</div>
+                        <span className={styles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={styles.sidebarNav}>
+                    <Link href="/dashboard" className={styles.navItem}>
+                        <span className={styles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={styles.navItem}>
+                        <span className={styles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/members" className={styles.navItem}>
+                        <span className={styles.navIcon}>👥</span>
+                        Members
+                    </Link>
+                    <Link href="/settings" className={styles.navItem}>
+                        <span className={styles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    <Link href="/admin/users" className={`${styles.navItem} ${styles.navItemActive}`}>
+                        <span className={styles.navIcon}>🔐</span>
+                        Admin Panel
+                    </Link>
+                </nav>
+
+                <div className={styles.sidebarFooter}>
+                    <div className={styles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={styles.userAvatar}>
+                            {session.user?.name ? getInitials(session.user.name) : "U"}
+                        </div>
+                        <div className={styles.userDetails}>
+                            <div className={styles.userName}>{session.user?.name || "User"}</div>
+                            <div className={styles.userRole}>{session.user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={styles.mainContent}>
+                <header className={styles.header}>
+                    <div className={styles.headerContent}>
+                        <h1 className={styles.pageTitle}>Holdings Register</h1>
+                        <div className={adminStyles.actions}>
+                            <button
+                                onClick={() => {
+                                    setShowDividendForm(!showDividendForm);
+                                    setShowLotForm(false);
+                                }}
+                                className={adminStyles.secondaryButton}
+                                disabled={holdings.length === 0}
+                            >
+                                + Record Dividend
+                            </button>
+                            <button
+                                onClick={() => {
+                                    setShowLotForm(!showLotForm);
+                                    setShowDividendForm(false);
+                                }}
+                                className={adminStyles.primaryButton}
+                            >
+                                + Add Lot
+                            </button>
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.pageContent}>
+                    {/* Alerts */}
+                    {error && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(239, 68, 68, 0.1)", borderColor: "#ef4444", color: "#ef4444" }}>
+                            {error}
+                            <button onClick={() => setError("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+                    {success && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(16, 185, 129, 0.1)", borderColor: "#10b981", color: "#10b981" }}>
+                            {success}
+                            <button onClick={() => setSuccess("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+
+                    {/* Add Lot Form */}
+                    {showLotForm && (
+                        <div className={adminStyles.formCard}>
+                            <h2>Add Lot</h2>
+                            <form onSubmit={handleAddLot}>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Symbol</label>
+                                    <input
+                                        type="text"
+                                        value={lotForm.symbol}
+                                        onChange={(e) => setLotForm({ ...lotForm, symbol: e.target.value.toUpperCase() })}
+                                        required
+                                        placeholder="AAPL"
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Company Name (new holdings only)</label>
+                                    <input
+                                        type="text"
+                                        value={lotForm.name}
+                                        onChange={(e) => setLotForm({ ...lotForm, name: e.target.value })}
+                                        placeholder="Apple Inc."
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Quantity</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={lotForm.quantity}
+                                        onChange={(e) => setLotForm({ ...lotForm, quantity: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Price per Share</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={lotForm.price}
+                                        onChange={(e) => setLotForm({ ...lotForm, price: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Cost Basis (defaults to quantity × price)</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={lotForm.costBasis}
+                                        onChange={(e) => setLotForm({ ...lotForm, costBasis: e.target.value })}
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Purchase Date</label>
+                                    <input
+                                        type="date"
+                                        value={lotForm.purchaseDate}
+                                        onChange={(e) => setLotForm({ ...lotForm, purchaseDate: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formActions}>
+                                    <button type="button" onClick={() => setShowLotForm(false)} className={adminStyles.secondaryButton}>
+                                        Cancel
+                                    </button>
+                                    <button type="submit" className={adminStyles.primaryButton}>
+                                        Add Lot
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+
+                    {/* Record Dividend Form */}
+                    {showDividendForm && (
+                        <div className={adminStyles.formCard}>
+                            <h2>Record Dividend</h2>
+                            <form onSubmit={handleRecordDividend}>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Holding</label>
+                                    <select
+                                        value={dividendForm.symbol}
+                                        onChange={(e) => setDividendForm({ ...dividendForm, symbol: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    >
+                                        <option value="">Select a holding</option>
+                                        {holdings.map((h) => (
+                                            <option key={h.symbol} value={h.symbol}>
+                                                {h.symbol} — {h.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Amount</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={dividendForm.amount}
+                                        onChange={(e) => setDividendForm({ ...dividendForm, amount: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Paid Date</label>
+                                    <input
+                                        type="date"
+                                        value={dividendForm.paidDate}
+                                        onChange={(e) => setDividendForm({ ...dividendForm, paidDate: e.target.value })}
+                                        required
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formGroup}>
+                                    <label>Note</label>
+                                    <input
+                                        type="text"
+                                        value={dividendForm.note}
+                                        onChange={(e) => setDividendForm({ ...dividendForm, note: e.target.value })}
+                                        placeholder="Q3 dividend"
+                                        className={adminStyles.formInput}
+                                    />
+                                </div>
+                                <div className={adminStyles.formActions}>
+                                    <button type="button" onClick={() => setShowDividendForm(false)} className={adminStyles.secondaryButton}>
+                                        Cancel
+                                    </button>
+                                    <button type="submit" className={adminStyles.primaryButton}>
+                                        Record Dividend
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+
+                    {/* Lots Table */}
+                    <div className={adminStyles.tableCard}>
+                        <h2>Holdings ({holdings.length})</h2>
+                        {holdings.length === 0 ? (
+                            <>
+                                <p style={{ color: "var(--color-text-muted)", marginBottom: "1rem" }}>
+                                    The register is empty. Add lots one at a time, or start from the original holdings sheet.
+                                </p>
+                                <button onClick={handleSeed} className={adminStyles.primaryButton}>
+                                    Seed from Holdings Sheet
+                                </button>
+                            </>
+                        ) : (
+                            <table className={adminStyles.usersTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Symbol</th>
+                                        <th>Purchased</th>
+                                        <th>Quantity</th>
+                                        <th>Price</th>
+                                        <th>Cost Basis</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {holdings.flatMap((holding) =>
+                                        holding.lots.map((lot, index) => (
+                                            <tr key={lot.id}>
+                                                <td>
+                                                    {index === 0 && (
+                                                        <>
+                                                            <strong>{holding.symbol}</strong>
+                                                            <div style={{ color: "var(--color-text-muted)", fontSize: "0.75rem" }}>
+                                                                {holding.name}
+                                                            </div>
+                                                        </>
+                                                    )}
+                                                </td>
+                                                <td>{formatDate(lot.purchaseDate)}</td>
+                                                <td>{lot.quantity}</td>
+                                                <td>{formatCurrency(lot.price)}</td>
+                                                <td>
+                                                    {editingLotId === lot.id ? (
+                                                        <input
+                                                            type="number"
+                                                            step="any"
+                                                            min="0"
+                                                            value={editingCostBasis}
+                                                            onChange={(e) => setEditingCostBasis(e.target.value)}
+                                                            className={adminStyles.formInput}
+                                                            style={{ width: "8rem" }}
+                                                            autoFocus
+                                                        />
+                                                    ) : (
+                                                        formatCurrency(lot.costBasis)
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    <div className={adminStyles.actions}>
+                                                        {editingLotId === lot.id ? (
+                                                            <>
+                                                                <button
+                                                                    onClick={() => handleSaveCostBasis(lot.id)}
+                                                                    className={adminStyles.actionButton}
+                                                                >
+                                                                    💾 Save
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => setEditingLotId(null)}
+                                                                    className={adminStyles.actionButton}
+                                                                >
+                                                                    Cancel
+                                                                </button>
+                                                            </>
+                                                        ) : (
+                                                            <button
+                                                                onClick={() => {
+                                                                    setEditingLotId(lot.id);
+                                                                    setEditingCostBasis(String(lot.costBasis));
+                                                                }}
+                                                                className={adminStyles.actionButton}
+                                                                title="Edit cost basis"
+                                                            >
+                                                                ✏️ Cost Basis
+                                                            </button>
+                                                        )}
+                                                        <button
+                                                            onClick={() => handleDeleteLot(holding.symbol, lot.id)}
+                                                            className={`${adminStyles.actionButton} ${adminStyles.actionButtonDanger}`}
+                                                            title="Delete lot"
+                                                        >
+                                                            🗑️
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {/* Dividends Table */}
+                    {dividends.length > 0 && (
+                        <div className={adminStyles.tableCard} style={{ marginTop: "2rem" }}>
+                            <h2>Dividends ({dividends.length})</h2>
+                            <table className={adminStyles.usersTable}>
+                                <thead>
+                                    <tr>
+                                        <th>Paid</th>
+                                        <th>Symbol</th>
+                                        <th>Amount</th>
+                                        <th>Note</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {dividends.map((dividend) => (
+                                        <tr key={dividend.id}>
+                                            <td>{dividend.paidDate ? formatDate(dividend.paidDate) : "Undated"}</td>
+                                            <td>{dividend.symbol}</td>
+                                            <td>{formatCurrency(dividend.amount)}</td>
+                                            <td>{dividend.note || "—"}</td>
+                                            <td>
+                                                <button
+                                                    onClick={() => handleDeleteDividend(dividend.id)}
+                                                    className={`${adminStyles.actionButton} ${adminStyles.actionButtonDanger}`}
+                                                    title="Delete dividend"
+                                                >
+                                                    🗑️
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
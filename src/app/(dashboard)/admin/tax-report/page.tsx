@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import styles from "../../dashboard.module.css";
+import adminStyles from "../users/admin.module.css";
+import { TaxYearReport, CostBasisMethod } from "@/lib/types";
+
+const METHOD_LABELS: Record<CostBasisMethod, string> = {
+    FIFO: "first in, first out",
+    LIFO: "last in, first out",
+    HIFO: "highest cost first",
+    SPECIFIC_ID: "specific lots",
+};
+
+export default function AdminTaxReportPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [year, setYear] = useState(new Date().getFullYear() - 1);
+    const [report, setReport] = useState<TaxYearReport | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState("");
+
+    // Redirect non-admin users
+    useEffect(() => {
+        if (status === "authenticated" && session?.user?.role !== "ADMIN") {
+            router.push("/dashboard");
+        }
+    }, [session, status, router]);
+
+    // Load the report for the selected year
+    useEffect(() => {
+        const loadReport = async () => {
+            try {
+                const response = await fetch(`/api/reports/tax?year=${year}`);
+                const data = await response.json();
+                if (response.ok) {
+                    setReport(data.report);
+                } else {
+                    setError(data.error || "Failed to load tax report");
+                }
+            } catch {
+                setError("Failed to load tax report");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadReport();
+    }, [year]);
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: "USD",
+        }).format(value);
+    };
+
+    const getInitials = (name: string) => {
+        return name
+            .split(" ")
+            .map((n) => n[0])
+            .join("")
+            .toUpperCase()
+            .slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    if (status === "loading" || isLoading) {
+        return <div>Loading...</div>;
+    }
+
+    if (session?.user?.role !== "ADMIN") {
+        return null;
+    }
+
+    const unmatchedSales = report?.sales.filter((s) => s.unmatchedQuantity > 0) ?? [];
+
+    return (
+        <div className={styles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={styles.sidebar}>
+                <div className={styles.sidebarHeader}>
+                    <Link href="/dashboard" className={styles.sidebarLogo}>
+                        <div className={styles.sidebarLogoIcon}>💵</div>
+                        <span className={styles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={styles.sidebarNav}>
+                    <Link href="/dashboard" className={styles.navItem}>
+                        <span className={styles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={styles.navItem}>
+                        <span className={styles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/members" className={styles.navItem}>
+                        <span className={styles.navIcon}>👥</span>
+                        Members
+                    </Link>
+                    <Link href="/settings" className={styles.navItem}>
+                        <span className={styles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    <Link href="/admin/users" className={`${styles.navItem} ${styles.navItemActive}`}>
+                        <span className={styles.navIcon}>🔐</span>
+                        Admin Panel
+                    </Link>
+                </nav>
+
+                <div className={styles.sidebarFooter}>
+                    <div className={styles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={styles.userAvatar}>
+                            {session.user?.name ? getInitials(session.user.name) : "U"}
+                        </div>
+                        <div className={styles.userDetails}>
+                            <div className={styles.userName}>{session.user?.name || "User"}</div>
+                            <div className={styles.userRole}>{session.user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={styles.mainContent}>
+                <header className={styles.header}>
+                    <div className={styles.headerContent}>
+                        <h1 className={styles.pageTitle}>Tax Report</h1>
+                        <div className={adminStyles.actions}>
+                            <select
+                                value={year}
+                                onChange={(e) => setYear(Number(e.target.value))}
+                                className={adminStyles.formInput}
+                            >
+                                {(report?.years ?? [year]).map((y) => (
+                                    <option key={y} value={y}>{y}</option>
+                                ))}
+                            </select>
+                            <Link href="/admin/k1" className={adminStyles.secondaryButton}>
+                                Member K-1s
+                            </Link>
+                            <a href={`/api/reports/tax?year=${year}&format=csv`} className={adminStyles.primaryButton}>
+                                Download CSV
+                            </a>
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.pageContent}>
+                    {error && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(239, 68, 68, 0.1)", borderColor: "#ef4444", color: "#ef4444" }}>
+                            {error}
+                            <button onClick={() => setError("")} className={adminStyles.alertClose}>×</button>
+                        </div>
+                    )}
+                    {unmatchedSales.length > 0 && (
+                        <div className={adminStyles.alert} style={{ background: "rgba(245, 158, 11, 0.1)", borderColor: "#f59e0b", color: "#f59e0b" }}>
+                            {unmatchedSales.length} sale{unmatchedSales.length === 1 ? "" : "s"} sold shares the transaction history
+                            never shows being bought. Their cost basis is left out; import older history or correct the sale by hand.
+                        </div>
+                    )}
+
+                    {report && (
+                        <>
+                            {/* Summary */}
+                            <div className={adminStyles.tableCard}>
+                                <h2>Realized Gains {report.year}</h2>
+                                <p style={{ color: "var(--color-text-muted)", marginBottom: "1rem" }}>
+                                    Lots matched {METHOD_LABELS[report.method]}. Long-term means held more than a year.
+                                </p>
+                                <table className={adminStyles.usersTable}>
+                                    <thead>
+                                        <tr>
+                                            <th></th>
+                                            <th>Proceeds</th>
+                                            <th>Cost Basis</th>
+                                            <th>Gain/Loss</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        <tr>
+                                            <td>Short-term</td>
+                                            <td>{formatCurrency(report.shortTerm.proceeds)}</td>
+                                            <td>{formatCurrency(report.shortTerm.costBasis)}</td>
+                                            <td>{formatCurrency(report.shortTerm.gain)}</td>
+                                        </tr>
+                                        <tr>
+                                            <td>Long-term</td>
+                                            <td>{formatCurrency(report.longTerm.proceeds)}</td>
+                                            <td>{formatCurrency(report.longTerm.costBasis)}</td>
+                                            <td>{formatCurrency(report.longTerm.gain)}</td>
+                                        </tr>
+                                        <tr>
+                                            <td><strong>Total</strong></td>
+                                            <td><strong>{formatCurrency(report.shortTerm.proceeds + report.longTerm.proceeds)}</strong></td>
+                                            <td><strong>{formatCurrency(report.shortTerm.costBasis + report.longTerm.costBasis)}</strong></td>
+                                            <td><strong>{formatCurrency(report.shortTerm.gain + report.longTerm.gain)}</strong></td>
+                                        </tr>
+                                        <tr>
+                                            <td>Dividend income</td>
+                                            <td></td>
+                                            <td></td>
+                                            <td>{formatCurrency(report.totalDividends)}</td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {/* Sales */}
+                            <div className={adminStyles.tableCard} style={{ marginTop: "2rem" }}>
+                                <h2>Sales ({report.sales.length})</h2>
+                                {report.sales.length === 0 ? (
+                                    <p style={{ color: "var(--color-text-muted)" }}>No sales in {report.year}.</p>
+                                ) : (
+                                    <table className={adminStyles.usersTable}>
+                                        <thead>
+                                            <tr>
+                                                <th>Date</th>
+                                                <th>Symbol</th>
+                                                <th>Shares</th>
+                                                <th>Proceeds</th>
+                                                <th>Cost Basis</th>
+                                                <th>Short-Term</th>
+                                                <th>Long-Term</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.sales.map((sale) => (
+                                                <tr key={sale.sellTransactionId}>
+                                                    <td>{new Date(sale.date).toLocaleDateString("en-US", { timeZone: "UTC" })}</td>
+                                                    <td>
+                                                        <Link href={`/stock/${sale.symbol}`}>{sale.symbol}</Link>
+                                                    </td>
+                                                    <td>
+                                                        {sale.quantity}
+                                                        {sale.unmatchedQuantity > 0 && (
+                                                            <span style={{ color: "#f59e0b" }} title="Shares with no recorded cost basis">
+                                                                {" "}({sale.unmatchedQuantity} unmatched)
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                    <td>{formatCurrency(sale.proceeds)}</td>
+                                                    <td>{formatCurrency(sale.costBasis)}</td>
+                                                    <td>{sale.shortTermGain !== 0 ? formatCurrency(sale.shortTermGain) : "—"}</td>
+                                                    <td>{sale.longTermGain !== 0 ? formatCurrency(sale.longTermGain) : "—"}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+
+                            {/* Dividends */}
+                            <div className={adminStyles.tableCard} style={{ marginTop: "2rem" }}>
+                                <h2>Dividend Income ({formatCurrency(report.totalDividends)})</h2>
+                                {report.dividends.length === 0 ? (
+                                    <p style={{ color: "var(--color-text-muted)" }}>No dividends in {report.year}.</p>
+                                ) : (
+                                    <table className={adminStyles.usersTable}>
+                                        <thead>
+                                            <tr>
+                                                <th>Symbol</th>
+                                                <th>Payments</th>
+                                                <th>Amount</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.dividends.map((d) => (
+                                                <tr key={d.symbol}>
+                                                    <td>{d.symbol}</td>
+                                                    <td>{d.payments}</td>
+                                                    <td>{formatCurrency(d.amount)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -198,12 +198,20 @@ export default function AdminUsersPage() {
                 <header className={styles.header}>
                     <div className={styles.headerContent}>
                         <h1 className={styles.pageTitle}>User Management</h1>
-                        <button
-                            onClick={() => setShowCreateForm(!showCreateForm)}
-                            className={styles.primaryButton}
-                        >
-                            + Create User
-                        </button>
+                        <div className={adminStyles.actions}>
+                            <Link href="/admin/tax-report" className={adminStyles.secondaryButton}>
+                                Tax Report
+                            </Link>
+                            <Link href="/admin/corporate-actions" className={adminStyles.secondaryButton}>
+                                Corporate Actions
+                            </Link>
+                            <button
+                                onClick={() => setShowCreateForm(!showCreateForm)}
+                                className={styles.primaryButton}
+                            >
+                                + Create User
+                            </button>
+                        </div>
                     </div>
                 </header>
 
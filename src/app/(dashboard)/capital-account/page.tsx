@@ -0,0 +1,430 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useSession, signOut } from "next-auth/react";
+import dashStyles from "../dashboard.module.css";
+import styles from "./capital-account.module.css";
+import { CapitalAccount, ClubValuation, UnitLedgerEntry } from "@/lib/types";
+
+interface MemberAccountData {
+    valuation: ClubValuation;
+    account: CapitalAccount;
+    entries: UnitLedgerEntry[];
+}
+
+export default function CapitalAccountPage() {
+    const { data: session } = useSession();
+    const user = session?.user;
+    const isAdmin = user?.role === "ADMIN";
+
+    const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+    const [memberData, setMemberData] = useState<MemberAccountData | null>(null);
+    const [allAccounts, setAllAccounts] = useState<CapitalAccount[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [entryForm, setEntryForm] = useState({
+        userId: "",
+        type: "DEPOSIT",
+        amount: "",
+        date: new Date().toISOString().split("T")[0],
+        unitValue: "",
+        note: "",
+    });
+    const [entryError, setEntryError] = useState("");
+    const [entrySuccess, setEntrySuccess] = useState("");
+    const [entryLoading, setEntryLoading] = useState(false);
+
+    const viewedUserId = selectedUserId ?? user?.id;
+
+    const loadMemberAccount = useCallback(async (userId: string) => {
+        try {
+            const response = await fetch(`/api/capital-accounts/${userId}`);
+            if (response.ok) {
+                setMemberData(await response.json());
+            }
+        } catch (error) {
+            console.error("Failed to load capital account:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const loadAllAccounts = useCallback(async () => {
+        try {
+            const response = await fetch("/api/capital-accounts");
+            if (response.ok) {
+                const { accounts } = await response.json();
+                setAllAccounts(accounts);
+            }
+        } catch (error) {
+            console.error("Failed to load capital accounts:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (viewedUserId) loadMemberAccount(viewedUserId);
+    }, [viewedUserId, loadMemberAccount]);
+
+    useEffect(() => {
+        if (isAdmin) loadAllAccounts();
+    }, [isAdmin, loadAllAccounts]);
+
+    const handleRecordEntry = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setEntryError("");
+        setEntrySuccess("");
+        setEntryLoading(true);
+
+        try {
+            const response = await fetch("/api/capital-accounts", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(entryForm),
+            });
+
+            const data = await response.json();
+
+            if (response.ok) {
+                setEntrySuccess(`Recorded ${data.entry.units.toFixed(4)} units at ${formatCurrency(data.entry.unitValue)} per unit`);
+                setEntryForm({ ...entryForm, amount: "", unitValue: "", note: "" });
+                loadAllAccounts();
+                if (viewedUserId) loadMemberAccount(viewedUserId);
+            } else {
+                setEntryError(data.error || "Failed to record entry");
+            }
+        } catch {
+            setEntryError("Failed to record entry. Please try again.");
+        } finally {
+            setEntryLoading(false);
+        }
+    };
+
+    const getInitials = (name: string) => {
+        return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+    };
+
+    const formatUnits = (value: number) => {
+        return value.toLocaleString("en-US", { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+    };
+
+    const formatDate = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+    };
+
+    const account = memberData?.account;
+    const valuation = memberData?.valuation;
+
+    if (isLoading) {
+        return (
+            <div className={dashStyles.dashboardLayout}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', width: '100%' }}>
+                    <p style={{ color: 'var(--color-text-muted)' }}>Loading capital account...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={dashStyles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={dashStyles.sidebar}>
+                <div className={dashStyles.sidebarHeader}>
+                    <Link href="/dashboard" className={dashStyles.sidebarLogo}>
+                        <div className={dashStyles.sidebarLogoIcon}>💵</div>
+                        <span className={dashStyles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={dashStyles.sidebarNav}>
+                    <Link href="/dashboard" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/dividends" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>💰</span>
+                        Dividends
+                    </Link>
+                    <Link href="/watchlist" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>👀</span>
+                        Watchlist
+                    </Link>
+                    <Link href="/capital-account" className={`${dashStyles.navItem} ${dashStyles.navItemActive}`}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/members" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>👥</span>
+                            Members
+                        </Link>
+                    )}
+                    <Link href="/settings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/admin/users" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>🔐</span>
+                            Admin Panel
+                        </Link>
+                    )}
+                </nav>
+
+                <div className={dashStyles.sidebarFooter}>
+                    <div className={dashStyles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={dashStyles.userAvatar}>
+                            {user?.name ? getInitials(user.name) : "U"}
+                        </div>
+                        <div className={dashStyles.userDetails}>
+                            <div className={dashStyles.userName}>{user?.name || "User"}</div>
+                            <div className={dashStyles.userRole}>{user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={dashStyles.mainContent}>
+                <header className={dashStyles.header}>
+                    <div className={dashStyles.headerContent}>
+                        <div>
+                            <h1 className={dashStyles.pageTitle}>
+                                {account && account.userId !== user?.id ? `${account.name}'s Capital Account` : "My Capital Account"}
+                            </h1>
+                            {valuation && (
+                                <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
+                                    Valuation as of {formatDate(valuation.valuationDate)}
+                                </p>
+                            )}
+                        </div>
+                        {selectedUserId && selectedUserId !== user?.id && (
+                            <div className={dashStyles.headerActions}>
+                                <button className={styles.submitButton} onClick={() => setSelectedUserId(null)}>
+                                    Back to my account
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </header>
+
+                <div className={styles.accountPage}>
+                    {/* Summary Cards */}
+                    {account && valuation && (
+                        <div className={styles.summaryGrid}>
+                            <div className={styles.summaryCard}>
+                                <div className={styles.summaryLabel}>Account Value</div>
+                                <div className={styles.summaryValue}>{formatCurrency(account.value)}</div>
+                                <div className={`${styles.summaryChange} ${account.gainLoss >= 0 ? styles.positive : styles.negative}`}>
+                                    {account.gainLoss >= 0 ? "+" : ""}{formatCurrency(account.gainLoss)} vs. net contributions
+                                </div>
+                            </div>
+                            <div className={styles.summaryCard}>
+                                <div className={styles.summaryLabel}>Units Held</div>
+                                <div className={styles.summaryValue}>{formatUnits(account.units)}</div>
+                                <div className={styles.summaryChange} style={{ color: 'var(--color-text-muted)' }}>
+                                    of {formatUnits(valuation.unitsOutstanding)} outstanding
+                                </div>
+                            </div>
+                            <div className={styles.summaryCard}>
+                                <div className={styles.summaryLabel}>Unit Value</div>
+                                <div className={styles.summaryValue}>{valuation.unitValue !== null ? formatCurrency(valuation.unitValue) : "Not set"}</div>
+                                <div className={styles.summaryChange} style={{ color: 'var(--color-text-muted)' }}>
+                                    Club value {formatCurrency(valuation.totalValue)}
+                                </div>
+                            </div>
+                            <div className={styles.summaryCard}>
+                                <div className={styles.summaryLabel}>Ownership</div>
+                                <div className={styles.summaryValue}>{account.ownershipPercent.toFixed(2)}%</div>
+                            </div>
+                            <div className={styles.summaryCard}>
+                                <div className={styles.summaryLabel}>Total Deposits</div>
+                                <div className={styles.summaryValue}>{formatCurrency(account.totalDeposits)}</div>
+                                <div className={styles.summaryChange} style={{ color: 'var(--color-text-muted)' }}>
+                                    Withdrawals {formatCurrency(account.totalWithdrawals)}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Ledger */}
+                    <h2 className={styles.sectionTitle}>Unit Ledger</h2>
+                    <div className={styles.tableCard}>
+                        {memberData && memberData.entries.length > 0 ? (
+                            <div className={styles.tableContainer}>
+                                <table className={styles.table}>
+                                    <thead>
+                                        <tr>
+                                            <th>Date</th>
+                                            <th>Type</th>
+                                            <th className={styles.numeric}>Amount</th>
+                                            <th className={styles.numeric}>Unit Value</th>
+                                            <th className={styles.numeric}>Units</th>
+                                            <th>Note</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {memberData.entries.map((entry) => (
+                                            <tr key={entry.id}>
+                                                <td>{formatDate(entry.date)}</td>
+                                                <td>
+                                                    <span className={`${styles.typeBadge} ${entry.type === "DEPOSIT" ? styles.typeDeposit : styles.typeWithdrawal}`}>
+                                                        {entry.type}
+                                                    </span>
+                                                </td>
+                                                <td className={styles.numeric}>{formatCurrency(entry.amount)}</td>
+                                                <td className={styles.numeric}>{formatCurrency(entry.unitValue)}</td>
+                                                <td className={`${styles.numeric} ${entry.units >= 0 ? styles.positive : styles.negative}`}>
+                                                    {entry.units >= 0 ? "+" : ""}{formatUnits(entry.units)}
+                                                </td>
+                                                <td style={{ color: 'var(--color-text-secondary)' }}>{entry.note || "—"}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <div className={styles.emptyState}>No deposits or withdrawals have been recorded yet.</div>
+                        )}
+                    </div>
+
+                    {/* Admin: all member accounts and entry form */}
+                    {isAdmin && (
+                        <>
+                            <h2 className={styles.sectionTitle}>All Member Accounts</h2>
+                            <p className={styles.sectionNote}>Click a member to view their ledger.</p>
+                            <div className={styles.tableCard}>
+                                <div className={styles.tableContainer}>
+                                    <table className={styles.table}>
+                                        <thead>
+                                            <tr>
+                                                <th>Member</th>
+                                                <th className={styles.numeric}>Units</th>
+                                                <th className={styles.numeric}>Value</th>
+                                                <th className={styles.numeric}>Ownership</th>
+                                                <th className={styles.numeric}>Deposits</th>
+                                                <th className={styles.numeric}>Withdrawals</th>
+                                                <th className={styles.numeric}>Gain/Loss</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {allAccounts.map((a) => (
+                                                <tr
+                                                    key={a.userId}
+                                                    className={`${styles.clickableRow} ${a.userId === viewedUserId ? styles.selectedRow : ""}`}
+                                                    onClick={() => setSelectedUserId(a.userId)}
+                                                >
+                                                    <td>{a.name}</td>
+                                                    <td className={styles.numeric}>{formatUnits(a.units)}</td>
+                                                    <td className={styles.numeric}>{formatCurrency(a.value)}</td>
+                                                    <td className={styles.numeric}>{a.ownershipPercent.toFixed(2)}%</td>
+                                                    <td className={styles.numeric}>{formatCurrency(a.totalDeposits)}</td>
+                                                    <td className={styles.numeric}>{formatCurrency(a.totalWithdrawals)}</td>
+                                                    <td className={`${styles.numeric} ${a.gainLoss >= 0 ? styles.positive : styles.negative}`}>
+                                                        {formatCurrency(a.gainLoss)}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            <div className={styles.formCard}>
+                                <h2 className={styles.sectionTitle}>Record Deposit or Withdrawal</h2>
+                                <p className={styles.sectionNote}>
+                                    Units are priced at the current unit value. Enter a unit value to backdate an entry using that month&apos;s valuation statement.
+                                </p>
+
+                                {entrySuccess && <div className={styles.successMessage}>✓ {entrySuccess}</div>}
+                                {entryError && <div className={styles.errorMessage}>⚠ {entryError}</div>}
+
+                                <form onSubmit={handleRecordEntry}>
+                                    <div className={styles.formGrid}>
+                                        <div className={styles.formField}>
+                                            <label>Member</label>
+                                            <select
+                                                value={entryForm.userId}
+                                                onChange={(e) => setEntryForm({ ...entryForm, userId: e.target.value })}
+                                                required
+                                            >
+                                                <option value="">Select member...</option>
+                                                {allAccounts.map((a) => (
+                                                    <option key={a.userId} value={a.userId}>{a.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className={styles.formField}>
+                                            <label>Type</label>
+                                            <select
+                                                value={entryForm.type}
+                                                onChange={(e) => setEntryForm({ ...entryForm, type: e.target.value })}
+                                            >
+                                                <option value="DEPOSIT">Deposit</option>
+                                                <option value="WITHDRAWAL">Withdrawal</option>
+                                            </select>
+                                        </div>
+                                        <div className={styles.formField}>
+                                            <label>Date</label>
+                                            <input
+                                                type="date"
+                                                value={entryForm.date}
+                                                onChange={(e) => setEntryForm({ ...entryForm, date: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                        <div className={styles.formField}>
+                                            <label>Amount ($)</label>
+                                            <input
+                                                type="number"
+                                                min="0.01"
+                                                step="0.01"
+                                                value={entryForm.amount}
+                                                onChange={(e) => setEntryForm({ ...entryForm, amount: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                        <div className={styles.formField}>
+                                            <label>Unit Value (optional)</label>
+                                            <input
+                                                type="number"
+                                                min="0.0001"
+                                                step="0.0001"
+                                                placeholder={valuation?.unitValue?.toFixed(4) ?? ""}
+                                                value={entryForm.unitValue}
+                                                onChange={(e) => setEntryForm({ ...entryForm, unitValue: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className={styles.formField}>
+                                            <label>Note</label>
+                                            <input
+                                                type="text"
+                                                value={entryForm.note}
+                                                onChange={(e) => setEntryForm({ ...entryForm, note: e.target.value })}
+                                            />
+                                        </div>
+                                    </div>
+                                    <button type="submit" className={styles.submitButton} disabled={entryLoading}>
+                                        {entryLoading ? "Recording..." : "Record Entry"}
+                                    </button>
+                                </form>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
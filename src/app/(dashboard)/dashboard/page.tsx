@@ -4,31 +4,67 @@ import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
 import styles from "../dashboard.module.css";
-import { PortfolioData, Holding } from "@/lib/types";
+import { Holding, PerformancePoint, PerformanceRange, ReturnMetrics, BenchmarkComparison, RegisterHolding, PortfolioSnapshot } from "@/lib/types";
 import PortfolioPerformanceChart from "@/components/charts/PortfolioPerformanceChart";
 import PortfolioAllocationChart from "@/components/charts/PortfolioAllocationChart";
 import StockTicker from "@/components/StockTicker";
 import StockSearch from "@/components/StockSearch";
-import { dfdiiHoldingsAsPortfolio, staticHoldings as dfdiiStaticHoldings } from "@/lib/dfdii-data";
-
-// Type for live stock prices
-interface LivePrice {
-    currentPrice: number;
-    change: number;
-    changePercent: number;
-    previousClose: number;
+import { registerAsPortfolio } from "@/lib/dfdii-data";
+import { useLivePrices } from "@/hooks/useLivePrices";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { changeLabel } from "@/lib/trading-calendar";
+
+const PERFORMANCE_RANGES: PerformanceRange[] = ["1M", "3M", "YTD", "1Y", "ALL"];
+
+const RANGE_LABELS: Record<PerformanceRange, string> = {
+    "1M": "Last month",
+    "3M": "Last 3 months",
+    "YTD": "Year to date",
+    "1Y": "Last 12 months",
+    "ALL": "Since first transaction",
+};
+
+const SUGGESTED_BENCHMARKS = ["SPY", "VTI", "SCHD"];
+const MAX_BENCHMARKS = 5;
+
+// Holdings as of a snapshot's close, with names and average cost from the
+// current upload
+function snapshotAsHoldings(snapshot: PortfolioSnapshot, current: Holding[]): Holding[] {
+    return snapshot.holdings.map((h) => {
+        const held = current.find((c) => c.symbol.toUpperCase() === h.symbol.toUpperCase());
+        const costPerShare = held?.costPerShare ?? 0;
+        const cost = costPerShare * h.quantity;
+        const gainLoss = h.marketValue - cost;
+        return {
+            symbol: h.symbol,
+            name: held?.name ?? h.symbol,
+            quantity: h.quantity,
+            costPerShare,
+            currentPrice: h.price,
+            marketValue: h.marketValue,
+            gainLoss,
+            gainLossPercent: cost > 0 ? (gainLoss / cost) * 100 : 0,
+        };
+    });
 }
 
 export default function DashboardPage() {
     const { data: session } = useSession();
     const user = session?.user;
-    const [portfolioData, setPortfolioData] = useState<PortfolioData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [hasRealData, setHasRealData] = useState(false);
-    const [livePrices, setLivePrices] = useState<Record<string, LivePrice>>({});
-    const [pricesLoading, setPricesLoading] = useState(false);
-    const [lastPriceUpdate, setLastPriceUpdate] = useState<Date | null>(null);
     const [sidebarOpen, setSidebarOpen] = useState(false);
+    const [performanceRange, setPerformanceRange] = useState<PerformanceRange>("1M");
+    const [performanceData, setPerformanceData] = useState<PerformancePoint[]>([]);
+    const [performanceLoading, setPerformanceLoading] = useState(true);
+    const [clubReturns, setClubReturns] = useState<ReturnMetrics | null>(null);
+    const [benchmarks, setBenchmarks] = useState<string[]>(["SPY"]);
+    const [benchmarkInput, setBenchmarkInput] = useState("");
+    const [comparisons, setComparisons] = useState<BenchmarkComparison[]>([]);
+    const [register, setRegister] = useState<RegisterHolding[]>([]);
+    const [snapshot, setSnapshot] = useState<PortfolioSnapshot | null>(null);
+    const [closingHoldings, setClosingHoldings] = useState<Holding[]>([]);
+    const [liveOverlay, setLiveOverlay] = useState(true);
 
     useEffect(() => {
         // Load portfolio data from API
@@ -41,11 +77,14 @@ export default function DashboardPage() {
             try {
                 const response = await fetch("/api/portfolio");
                 if (response.ok) {
-                    const { portfolio } = await response.json();
+                    const { portfolio, snapshot } = await response.json();
                     if (portfolio.holdings.length > 0) {
-                        setPortfolioData(portfolio);
                         setHasRealData(true);
                     }
+                    if (snapshot) {
+                        setSnapshot(snapshot);
+                        setClosingHoldings(snapshotAsHoldings(snapshot, portfolio.holdings));
+                    }
                 }
             } catch (error) {
                 console.error("Failed to load portfolio data:", error);
@@ -57,50 +96,97 @@ export default function DashboardPage() {
         loadData();
     }, [user?.id]);
 
-    // Fetch live prices when holdings are available
+    // Load the performance series for the selected range, with benchmarks overlaid
+    const benchmarkParam = benchmarks.join(",");
     useEffect(() => {
-        const fetchLivePrices = async () => {
-            const holdingsToPrice = dfdiiHoldingsAsPortfolio;
+        const loadPerformance = async () => {
+            if (!user?.id) return;
+
+            setPerformanceLoading(true);
+            try {
+                const response = await fetch(
+                    `/api/portfolio/performance?range=${performanceRange}&benchmarks=${encodeURIComponent(benchmarkParam)}`
+                );
+                if (response.ok) {
+                    const { points, comparisons } = await response.json();
+                    setPerformanceData(points);
+                    setComparisons(comparisons ?? []);
+                }
+            } catch (error) {
+                console.error("Failed to load portfolio performance:", error);
+            } finally {
+                setPerformanceLoading(false);
+            }
+        };
 
-            if (holdingsToPrice.length === 0) return;
+        loadPerformance();
+    }, [user?.id, performanceRange, benchmarkParam]);
+
+    const toggleBenchmark = (symbol: string) => {
+        setBenchmarks((current) =>
+            current.includes(symbol)
+                ? current.filter((s) => s !== symbol)
+                : [...current, symbol].slice(0, MAX_BENCHMARKS)
+        );
+    };
+
+    const handleAddBenchmark = (e: React.FormEvent) => {
+        e.preventDefault();
+        const symbol = benchmarkInput.trim().toUpperCase();
+        if (symbol && !benchmarks.includes(symbol)) {
+            toggleBenchmark(symbol);
+        }
+        setBenchmarkInput("");
+    };
+
+    // Load time-weighted and money-weighted returns for the club
+    useEffect(() => {
+        const loadReturns = async () => {
+            if (!user?.id) return;
 
-            setPricesLoading(true);
             try {
-                const symbols = holdingsToPrice.map(h => h.symbol);
-                const response = await fetch("/api/stock-prices", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ symbols }),
-                });
+                const response = await fetch("/api/returns");
+                if (response.ok) {
+                    const { returns } = await response.json();
+                    setClubReturns(returns);
+                }
+            } catch (error) {
+                console.error("Failed to load returns:", error);
+            }
+        };
+
+        loadReturns();
+    }, [user?.id]);
+
+    // Load the DFDII holdings register
+    useEffect(() => {
+        const loadRegister = async () => {
+            if (!user?.id) return;
 
+            try {
+                const response = await fetch("/api/register");
                 if (response.ok) {
                     const data = await response.json();
-                    if (data.quotes) {
-                        const prices: Record<string, LivePrice> = {};
-                        Object.entries(data.quotes).forEach(([symbol, quote]: [string, any]) => {
-                            prices[symbol] = {
-                                currentPrice: quote.currentPrice,
-                                change: quote.change,
-                                changePercent: quote.changePercent,
-                                previousClose: quote.previousClose,
-                            };
-                        });
-                        setLivePrices(prices);
-                        setLastPriceUpdate(new Date());
-                    }
+                    setRegister(data.holdings);
                 }
             } catch (error) {
-                console.error("Failed to fetch live prices:", error);
-            } finally {
-                setPricesLoading(false);
+                console.error("Failed to load holdings register:", error);
             }
         };
 
-        // Fetch immediately and then every 5 minutes
-        fetchLivePrices();
-        const interval = setInterval(fetchLivePrices, 5 * 60 * 1000);
-        return () => clearInterval(interval);
-    }, [hasRealData, portfolioData]);
+        loadRegister();
+    }, [user?.id]);
+
+    // The latest end-of-day snapshot is the base; before the first one is
+    // taken, the DFDII holdings register
+    const registerHoldings = useMemo(() => registerAsPortfolio(register), [register]);
+    const baseHoldings = snapshot ? closingHoldings : registerHoldings;
+
+    // Live prices overlay the close during the day, when switched on
+    const symbols = useMemo(() => (liveOverlay ? baseHoldings.map(h => h.symbol) : []), [baseHoldings, liveOverlay]);
+    const { quotes, loading: pricesLoading } = useLivePrices(symbols);
+    const livePrices = useMemo(() => (liveOverlay ? quotes : {}), [quotes, liveOverlay]);
+    const market = useMarketStatus();
 
     // Get initials for avatar
     const getInitials = (name: string) => {
@@ -129,9 +215,6 @@ export default function DashboardPage() {
         return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
     };
 
-    // Always use DFDII holdings as the base
-    const baseHoldings = dfdiiHoldingsAsPortfolio;
-
     // Update holdings with live prices
     const holdings = useMemo(() => {
         if (Object.keys(livePrices).length === 0) {
@@ -178,15 +261,14 @@ export default function DashboardPage() {
         return { value: totalChange, percent };
     }, [baseHoldings, livePrices]);
 
-    // Calculate total portfolio value with live prices
+    // Holdings plus the snapshot's cash (the register doesn't track cash)
     const totalPortfolioValue = useMemo(() => {
-        return holdings.reduce((sum, h) => sum + h.marketValue, 0);
-    }, [holdings]);
+        return holdings.reduce((sum, h) => sum + h.marketValue, 0) + (snapshot?.cashBalance ?? 0);
+    }, [holdings, snapshot]);
 
     const totalGainLoss = useMemo(() => {
-        const totalCost = holdings.reduce((sum, h) => sum + (h.costPerShare * h.quantity), 0);
-        return totalPortfolioValue - totalCost;
-    }, [holdings, totalPortfolioValue]);
+        return holdings.reduce((sum, h) => sum + h.gainLoss, 0);
+    }, [holdings]);
 
     const totalGainLossPercent = useMemo(() => {
         const totalCost = holdings.reduce((sum, h) => sum + (h.costPerShare * h.quantity), 0);
@@ -195,45 +277,43 @@ export default function DashboardPage() {
 
     const hasLivePrices = Object.keys(livePrices).length > 0;
 
-    const totalDividends = dfdiiStaticHoldings.reduce((sum, h) => sum + h.dividends, 0);
+    const totalDividends = register.reduce((sum, h) => sum + h.dividends, 0);
 
     const totalReturn = totalGainLoss + totalDividends;
     const totalCostForReturn = holdings.reduce((sum, h) => sum + (h.costPerShare * h.quantity), 0);
     const totalReturnPercent = totalCostForReturn > 0 ? (totalReturn / totalCostForReturn) * 100 : 0;
 
+    const valueLabel = snapshot && !hasLivePrices
+        ? `Portfolio Value (${new Date(snapshot.date).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })} close)`
+        : "Portfolio Value";
+
     const stats = [
-        { label: "Portfolio Value", value: formatCurrency(totalPortfolioValue), change: formatPercent(totalGainLossPercent), positive: totalGainLossPercent >= 0, icon: "💰" },
-        { label: "Today's Change", value: hasLivePrices ? formatCurrency(todaysChange.value) : "--", change: hasLivePrices ? formatPercent(todaysChange.percent) : (pricesLoading ? "Loading..." : "--"), positive: todaysChange.value >= 0, icon: "📈" },
-        { label: "Total Return", value: formatCurrency(totalReturn), change: formatPercent(totalReturnPercent), positive: totalReturn >= 0, icon: "🎯" },
+        { label: valueLabel, value: formatCurrency(totalPortfolioValue), change: formatPercent(totalGainLossPercent), positive: totalGainLossPercent >= 0, icon: "💰" },
+        { label: changeLabel(market), value: hasLivePrices ? formatCurrency(todaysChange.value) : "--", change: hasLivePrices ? formatPercent(todaysChange.percent) : (!liveOverlay ? "Live prices off" : pricesLoading ? "Loading..." : "--"), positive: todaysChange.value >= 0, icon: "📈" },
+        clubReturns?.twr != null
+            ? {
+                label: "Time-Weighted Return",
+                value: formatPercent(clubReturns.twr * 100),
+                change: [
+                    clubReturns.twrAnnualized != null ? `${formatPercent(clubReturns.twrAnnualized * 100)}/yr` : null,
+                    `IRR ${clubReturns.xirr != null ? formatPercent(clubReturns.xirr * 100) : "--"}`,
+                ].filter(Boolean).join(" · "),
+                positive: clubReturns.twr >= 0,
+                icon: "🎯",
+            }
+            : { label: "Total Return", value: formatCurrency(totalReturn), change: formatPercent(totalReturnPercent), positive: totalReturn >= 0, icon: "🎯" },
         { label: "Dividends Received", value: formatCurrency(totalDividends), change: `${holdings.length} holdings`, positive: true, icon: "💵" },
+        ...comparisons
+            .filter((c) => c.alpha !== null)
+            .map((c) => ({
+                label: `vs ${c.symbol} (${performanceRange})`,
+                value: formatPercent((c.alpha ?? 0) * 100),
+                change: `Club ${formatPercent((c.portfolioReturn ?? 0) * 100)} · ${c.symbol} ${formatPercent((c.benchmarkReturn ?? 0) * 100)}`,
+                positive: (c.alpha ?? 0) >= 0,
+                icon: "⚖️",
+            })),
     ];
 
-    // Generate performance chart data
-    const performanceData = useMemo(() => {
-        const data = [];
-        const totalValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
-        const totalCost = holdings.reduce((sum, h) => sum + (h.costPerShare * h.quantity), 0);
-        const daysToShow = 30;
-
-        for (let i = daysToShow; i >= 0; i--) {
-            const date = new Date();
-            date.setDate(date.getDate() - i);
-
-            // Simulate historical performance with some variation
-            const progress = (daysToShow - i) / daysToShow;
-            const randomVariation = (Math.random() - 0.5) * 0.02; // ±1% random variation
-            const growthFactor = 1 + (progress * ((totalValue - totalCost) / totalCost)) + randomVariation;
-
-            data.push({
-                date: date.toISOString().split('T')[0],
-                value: Math.round(totalCost * growthFactor),
-                cost: totalCost,
-            });
-        }
-
-        return data;
-    }, [holdings]);
-
     // Generate allocation chart data
     const allocationData = useMemo(() => {
         const totalValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
@@ -284,6 +364,18 @@ export default function DashboardPage() {
                         <span className={styles.navIcon}>📈</span>
                         DFDII Holdings
                     </Link>
+                    <Link href="/dividends" className={styles.navItem}>
+                        <span className={styles.navIcon}>💰</span>
+                        Dividends
+                    </Link>
+                    <Link href="/watchlist" className={styles.navItem}>
+                        <span className={styles.navIcon}>👀</span>
+                        Watchlist
+                    </Link>
+                    <Link href="/capital-account" className={styles.navItem}>
+                        <span className={styles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
                     {user?.role === "ADMIN" && (
                         <Link href="/members" className={styles.navItem}>
                             <span className={styles.navIcon}>👥</span>
@@ -327,6 +419,15 @@ export default function DashboardPage() {
                         </div>
                         <div className={styles.headerActions}>
                             <StockSearch />
+                            {snapshot && (
+                                <button
+                                    className="btn btn-secondary"
+                                    onClick={() => setLiveOverlay(!liveOverlay)}
+                                    title="Value holdings at live prices instead of the last close"
+                                >
+                                    Live prices: {liveOverlay ? "On" : "Off"}
+                                </button>
+                            )}
                             {hasRealData ? (
                                 <span style={{ color: 'var(--color-success)', fontSize: '0.875rem' }}>
                                     ✓ Using Schwab data
@@ -386,11 +487,58 @@ export default function DashboardPage() {
                         {/* Performance Chart */}
                         <div className={styles.chartCard}>
                             <div className={styles.chartHeader}>
-                                <h2 className={styles.chartTitle}>Portfolio Performance</h2>
-                                <span className={styles.chartSubtitle}>Last 30 days</span>
+                                <div>
+                                    <h2 className={styles.chartTitle}>Portfolio Performance</h2>
+                                    <span className={styles.chartSubtitle}>{RANGE_LABELS[performanceRange]}</span>
+                                </div>
+                                <div className={styles.rangeButtons}>
+                                    {PERFORMANCE_RANGES.map((r) => (
+                                        <button
+                                            key={r}
+                                            className={`${styles.rangeBtn} ${performanceRange === r ? styles.rangeBtnActive : ""}`}
+                                            onClick={() => setPerformanceRange(r)}
+                                        >
+                                            {r}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className={styles.benchmarkBar}>
+                                <span className={styles.benchmarkLabel}>Compare to</span>
+                                {[...new Set([...SUGGESTED_BENCHMARKS, ...benchmarks])].map((symbol) => (
+                                    <button
+                                        key={symbol}
+                                        className={`${styles.rangeBtn} ${benchmarks.includes(symbol) ? styles.rangeBtnActive : ""}`}
+                                        onClick={() => toggleBenchmark(symbol)}
+                                    >
+                                        {symbol}
+                                    </button>
+                                ))}
+                                <form onSubmit={handleAddBenchmark} className={styles.benchmarkForm}>
+                                    <input
+                                        type="text"
+                                        value={benchmarkInput}
+                                        onChange={(e) => setBenchmarkInput(e.target.value)}
+                                        placeholder="Add symbol"
+                                        maxLength={10}
+                                        className={styles.benchmarkInput}
+                                    />
+                                </form>
                             </div>
                             <div className={styles.chartContainer}>
-                                <PortfolioPerformanceChart data={performanceData} height={300} />
+                                {performanceLoading ? (
+                                    <div className={styles.chartPlaceholder}>Loading performance...</div>
+                                ) : performanceData.length > 0 ? (
+                                    <PortfolioPerformanceChart
+                                        data={performanceData}
+                                        benchmarks={comparisons.map((c) => c.symbol)}
+                                        height={300}
+                                    />
+                                ) : (
+                                    <div className={styles.chartPlaceholder}>
+                                        Upload your Schwab transaction history in Settings to see performance.
+                                    </div>
+                                )}
                             </div>
                         </div>
 
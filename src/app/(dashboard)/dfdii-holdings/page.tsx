@@ -5,17 +5,13 @@ import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
 import dashStyles from "../dashboard.module.css";
 import styles from "./dfdii-holdings.module.css";
+import { RegisterHolding, SymbolDividends } from "@/lib/types";
+import { useLivePrices } from "@/hooks/useLivePrices";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { changeLabel, marketSummary } from "@/lib/trading-calendar";
 
-interface DFDIIHolding {
-    symbol: string;
-    qty: number;
-    price: number;
-    date: string;
-    costBasis: number;
-    dividends: number;
-    yieldPercent: number;
-    divYTD: number;
-    monthsHeld: number;
+interface DFDIIHolding extends RegisterHolding {
+    yieldPercent?: number;
     // Live data fields
     lastPrice?: number;
     marketValue?: number;
@@ -28,57 +24,16 @@ interface DFDIIHolding {
     returnPerMonth?: number;
 }
 
-interface LivePrice {
-    currentPrice: number;
-    change: number;
-    changePercent: number;
-}
-
-// Static data from the PDF (as of 6/16/2026)
-const staticHoldings: DFDIIHolding[] = [
-    { symbol: "GGN", qty: 6400, price: 3.18, date: "2/17/2021", costBasis: 20382.08, dividends: 10654.00, yieldPercent: 0, divYTD: 0, monthsHeld: 64 },
-    { symbol: "AMZN", qty: 175, price: 141.93, date: "9/21/2022", costBasis: 24838.10, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 45 },
-    { symbol: "GNRC", qty: 100, price: 113.47, date: "4/16/2025", costBasis: 11347.00, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 14 },
-    { symbol: "GNT", qty: 2000, price: 4.13, date: "3/16/2022", costBasis: 8250.40, dividends: 3980.00, yieldPercent: 0, divYTD: 0, monthsHeld: 51 },
-    { symbol: "KO", qty: 300, price: 53.56, date: "2/17/2021", costBasis: 16069.47, dividends: 3743.00, yieldPercent: 0, divYTD: 0, monthsHeld: 64 },
-    { symbol: "ET", qty: 1000, price: 12.64, date: "8/16/2023", costBasis: 12639.00, dividends: 3575.00, yieldPercent: 0, divYTD: 0, monthsHeld: 34 },
-    { symbol: "EPD", qty: 400, price: 23.46, date: "3/17/2021", costBasis: 9384.00, dividends: 4332.00, yieldPercent: 0, divYTD: 0, monthsHeld: 63 },
-    { symbol: "DNP", qty: 1000, price: 9.62, date: "5/19/2021", costBasis: 9616.80, dividends: 4570.00, yieldPercent: 0, divYTD: 0, monthsHeld: 61 },
-    { symbol: "CVX", qty: 100, price: 136.64, date: "4/16/2025", costBasis: 13664.00, dividends: 869.00, yieldPercent: 0, divYTD: 0, monthsHeld: 14 },
-    { symbol: "NVDA", qty: 75, price: 140.20, date: "10/1/2024", costBasis: 10515.00, dividends: 3.75, yieldPercent: 0, divYTD: 0, monthsHeld: 8 },
-    { symbol: "CLM", qty: 2551, price: 6.96, date: "9/22/2021", costBasis: 17750.47, dividends: 3047.31, yieldPercent: 0, divYTD: 0, monthsHeld: 57 },
-    { symbol: "GUT", qty: 1000, price: 5.30, date: "3/17/2021", costBasis: 5303.10, dividends: 3150.00, yieldPercent: 0, divYTD: 0, monthsHeld: 63 },
-    { symbol: "WMT", qty: 100, price: 89.78, date: "3/19/2025", costBasis: 8978.00, dividends: 145.75, yieldPercent: 0, divYTD: 0, monthsHeld: 15 },
-    { symbol: "SYK", qty: 50, price: 266.86, date: "8/18/2021", costBasis: 13342.85, dividends: 738.50, yieldPercent: 0, divYTD: 0, monthsHeld: 58 },
-    { symbol: "BMY", qty: 200, price: 50.02, date: "2/21/2024", costBasis: 10003.98, dividends: 1352.00, yieldPercent: 0, divYTD: 0, monthsHeld: 28 },
-    { symbol: "PHK", qty: 2500, price: 5.54, date: "2/17/2021", costBasis: 13841.50, dividends: 4882.00, yieldPercent: 0, divYTD: 0, monthsHeld: 64 },
-    { symbol: "AAPL", qty: 60, price: 259.27, date: "10/22/2025", costBasis: 15556.20, dividends: 37.00, yieldPercent: 0, divYTD: 0, monthsHeld: 8 },
-    { symbol: "CRF", qty: 2070, price: 7.88, date: "11/17/2021", costBasis: 16299.27, dividends: 3677.08, yieldPercent: 0, divYTD: 0, monthsHeld: 55 },
-    { symbol: "BKR", qty: 100, price: 53.50, date: "1/21/2026", costBasis: 5350.00, dividends: 46.00, yieldPercent: 0, divYTD: 0, monthsHeld: 5 },
-    { symbol: "AUR", qty: 750, price: 5.70, date: "8/20/2025", costBasis: 4275.00, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 10 },
-    { symbol: "ORCL", qty: 100, price: 185.75, date: "11/19/2025", costBasis: 18575.00, dividends: 25.00, yieldPercent: 0, divYTD: 0, monthsHeld: 7 },
-    { symbol: "HD", qty: 50, price: 339.58, date: "11/19/2025", costBasis: 16978.93, dividends: 232.25, yieldPercent: 0, divYTD: 0, monthsHeld: 7 },
-    { symbol: "APLD", qty: 100, price: 45.24, date: "5/27/2026", costBasis: 4524.00, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 1 },
-    { symbol: "LGN", qty: 100, price: 88.87, date: "5/27/2026", costBasis: 8887.00, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 1 },
-    { symbol: "IBM", qty: 30, price: 290.00, date: "11/19/2025", costBasis: 8700.00, dividends: 101.10, yieldPercent: 0, divYTD: 0, monthsHeld: 7 },
-    { symbol: "LEN", qty: 100, price: 105.63, date: "4/16/2025", costBasis: 10563.00, dividends: 250.00, yieldPercent: 0, divYTD: 0, monthsHeld: 14 },
-    { symbol: "PLTR", qty: 50, price: 167.65, date: "11/19/2025", costBasis: 8382.50, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 7 },
-    { symbol: "RKT", qty: 250, price: 21.10, date: "9/17/2025", costBasis: 5273.75, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 9 },
-    { symbol: "HUMA", qty: 2000, price: 2.43, date: "5/21/2025", costBasis: 4856.40, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 13 },
-    { symbol: "BSX", qty: 150, price: 70.43, date: "3/19/2026", costBasis: 10564.50, dividends: 0.00, yieldPercent: 0, divYTD: 0, monthsHeld: 3 },
-];
-
-type SortKey = "symbol" | "qty" | "price" | "date" | "lastPrice" | "costBasis" | "marketValue" | "dayChange" | "dayChangePercent" | "gainDollar" | "gainPercent" | "dividends" | "return" | "returnPercent" | "returnPerMonth";
+type SortKey = "symbol" | "qty" | "price" | "date" | "lastPrice" | "costBasis" | "marketValue" | "dayChange" | "dayChangePercent" | "gainDollar" | "gainPercent" | "dividends" | "divYTD" | "yieldPercent" | "return" | "returnPercent" | "returnPerMonth";
 type SortOrder = "asc" | "desc";
 
 export default function DFDIIHoldingsPage() {
     const { data: session } = useSession();
     const user = session?.user;
     const [sidebarOpen, setSidebarOpen] = useState(false);
-    const [holdings, setHoldings] = useState<DFDIIHolding[]>(staticHoldings);
-    const [livePrices, setLivePrices] = useState<Record<string, LivePrice>>({});
-    const [pricesLoading, setPricesLoading] = useState(false);
-    const [lastPriceUpdate, setLastPriceUpdate] = useState<Date | null>(null);
+    const [register, setRegister] = useState<RegisterHolding[]>([]);
+    const [income, setIncome] = useState<Record<string, SymbolDividends>>({});
+    const [holdings, setHoldings] = useState<DFDIIHolding[]>([]);
     const [searchQuery, setSearchQuery] = useState("");
     const [sortKey, setSortKey] = useState<SortKey>("symbol");
     const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
@@ -92,49 +47,53 @@ export default function DFDIIHoldingsPage() {
         await signOut({ callbackUrl: "/" });
     };
 
-    // Fetch live prices
+    // Load the holdings register
     useEffect(() => {
-        const fetchLivePrices = async () => {
-            setPricesLoading(true);
+        const fetchRegister = async () => {
             try {
-                const symbols = staticHoldings.map(h => h.symbol);
-                const response = await fetch("/api/stock-prices", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ symbols }),
-                });
+                const response = await fetch("/api/register");
+                if (response.ok) {
+                    const data = await response.json();
+                    setRegister(data.holdings.filter((h: RegisterHolding) => h.qty > 0));
+                }
+            } catch (error) {
+                console.error("Failed to load holdings register:", error);
+            }
+        };
+
+        fetchRegister();
+    }, []);
 
+    // Quoted yields, from the dividend tracker
+    useEffect(() => {
+        const fetchDividends = async () => {
+            try {
+                const response = await fetch("/api/dividends");
                 if (response.ok) {
                     const data = await response.json();
-                    if (data.quotes) {
-                        const prices: Record<string, LivePrice> = {};
-                        Object.entries(data.quotes).forEach(([symbol, quote]: [string, any]) => {
-                            prices[symbol] = {
-                                currentPrice: quote.currentPrice,
-                                change: quote.change,
-                                changePercent: quote.changePercent,
-                            };
-                        });
-                        setLivePrices(prices);
-                        setLastPriceUpdate(new Date());
-                    }
+                    setIncome(Object.fromEntries(data.summary.symbols.map((d: SymbolDividends) => [d.symbol, d])));
                 }
             } catch (error) {
-                console.error("Failed to fetch live prices:", error);
-            } finally {
-                setPricesLoading(false);
+                console.error("Failed to load dividends:", error);
             }
         };
 
-        fetchLivePrices();
-        // Refresh every 5 minutes
-        const interval = setInterval(fetchLivePrices, 5 * 60 * 1000);
-        return () => clearInterval(interval);
+        fetchDividends();
     }, []);
 
+    // Live prices for the holdings
+    const symbols = useMemo(() => register.map(h => h.symbol), [register]);
+    const { quotes: livePrices, loading: pricesLoading, lastUpdate: lastPriceUpdate } = useLivePrices(symbols);
+    const market = useMarketStatus();
+
     // Calculate live values when prices update
     useEffect(() => {
-        const updatedHoldings = staticHoldings.map(holding => {
+        const updatedHoldings = register.map(registered => {
+            const symbolIncome = income[registered.symbol];
+            const holding: DFDIIHolding = {
+                ...registered,
+                yieldPercent: symbolIncome?.currentYield != null ? symbolIncome.currentYield * 100 : undefined,
+            };
             const livePrice = livePrices[holding.symbol];
             if (livePrice) {
                 const lastPrice = livePrice.currentPrice;
@@ -163,7 +122,7 @@ export default function DFDIIHoldingsPage() {
             return holding;
         });
         setHoldings(updatedHoldings);
-    }, [livePrices]);
+    }, [livePrices, register, income]);
 
     const formatCurrency = (value: number | undefined) => {
         if (value === undefined) return "—";
@@ -182,6 +141,11 @@ export default function DFDIIHoldingsPage() {
         return new Intl.NumberFormat("en-US").format(value);
     };
 
+    // Register dates are midnight UTC
+    const formatDate = (value: string) => {
+        return value ? new Date(value).toLocaleDateString("en-US", { timeZone: "UTC" }) : "—";
+    };
+
     // Calculate totals
     const totals = useMemo(() => {
         const totalCostBasis = holdings.reduce((sum, h) => sum + h.costBasis, 0);
@@ -191,6 +155,7 @@ export default function DFDIIHoldingsPage() {
         const totalGainDollar = holdings.reduce((sum, h) => sum + (h.gainDollar || 0), 0);
         const totalGainPercent = totalCostBasis > 0 ? (totalGainDollar / totalCostBasis) * 100 : 0;
         const totalDividends = holdings.reduce((sum, h) => sum + h.dividends, 0);
+        const totalDivYTD = holdings.reduce((sum, h) => sum + h.divYTD, 0);
         const totalReturn = holdings.reduce((sum, h) => sum + (h.return || 0), 0);
         const totalReturnPercent = totalCostBasis > 0 ? (totalReturn / totalCostBasis) * 100 : 0;
 
@@ -202,6 +167,7 @@ export default function DFDIIHoldingsPage() {
             gainDollar: totalGainDollar,
             gainPercent: totalGainPercent,
             dividends: totalDividends,
+            divYTD: totalDivYTD,
             return: totalReturn,
             returnPercent: totalReturnPercent,
         };
@@ -278,6 +244,10 @@ export default function DFDIIHoldingsPage() {
                         <span className={dashStyles.navIcon}>📈</span>
                         DFDII Holdings
                     </Link>
+                    <Link href="/capital-account" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
                     {user?.role === "ADMIN" && (
                         <Link href="/members" className={dashStyles.navItem}>
                             <span className={dashStyles.navIcon}>👥</span>
@@ -331,12 +301,17 @@ export default function DFDIIHoldingsPage() {
                         <div>
                             <h1 className={dashStyles.pageTitle}>Dining for Dollars II Stock Holdings</h1>
                             <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
-                                Live pricing from Finnhub API
+                                {marketSummary(market)}
                                 {lastPriceUpdate && (
                                     <> • Last updated: {lastPriceUpdate.toLocaleTimeString()}</>
                                 )}
                             </p>
                         </div>
+                        {user?.role === "ADMIN" && (
+                            <Link href="/admin/register" className="btn btn-secondary">
+                                Manage Holdings
+                            </Link>
+                        )}
                     </div>
                 </header>
 
@@ -354,7 +329,7 @@ export default function DFDIIHoldingsPage() {
                         </div>
                     </div>
                     <div className={styles.summaryCard}>
-                        <div className={styles.summaryLabel}>Today's Change</div>
+                        <div className={styles.summaryLabel}>{changeLabel(market)}</div>
                         <div className={`${styles.summaryValue} ${totals.dayChange >= 0 ? styles.positive : styles.negative}`}>
                             {formatCurrency(totals.dayChange)}
                         </div>
@@ -435,6 +410,12 @@ export default function DFDIIHoldingsPage() {
                                 <th onClick={() => handleSort("dividends")} style={{ textAlign: 'right' }}>
                                     Dividends <SortIcon column="dividends" />
                                 </th>
+                                <th onClick={() => handleSort("divYTD")} style={{ textAlign: 'right' }}>
+                                    Div YTD <SortIcon column="divYTD" />
+                                </th>
+                                <th onClick={() => handleSort("yieldPercent")} style={{ textAlign: 'right' }}>
+                                    Yield <SortIcon column="yieldPercent" />
+                                </th>
                                 <th onClick={() => handleSort("return")} style={{ textAlign: 'right' }}>
                                     Return <SortIcon column="return" />
                                 </th>
@@ -457,7 +438,7 @@ export default function DFDIIHoldingsPage() {
                                     </td>
                                     <td style={{ textAlign: 'right' }}>{formatNumber(holding.qty)}</td>
                                     <td style={{ textAlign: 'right' }}>{formatCurrency(holding.price)}</td>
-                                    <td>{holding.date}</td>
+                                    <td>{formatDate(holding.date)}</td>
                                     <td style={{ textAlign: 'right' }}>
                                         {holding.lastPrice ? (
                                             <span className={styles.livePrice}>
@@ -479,6 +460,10 @@ export default function DFDIIHoldingsPage() {
                                         {formatPercent(holding.gainPercent)}
                                     </td>
                                     <td style={{ textAlign: 'right' }}>{formatCurrency(holding.dividends)}</td>
+                                    <td style={{ textAlign: 'right' }}>{formatCurrency(holding.divYTD)}</td>
+                                    <td style={{ textAlign: 'right' }}>
+                                        {holding.yieldPercent !== undefined ? `${holding.yieldPercent.toFixed(2)}%` : "—"}
+                                    </td>
                                     <td style={{ textAlign: 'right' }} className={holding.return && holding.return >= 0 ? styles.positive : styles.negative}>
                                         {formatCurrency(holding.return)}
                                     </td>
@@ -506,6 +491,8 @@ export default function DFDIIHoldingsPage() {
                                     <strong>{formatPercent(totals.gainPercent)}</strong>
                                 </td>
                                 <td style={{ textAlign: 'right' }}><strong>{formatCurrency(totals.dividends)}</strong></td>
+                                <td style={{ textAlign: 'right' }}><strong>{formatCurrency(totals.divYTD)}</strong></td>
+                                <td></td>
                                 <td style={{ textAlign: 'right' }} className={totals.return >= 0 ? styles.positive : styles.negative}>
                                     <strong>{formatCurrency(totals.return)}</strong>
                                 </td>
@@ -520,7 +507,8 @@ export default function DFDIIHoldingsPage() {
 
                 {/* Info Note */}
                 <div className={styles.infoNote}>
-                    <strong>Note:</strong> Static data (Qty, Price, Date, Cost Basis, Dividends, Months Held) is from the original PDF as of 6/16/2026.
+                    <strong>Note:</strong> Qty, Price, Date and Cost Basis come from the holdings register, where Price is the average paid across lots and Date is the first purchase. Months Held is counted from that date.
+                    Dividends and Div YTD come from the club dividend transactions, with register entries covering the years before that history starts. Yield is the quoted yield of each stock.
                     Live pricing updates Market Value, Day Change, Gain, and Return calculations automatically via Finnhub API.
                     <strong> Click "Day $ / %" column header to toggle between dollar and percentage view.</strong>
                 </div>
@@ -0,0 +1,338 @@
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+import Link from "next/link";
+import { useSession, signOut } from "next-auth/react";
+import dashStyles from "../dashboard.module.css";
+import styles from "./dividends.module.css";
+import DividendIncomeChart from "@/components/charts/DividendIncomeChart";
+import { DividendSummary, DividendCalendar, ExpectedDividend } from "@/lib/types";
+
+const FREQUENCY_LABELS: Record<number, string> = { 12: "Monthly", 4: "Quarterly", 2: "Semi-annual", 1: "Annual" };
+
+export default function DividendsPage() {
+    const { data: session } = useSession();
+    const user = session?.user;
+    const isAdmin = user?.role === "ADMIN";
+
+    const [summary, setSummary] = useState<DividendSummary | null>(null);
+    const [calendar, setCalendar] = useState<DividendCalendar | null>(null);
+    const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const loadSummary = async () => {
+            try {
+                const response = await fetch("/api/dividends");
+                if (response.ok) {
+                    const data = await response.json();
+                    setSummary(data.summary);
+                    setCalendar(data.calendar);
+                }
+            } catch (error) {
+                console.error("Failed to load dividends:", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadSummary();
+    }, []);
+
+    const getInitials = (name: string) => {
+        return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+    };
+
+    const formatYield = (value: number | null) => {
+        return value == null ? "—" : `${(value * 100).toFixed(2)}%`;
+    };
+
+    const formatDate = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+    };
+
+    const formatMonth = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString("en-US", { year: "numeric", month: "long", timeZone: "UTC" });
+    };
+
+    // Expected dividends grouped by the month of their ex-date
+    const calendarMonths = (calendar?.dividends ?? []).reduce<{ month: string; dividends: ExpectedDividend[] }[]>((months, d) => {
+        const month = d.exDate.slice(0, 7);
+        const last = months[months.length - 1];
+        if (last?.month === month) {
+            last.dividends.push(d);
+        } else {
+            months.push({ month, dividends: [d] });
+        }
+        return months;
+    }, []);
+
+    if (isLoading) {
+        return (
+            <div className={dashStyles.dashboardLayout}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', width: '100%' }}>
+                    <p style={{ color: 'var(--color-text-muted)' }}>Loading dividends...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={dashStyles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={dashStyles.sidebar}>
+                <div className={dashStyles.sidebarHeader}>
+                    <Link href="/dashboard" className={dashStyles.sidebarLogo}>
+                        <div className={dashStyles.sidebarLogoIcon}>💵</div>
+                        <span className={dashStyles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={dashStyles.sidebarNav}>
+                    <Link href="/dashboard" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/dividends" className={`${dashStyles.navItem} ${dashStyles.navItemActive}`}>
+                        <span className={dashStyles.navIcon}>💰</span>
+                        Dividends
+                    </Link>
+                    <Link href="/watchlist" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>👀</span>
+                        Watchlist
+                    </Link>
+                    <Link href="/capital-account" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/members" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>👥</span>
+                            Members
+                        </Link>
+                    )}
+                    <Link href="/settings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/admin/users" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>🔐</span>
+                            Admin Panel
+                        </Link>
+                    )}
+                </nav>
+
+                <div className={dashStyles.sidebarFooter}>
+                    <div className={dashStyles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={dashStyles.userAvatar}>
+                            {user?.name ? getInitials(user.name) : "U"}
+                        </div>
+                        <div className={dashStyles.userDetails}>
+                            <div className={dashStyles.userName}>{user?.name || "User"}</div>
+                            <div className={dashStyles.userRole}>{user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={dashStyles.mainContent}>
+                <header className={dashStyles.header}>
+                    <div className={dashStyles.headerContent}>
+                        <div>
+                            <h1 className={dashStyles.pageTitle}>Dividends</h1>
+                            {summary && (
+                                <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
+                                    From the transaction history as of {formatDate(summary.asOf)}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.dividendsPage}>
+                    {/* Dividend calendar */}
+                    {calendar && calendar.dividends.length > 0 && (
+                        <>
+                            <h2 className={styles.sectionTitle}>Dividend Calendar</h2>
+                            <p className={styles.sectionNote}>
+                                Expected through {formatDate(calendar.through)} on the shares held now: {formatCurrency(calendar.total)}.
+                                Announced ex-dates are marked; the rest are projected from each stock&apos;s payment history at its last dividend per share.
+                            </p>
+                            <div className={styles.tableCard}>
+                                <div className={styles.tableContainer}>
+                                    <table className={styles.table}>
+                                        <thead>
+                                            <tr>
+                                                <th>Ex-Date</th>
+                                                <th>Pay Date</th>
+                                                <th>Symbol</th>
+                                                <th>Frequency</th>
+                                                <th className={styles.numeric}>Per Share</th>
+                                                <th className={styles.numeric}>Shares</th>
+                                                <th className={styles.numeric}>Expected Cash</th>
+                                                <th>Status</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {calendarMonths.map(({ month, dividends }) => (
+                                                <Fragment key={month}>
+                                                    <tr className={styles.monthRow}>
+                                                        <td colSpan={6}>{formatMonth(`${month}-01`)}</td>
+                                                        <td className={styles.numeric}>
+                                                            {formatCurrency(dividends.reduce((total, d) => total + d.amount, 0))}
+                                                        </td>
+                                                        <td></td>
+                                                    </tr>
+                                                    {dividends.map((d) => (
+                                                        <tr key={`${d.symbol}-${d.exDate}`}>
+                                                            <td>{formatDate(d.exDate)}</td>
+                                                            <td>{d.payDate ? formatDate(d.payDate) : "—"}</td>
+                                                            <td>
+                                                                <Link href={`/stock/${d.symbol}`}>
+                                                                    <strong>{d.symbol}</strong>
+                                                                </Link>
+                                                            </td>
+                                                            <td>{FREQUENCY_LABELS[d.paymentsPerYear]}</td>
+                                                            <td className={styles.numeric}>${d.amountPerShare.toFixed(4)}</td>
+                                                            <td className={styles.numeric}>{d.shares}</td>
+                                                            <td className={styles.numeric}>{formatCurrency(d.amount)}</td>
+                                                            <td>
+                                                                <span className={d.declared ? styles.declaredBadge : styles.projectedBadge}>
+                                                                    {d.declared ? "Announced" : "Projected"}
+                                                                </span>
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </Fragment>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {!summary || summary.symbols.length === 0 ? (
+                        <div className={styles.tableCard}>
+                            <div className={styles.emptyState}>
+                                No dividends in the transaction history yet. They appear here once a transaction history is uploaded in Settings.
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            {/* Summary Cards */}
+                            <div className={styles.summaryGrid}>
+                                <div className={styles.summaryCard}>
+                                    <div className={styles.summaryLabel}>Trailing 12 Months</div>
+                                    <div className={styles.summaryValue}>{formatCurrency(summary.ttm)}</div>
+                                </div>
+                                <div className={styles.summaryCard}>
+                                    <div className={styles.summaryLabel}>Year to Date</div>
+                                    <div className={styles.summaryValue}>{formatCurrency(summary.ytd)}</div>
+                                </div>
+                                <div className={styles.summaryCard}>
+                                    <div className={styles.summaryLabel}>Yield on Cost</div>
+                                    <div className={styles.summaryValue}>{formatYield(summary.yieldOnCost)}</div>
+                                    <div className={styles.summaryChange} style={{ color: 'var(--color-text-muted)' }}>
+                                        Current yield {formatYield(summary.currentYield)}
+                                    </div>
+                                </div>
+                                <div className={styles.summaryCard}>
+                                    <div className={styles.summaryLabel}>All-Time Income</div>
+                                    <div className={styles.summaryValue}>{formatCurrency(summary.total)}</div>
+                                    <div className={styles.summaryChange} style={{ color: 'var(--color-text-muted)' }}>
+                                        {formatCurrency(summary.reinvested)} reinvested
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Monthly income */}
+                            <h2 className={styles.sectionTitle}>Monthly Income</h2>
+                            <div className={styles.chartCard}>
+                                <DividendIncomeChart data={summary.months} />
+                            </div>
+
+                            {/* By symbol */}
+                            <h2 className={styles.sectionTitle}>By Holding</h2>
+                            <p className={styles.sectionNote}>
+                                Yield on cost is trailing-twelve-month income over the cost of the shares held now; current yield is the stock&apos;s quoted yield.
+                                Click a row for its payment history.
+                            </p>
+                            <div className={styles.tableCard}>
+                                <div className={styles.tableContainer}>
+                                    <table className={styles.table}>
+                                        <thead>
+                                            <tr>
+                                                <th>Symbol</th>
+                                                <th className={styles.numeric}>Shares</th>
+                                                <th className={styles.numeric}>TTM</th>
+                                                <th className={styles.numeric}>YTD</th>
+                                                <th className={styles.numeric}>All-Time</th>
+                                                <th className={styles.numeric}>Reinvested</th>
+                                                <th className={styles.numeric}>Yield on Cost</th>
+                                                <th className={styles.numeric}>Current Yield</th>
+                                                <th>Last Paid</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {summary.symbols.map((s) => (
+                                                <Fragment key={s.symbol}>
+                                                    <tr
+                                                        className={`${styles.clickableRow} ${s.symbol === selectedSymbol ? styles.selectedRow : ""}`}
+                                                        onClick={() => setSelectedSymbol(s.symbol === selectedSymbol ? null : s.symbol)}
+                                                    >
+                                                        <td>
+                                                            <Link href={`/stock/${s.symbol}`} onClick={(e) => e.stopPropagation()}>
+                                                                <strong>{s.symbol}</strong>
+                                                            </Link>
+                                                        </td>
+                                                        <td className={styles.numeric}>{s.quantity > 0 ? s.quantity : "Sold"}</td>
+                                                        <td className={styles.numeric}>{formatCurrency(s.ttm)}</td>
+                                                        <td className={styles.numeric}>{formatCurrency(s.ytd)}</td>
+                                                        <td className={styles.numeric}>{formatCurrency(s.total)}</td>
+                                                        <td className={styles.numeric}>{s.reinvested > 0 ? formatCurrency(s.reinvested) : "—"}</td>
+                                                        <td className={styles.numeric}>{formatYield(s.yieldOnCost)}</td>
+                                                        <td className={styles.numeric}>{formatYield(s.currentYield)}</td>
+                                                        <td>{formatDate(s.payments[0].date)}</td>
+                                                    </tr>
+                                                    {s.symbol === selectedSymbol && (
+                                                        <tr className={styles.historyRow}>
+                                                            <td colSpan={9}>
+                                                                <div className={styles.historyList}>
+                                                                    {s.payments.map((p, index) => (
+                                                                        <span key={index}>
+                                                                            {formatDate(p.date)}: {formatCurrency(p.amount)}
+                                                                            {p.reinvestedShares > 0 && ` → ${p.reinvestedShares} sh`}
+                                                                        </span>
+                                                                    ))}
+                                                                </div>
+                                                            </td>
+                                                        </tr>
+                                                    )}
+                                                </Fragment>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -153,6 +153,10 @@ export default function MembersPage() {
                         <span className={dashStyles.navIcon}>📈</span>
                         DFDII Holdings
                     </Link>
+                    <Link href="/capital-account" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
                     <Link href="/members" className={`${dashStyles.navItem} ${dashStyles.navItemActive}`}>
                         <span className={dashStyles.navIcon}>👥</span>
                         Members
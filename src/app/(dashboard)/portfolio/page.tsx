@@ -5,15 +5,11 @@ import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
 import dashStyles from "../dashboard.module.css";
 import styles from "./portfolio.module.css";
-import { dfdiiHoldingsAsPortfolio, staticHoldings as dfdiiStaticHoldings } from "@/lib/dfdii-data";
-import { Holding } from "@/lib/types";
-
-interface LivePrice {
-    currentPrice: number;
-    change: number;
-    changePercent: number;
-    previousClose: number;
-}
+import { registerAsPortfolio } from "@/lib/dfdii-data";
+import { Holding, RegisterHolding } from "@/lib/types";
+import { useLivePrices } from "@/hooks/useLivePrices";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { quoteLabel } from "@/lib/trading-calendar";
 
 type SortKey = "symbol" | "quantity" | "costPerShare" | "currentPrice" | "marketValue" | "gainLoss" | "gainLossPercent" | "allocation";
 type SortOrder = "asc" | "desc";
@@ -21,52 +17,34 @@ type SortOrder = "asc" | "desc";
 export default function PortfolioPage() {
     const { data: session } = useSession();
     const user = session?.user;
-    const [livePrices, setLivePrices] = useState<Record<string, LivePrice>>({});
-    const [pricesLoading, setPricesLoading] = useState(false);
-    const [lastPriceUpdate, setLastPriceUpdate] = useState<Date | null>(null);
     const [searchQuery, setSearchQuery] = useState("");
     const [sortKey, setSortKey] = useState<SortKey>("marketValue");
     const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
     const [sidebarOpen, setSidebarOpen] = useState(false);
+    const [register, setRegister] = useState<RegisterHolding[]>([]);
+
+    const baseHoldings = useMemo(() => registerAsPortfolio(register), [register]);
 
     useEffect(() => {
-        const fetchLivePrices = async () => {
-            setPricesLoading(true);
+        const fetchRegister = async () => {
             try {
-                const symbols = dfdiiHoldingsAsPortfolio.map(h => h.symbol);
-                const response = await fetch("/api/stock-prices", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ symbols }),
-                });
+                const response = await fetch("/api/register");
                 if (response.ok) {
                     const data = await response.json();
-                    if (data.quotes) {
-                        const prices: Record<string, LivePrice> = {};
-                        Object.entries(data.quotes).forEach(([symbol, quote]: [string, any]) => {
-                            prices[symbol] = {
-                                currentPrice: quote.currentPrice,
-                                change: quote.change,
-                                changePercent: quote.changePercent,
-                                previousClose: quote.previousClose,
-                            };
-                        });
-                        setLivePrices(prices);
-                        setLastPriceUpdate(new Date());
-                    }
+                    setRegister(data.holdings);
                 }
             } catch (error) {
-                console.error("Failed to fetch live prices:", error);
-            } finally {
-                setPricesLoading(false);
+                console.error("Failed to load holdings register:", error);
             }
         };
 
-        fetchLivePrices();
-        const interval = setInterval(fetchLivePrices, 5 * 60 * 1000);
-        return () => clearInterval(interval);
+        fetchRegister();
     }, []);
 
+    const symbols = useMemo(() => baseHoldings.map(h => h.symbol), [baseHoldings]);
+    const { quotes: livePrices, loading: pricesLoading, lastUpdate: lastPriceUpdate } = useLivePrices(symbols);
+    const market = useMarketStatus();
+
     const getInitials = (name: string) => {
         return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
     };
@@ -84,9 +62,9 @@ export default function PortfolioPage() {
     };
 
     const holdings: Holding[] = useMemo(() => {
-        if (Object.keys(livePrices).length === 0) return dfdiiHoldingsAsPortfolio;
+        if (Object.keys(livePrices).length === 0) return baseHoldings;
 
-        return dfdiiHoldingsAsPortfolio.map(holding => {
+        return baseHoldings.map(holding => {
             const livePrice = livePrices[holding.symbol];
             if (!livePrice) return holding;
 
@@ -103,13 +81,13 @@ export default function PortfolioPage() {
                 gainLossPercent: newGainLossPercent,
             };
         });
-    }, [livePrices]);
+    }, [baseHoldings, livePrices]);
 
     const totalValue = useMemo(() => holdings.reduce((sum, h) => sum + h.marketValue, 0), [holdings]);
     const totalCost = useMemo(() => holdings.reduce((sum, h) => sum + (h.costPerShare * h.quantity), 0), [holdings]);
     const totalGainLoss = totalValue - totalCost;
     const totalGainLossPercent = totalCost > 0 ? (totalGainLoss / totalCost) * 100 : 0;
-    const totalDividends = dfdiiStaticHoldings.reduce((sum, h) => sum + h.dividends, 0);
+    const totalDividends = register.reduce((sum, h) => sum + h.dividends, 0);
     const totalReturn = totalGainLoss + totalDividends;
     const totalReturnPercent = totalCost > 0 ? (totalReturn / totalCost) * 100 : 0;
 
@@ -145,7 +123,7 @@ export default function PortfolioPage() {
         }
     };
 
-    const SortIcon = ({ column }: { column: SortKey }) => {
+    const sortIcon = (column: SortKey) => {
         const isActive = sortKey === column;
         return (
             <span className={`${styles.sortIndicator} ${isActive ? styles.sortActive : ""}`}>
@@ -221,7 +199,7 @@ export default function PortfolioPage() {
                                 {pricesLoading
                                     ? "Updating prices..."
                                     : lastPriceUpdate
-                                        ? `Updated ${lastPriceUpdate.toLocaleTimeString()}`
+                                        ? `${quoteLabel(market.session)} · Updated ${lastPriceUpdate.toLocaleTimeString()}`
                                         : "Loading prices..."}
                             </span>
                         </div>
@@ -277,28 +255,28 @@ export default function PortfolioPage() {
                                 <thead>
                                     <tr>
                                         <th onClick={() => handleSort("symbol")}>
-                                            Symbol <SortIcon column="symbol" />
+                                            Symbol {sortIcon("symbol")}
                                         </th>
                                         <th onClick={() => handleSort("quantity")}>
-                                            Shares <SortIcon column="quantity" />
+                                            Shares {sortIcon("quantity")}
                                         </th>
                                         <th onClick={() => handleSort("costPerShare")}>
-                                            Avg Cost <SortIcon column="costPerShare" />
+                                            Avg Cost {sortIcon("costPerShare")}
                                         </th>
                                         <th onClick={() => handleSort("currentPrice")}>
-                                            Price <SortIcon column="currentPrice" />
+                                            Price {sortIcon("currentPrice")}
                                         </th>
                                         <th onClick={() => handleSort("marketValue")}>
-                                            Value <SortIcon column="marketValue" />
+                                            Value {sortIcon("marketValue")}
                                         </th>
                                         <th onClick={() => handleSort("gainLoss")}>
-                                            Gain/Loss <SortIcon column="gainLoss" />
+                                            Gain/Loss {sortIcon("gainLoss")}
                                         </th>
                                         <th onClick={() => handleSort("gainLossPercent")}>
-                                            Return <SortIcon column="gainLossPercent" />
+                                            Return {sortIcon("gainLossPercent")}
                                         </th>
                                         <th onClick={() => handleSort("allocation")}>
-                                            Allocation <SortIcon column="allocation" />
+                                            Allocation {sortIcon("allocation")}
                                         </th>
                                     </tr>
                                 </thead>
@@ -1,13 +1,120 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import dashStyles from "../dashboard.module.css";
 import styles from "./upload.module.css";
-import { Holding, PortfolioData } from "@/lib/types";
-import { parseSchwabPositions, parseSchwabTransactions, calculatePortfolioTotals } from "@/lib/schwab-parser";
+import { Holding, PortfolioData, ImportSummary, Transaction, ImportKind, ColumnMapping, ImportTemplate, ParseResult, SkippedRow, ParseWarning, PositionCheck, ReconciliationIssue } from "@/lib/types";
+import { calculatePortfolioTotals } from "@/lib/schwab-parser";
+import { Importer, importers, getImporter, recognizeFile, acceptedExtensions, CONFIDENT_SCORE } from "@/lib/importers";
+import { SourceTable, readTable, guessMapping, templateMatches, mapHoldings, mapTransactions } from "@/lib/column-mapping";
+import ColumnMapper from "@/components/ColumnMapper";
+
+// Ask the server how uploaded transactions merge into the stored history and
+// whether the positions match the share counts the merged history adds up to
+async function previewImport(
+    holdings: Holding[],
+    transactionsList: Transaction[]
+): Promise<{ summary: ImportSummary | null; positionChecks: PositionCheck[] }> {
+    try {
+        const response = await fetch("/api/portfolio/preview", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ holdings, transactions: transactionsList }),
+        });
+        if (response.ok) {
+            const { summary, positionChecks } = await response.json();
+            return { summary: transactionsList.length > 0 ? summary : null, positionChecks };
+        }
+    } catch (err) {
+        console.error("Failed to preview import:", err);
+    }
+    return { summary: null, positionChecks: [] };
+}
+
+const isAccepted = (fileName: string, kind: ImportKind) =>
+    acceptedExtensions(kind).some((ext) => fileName.toLowerCase().endsWith(ext));
+
+// What read an uploaded file: an importer, a saved template or a hand-made mapping
+interface FileSource {
+    id: string;     // recorded as the import batch's parser
+    name: string;
+}
+
+// What was dropped or guessed while reading a file
+interface FileRead {
+    source: FileSource;
+    skipped: SkippedRow[];
+    warnings: ParseWarning[];
+}
+
+// Longest list of skipped rows or warnings shown per file
+const MAX_ISSUES = 50;
+
+const ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+    SPLIT: "Possible split missing from the history",
+    MISSING_HISTORY: "Held before the history starts, transferred in, or buys missing",
+    EXTRA_HISTORY: "Sells or a transfer out missing",
+    NOT_HELD: "Sold, transferred out or renamed outside the history",
+    NO_HISTORY: "No transactions in the history",
+};
+
+// "2-for-1", "1-for-10"
+function describeSplit(check: PositionCheck): string {
+    const ratio = check.splitRatio ?? 1;
+    return ratio < 1 ? `1-for-${Math.round(1 / ratio)}` : `${ratio}-for-1`;
+}
+
+interface MappingStep {
+    kind: ImportKind;
+    fileName: string;
+    table: SourceTable;
+    mapping: ColumnMapping;
+}
+
+const noFiles = <T,>(): Record<ImportKind, T | null> => ({ positions: null, transactions: null });
+
+type ReadResult<T> = { parsed: ParseResult<T>; source: FileSource } | { needsMapping: MappingStep };
+
+// Read one upload with the broker picked in the dropdown, a mapping the user
+// confirmed, a confidently detected importer or a saved template that fits
+// its columns. Otherwise the user has to map its columns first.
+async function readFile<T>(
+    file: File,
+    kind: ImportKind,
+    choice: string,
+    confirmedMapping: ColumnMapping | null,
+    templates: ImportTemplate[],
+    parse: (importer: Importer, content: string) => ParseResult<T>,
+    map: (table: SourceTable, mapping: ColumnMapping) => ParseResult<T>
+): Promise<ReadResult<T>> {
+    const content = await file.text();
+
+    if (confirmedMapping) {
+        return { parsed: map(readTable(content), confirmedMapping), source: { id: "mapped", name: "your column mapping" } };
+    }
+
+    const chosen = getImporter(choice);
+    if (chosen) return { parsed: parse(chosen, content), source: chosen };
+
+    const { importer, score } = recognizeFile(content, file.name, kind);
+    const isCSV = file.name.toLowerCase().endsWith(".csv");
+    if (choice === "auto" && (score >= CONFIDENT_SCORE || !isCSV)) {
+        return { parsed: parse(importer, content), source: importer };
+    }
+
+    const table = readTable(content);
+    const template = templates.find((t) => t.kind === kind && templateMatches(t, table.headers));
+    if (choice === "auto" && template) {
+        return { parsed: map(table, template.mapping), source: { id: `template:${template.name}`, name: `template "${template.name}"` } };
+    }
+
+    return {
+        needsMapping: { kind, fileName: file.name, table, mapping: template?.mapping ?? guessMapping(table.headers, kind) },
+    };
+}
 
 export default function UploadPage() {
     const { data: session } = useSession();
@@ -17,9 +124,14 @@ export default function UploadPage() {
     const [positionsFile, setPositionsFile] = useState<File | null>(null);
     const [transactionsFile, setTransactionsFile] = useState<File | null>(null);
     const [parsedData, setParsedData] = useState<PortfolioData | null>(null);
+    const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+    const [positionChecks, setPositionChecks] = useState<PositionCheck[]>([]);
     const [error, setError] = useState("");
     const [success, setSuccess] = useState("");
     const [dragActive, setDragActive] = useState<"positions" | "transactions" | null>(null);
+    const [fileReads, setFileReads] = useState<Record<ImportKind, FileRead | null>>(noFiles());
+    const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+    const [mappingStep, setMappingStep] = useState<MappingStep | null>(null);
 
     // Password change state
     const [passwordForm, setPasswordForm] = useState({
@@ -33,6 +145,24 @@ export default function UploadPage() {
 
     const positionsInputRef = useRef<HTMLInputElement>(null);
     const transactionsInputRef = useRef<HTMLInputElement>(null);
+    // Read when files are processed, so the drop handlers never see a stale choice
+    const importerChoiceRef = useRef("auto");
+    const templatesRef = useRef<ImportTemplate[]>([]);
+    // Kept with the file it was made for, so choosing another file starts over
+    const confirmedMappingsRef = useRef<Record<ImportKind, { file: File; mapping: ColumnMapping } | null>>(noFiles());
+
+    // Load saved column mappings
+    useEffect(() => {
+        if (user?.role !== "ADMIN") return;
+
+        fetch("/api/admin/import-templates")
+            .then((res) => (res.ok ? res.json() : { templates: [] }))
+            .then((data) => {
+                templatesRef.current = data.templates;
+                setTemplates(data.templates);
+            })
+            .catch((err) => console.error("Failed to load import templates:", err));
+    }, [user?.role]);
 
     const getInitials = (name: string) => {
         return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
@@ -56,16 +186,15 @@ export default function UploadPage() {
             const fileName = file.name.toLowerCase();
 
             if (type === "positions") {
-                if (!fileName.endsWith(".csv")) {
-                    setError("Please upload a CSV file for positions");
+                if (!isAccepted(fileName, "positions")) {
+                    setError(`Please upload a ${acceptedExtensions("positions").join(", ")} file for positions`);
                     return;
                 }
                 setPositionsFile(file);
                 await processFiles(file, transactionsFile);
             } else {
-                // Transactions can be CSV or JSON
-                if (!fileName.endsWith(".csv") && !fileName.endsWith(".json")) {
-                    setError("Please upload a CSV or JSON file for transactions");
+                if (!isAccepted(fileName, "transactions")) {
+                    setError(`Please upload a ${acceptedExtensions("transactions").join(", ")} file for transactions`);
                     return;
                 }
                 setTransactionsFile(file);
@@ -81,16 +210,15 @@ export default function UploadPage() {
             const fileName = file.name.toLowerCase();
 
             if (type === "positions") {
-                if (!fileName.endsWith(".csv")) {
-                    setError("Please upload a CSV file for positions");
+                if (!isAccepted(fileName, "positions")) {
+                    setError(`Please upload a ${acceptedExtensions("positions").join(", ")} file for positions`);
                     return;
                 }
                 setPositionsFile(file);
                 await processFiles(file, transactionsFile);
             } else {
-                // Transactions can be CSV or JSON
-                if (!fileName.endsWith(".csv") && !fileName.endsWith(".json")) {
-                    setError("Please upload a CSV or JSON file for transactions");
+                if (!isAccepted(fileName, "transactions")) {
+                    setError(`Please upload a ${acceptedExtensions("transactions").join(", ")} file for transactions`);
                     return;
                 }
                 setTransactionsFile(file);
@@ -100,31 +228,125 @@ export default function UploadPage() {
     };
 
     const processFiles = async (positions: File | null, transactions: File | null) => {
+        setMappingStep(null);
         if (!positions) {
             setParsedData(null);
+            setImportSummary(null);
+            setPositionChecks([]);
+            setFileReads(noFiles());
             return;
         }
 
+        const choice = importerChoiceRef.current;
+        const confirmedFor = (file: File, kind: ImportKind) => {
+            const confirmed = confirmedMappingsRef.current[kind];
+            return confirmed?.file === file ? confirmed.mapping : null;
+        };
+
         try {
-            const positionsContent = await positions.text();
-            const holdings = parseSchwabPositions(positionsContent, positions.name);
-
-            let transactionsList: ReturnType<typeof parseSchwabTransactions> = [];
-            if (transactions) {
-                const transactionsContent = await transactions.text();
-                // Auto-detects JSON or CSV based on content/filename
-                transactionsList = parseSchwabTransactions(transactionsContent, transactions.name);
-            }
+            const positionsResult = await readFile(
+                positions,
+                "positions",
+                choice,
+                confirmedFor(positions, "positions"),
+                templatesRef.current,
+                (importer, content) => importer.parsePositions(content, positions.name),
+                mapHoldings
+            );
+            const transactionsResult = transactions && !("needsMapping" in positionsResult)
+                ? await readFile(
+                    transactions,
+                    "transactions",
+                    choice,
+                    confirmedFor(transactions, "transactions"),
+                    templatesRef.current,
+                    (importer, content) => importer.parseTransactions(content, transactions.name),
+                    mapTransactions
+                )
+                : null;
 
-            const portfolioData = calculatePortfolioTotals(holdings, transactionsList);
+            // Wait for the mapping step before previewing
+            const waitForMapping = (step: MappingStep) => {
+                setMappingStep(step);
+                setParsedData(null);
+                setImportSummary(null);
+                setPositionChecks([]);
+            };
+            if ("needsMapping" in positionsResult) return waitForMapping(positionsResult.needsMapping);
+            if (transactionsResult && "needsMapping" in transactionsResult) return waitForMapping(transactionsResult.needsMapping);
+
+            const transactionsList = transactionsResult?.parsed.rows ?? [];
+            const portfolioData = calculatePortfolioTotals(positionsResult.parsed.rows, transactionsList);
+            const toFileRead = ({ parsed, source }: { parsed: ParseResult<unknown>; source: FileSource }): FileRead =>
+                ({ source, skipped: parsed.skipped, warnings: parsed.warnings });
+            setFileReads({
+                positions: toFileRead(positionsResult),
+                transactions: transactionsResult ? toFileRead(transactionsResult) : null,
+            });
             setParsedData(portfolioData);
+            const preview = await previewImport(portfolioData.holdings, transactionsList);
+            setImportSummary(preview.summary);
+            setPositionChecks(preview.positionChecks);
         } catch (err) {
-            setError("Error parsing file. Please make sure it's a valid Schwab export.");
+            setError("Error parsing file. Please make sure it's a valid brokerage export.");
             console.error(err);
         }
     };
 
+    const handleImporterChange = async (choice: string) => {
+        importerChoiceRef.current = choice;
+        confirmedMappingsRef.current = noFiles();
+        setError("");
+        await processFiles(positionsFile, transactionsFile);
+    };
+
+    const handleApplyMapping = async (mapping: ColumnMapping) => {
+        const file = mappingStep?.kind === "positions" ? positionsFile : transactionsFile;
+        if (!mappingStep || !file) return;
+        confirmedMappingsRef.current[mappingStep.kind] = { file, mapping };
+        await processFiles(positionsFile, transactionsFile);
+    };
+
+    // Returns an error message, or null once saved
+    const handleSaveTemplate = async (name: string, mapping: ColumnMapping): Promise<string | null> => {
+        if (!mappingStep) return null;
+
+        try {
+            const response = await fetch("/api/admin/import-templates", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name, kind: mappingStep.kind, mapping }),
+            });
+            const data = await response.json();
+            if (!response.ok) return data.error || "Failed to save template";
+
+            const saved: ImportTemplate = data.template;
+            const next = [...templatesRef.current.filter((t) => t.id !== saved.id), saved]
+                .sort((a, b) => a.name.localeCompare(b.name));
+            templatesRef.current = next;
+            setTemplates(next);
+            return null;
+        } catch {
+            return "Failed to save template";
+        }
+    };
+
+    const handleDeleteTemplate = async (id: string) => {
+        try {
+            const response = await fetch(`/api/admin/import-templates/${id}`, { method: "DELETE" });
+            if (response.ok) {
+                const next = templatesRef.current.filter((t) => t.id !== id);
+                templatesRef.current = next;
+                setTemplates(next);
+            }
+        } catch (err) {
+            console.error("Failed to delete import template:", err);
+        }
+    };
+
     const removeFile = (type: "positions" | "transactions") => {
+        confirmedMappingsRef.current[type] = null;
+        setMappingStep(null);
         if (type === "positions") {
             setPositionsFile(null);
             setParsedData(null);
@@ -145,11 +367,21 @@ export default function UploadPage() {
             const response = await fetch("/api/portfolio/save", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(parsedData),
+                body: JSON.stringify({
+                    portfolio: parsedData,
+                    source: {
+                        positionsFile: positionsFile?.name ?? null,
+                        transactionsFile: transactionsFile?.name ?? null,
+                        parser: [...new Set([fileReads.positions?.source.id, fileReads.transactions?.source.id].filter(Boolean))].join("+") || "unknown",
+                    },
+                }),
             });
 
             if (response.ok) {
-                setSuccess("Portfolio data saved successfully! Redirecting to dashboard...");
+                const { summary } = await response.json();
+                setSuccess(
+                    `Portfolio data saved: ${summary.added} transactions added, ${summary.duplicates} duplicates skipped, ${summary.conflicts} conflicting. Redirecting to dashboard...`
+                );
 
                 setTimeout(() => {
                     router.push("/dashboard");
@@ -216,6 +448,9 @@ export default function UploadPage() {
         return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
     };
 
+    const mismatches = positionChecks.filter((c) => c.issue && c.issue !== "NO_HISTORY");
+    const untracked = positionChecks.filter((c) => c.issue === "NO_HISTORY");
+
     return (
         <div className={dashStyles.dashboardLayout}>
             {/* Sidebar */}
@@ -236,6 +471,10 @@ export default function UploadPage() {
                         <span className={dashStyles.navIcon}>📈</span>
                         DFDII Holdings
                     </Link>
+                    <Link href="/capital-account" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
                     {user?.role === "ADMIN" && (
                         <Link href="/members" className={dashStyles.navItem}>
                             <span className={dashStyles.navIcon}>👥</span>
@@ -372,9 +611,33 @@ export default function UploadPage() {
                     {/* Portfolio Upload Section - Admin Only */}
                     {user?.role === "ADMIN" && (
                     <>
-                    <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: 'var(--space-md)' }}>
-                        Import Schwab Data
-                    </h2>
+                    <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', marginBottom: 'var(--space-md)' }}>
+                        <h2 style={{ fontSize: '1.25rem', fontWeight: 600 }}>
+                            Import Brokerage Data
+                        </h2>
+                        <Link href="/admin/imports" style={{ color: 'var(--color-accent-primary)', fontSize: '0.875rem' }}>
+                            View import history →
+                        </Link>
+                    </div>
+
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-sm)', marginBottom: 'var(--space-md)' }}>
+                        <label htmlFor="importer" style={{ color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>
+                            Broker
+                        </label>
+                        <select
+                            id="importer"
+                            defaultValue="auto"
+                            onChange={(e) => handleImporterChange(e.target.value)}
+                            className="input"
+                            style={{ width: 'auto' }}
+                        >
+                            <option value="auto">Detect automatically</option>
+                            {importers.map((importer) => (
+                                <option key={importer.id} value={importer.id}>{importer.name}</option>
+                            ))}
+                            <option value="manual">Other CSV (map columns)</option>
+                        </select>
+                    </div>
 
                     {/* Success/Error Messages */}
                     {success && <div className={styles.successMessage}>✓ {success}</div>}
@@ -388,7 +651,7 @@ export default function UploadPage() {
                                 📊 Portfolio Positions
                             </h2>
                             <p className={styles.uploadCardDesc}>
-                                Upload your Schwab positions export to see current holdings
+                                Upload your broker&apos;s positions export to see current holdings
                             </p>
 
                             <div
@@ -401,15 +664,15 @@ export default function UploadPage() {
                             >
                                 <div className={styles.dropZoneIcon}>📁</div>
                                 <div className={styles.dropZoneText}>
-                                    Drag & drop your positions CSV here
+                                    Drag & drop your positions file here
                                 </div>
                                 <div className={styles.dropZoneHint}>
-                                    or click to browse files
+                                    Accepts {acceptedExtensions("positions").join(", ")}
                                 </div>
                                 <input
                                     ref={positionsInputRef}
                                     type="file"
-                                    accept=".csv"
+                                    accept={acceptedExtensions("positions").join(",")}
                                     className={styles.fileInput}
                                     onChange={(e) => handleFileSelect(e, "positions")}
                                 />
@@ -422,6 +685,7 @@ export default function UploadPage() {
                                         <div className={styles.uploadedFileName}>{positionsFile.name}</div>
                                         <div className={styles.uploadedFileSize}>
                                             {(positionsFile.size / 1024).toFixed(1)} KB
+                                            {fileReads.positions && ` · read as ${fileReads.positions.source.name}`}
                                         </div>
                                     </div>
                                     <button
@@ -457,12 +721,12 @@ export default function UploadPage() {
                                     Drag & drop your transactions file here
                                 </div>
                                 <div className={styles.dropZoneHint}>
-                                    Accepts CSV or JSON format
+                                    Accepts {acceptedExtensions("transactions").join(", ")}
                                 </div>
                                 <input
                                     ref={transactionsInputRef}
                                     type="file"
-                                    accept=".csv,.json"
+                                    accept={acceptedExtensions("transactions").join(",")}
                                     className={styles.fileInput}
                                     onChange={(e) => handleFileSelect(e, "transactions")}
                                 />
@@ -475,6 +739,7 @@ export default function UploadPage() {
                                         <div className={styles.uploadedFileName}>{transactionsFile.name}</div>
                                         <div className={styles.uploadedFileSize}>
                                             {(transactionsFile.size / 1024).toFixed(1)} KB
+                                            {fileReads.transactions && ` · read as ${fileReads.transactions.source.name}`}
                                         </div>
                                     </div>
                                     <button
@@ -489,8 +754,24 @@ export default function UploadPage() {
                         </div>
                     </div>
 
+                    {/* Column mapping for CSVs no importer recognizes */}
+                    {mappingStep && (
+                        <ColumnMapper
+                            key={`${mappingStep.kind}:${mappingStep.fileName}`}
+                            kind={mappingStep.kind}
+                            fileName={mappingStep.fileName}
+                            table={mappingStep.table}
+                            initialMapping={mappingStep.mapping}
+                            templates={templates}
+                            onApply={handleApplyMapping}
+                            onSaveTemplate={handleSaveTemplate}
+                            onDeleteTemplate={handleDeleteTemplate}
+                            onCancel={() => removeFile(mappingStep.kind)}
+                        />
+                    )}
+
                     {/* Parsed Results Preview */}
-                    {parsedData && parsedData.holdings.length > 0 && (
+                    {parsedData && (
                         <div className={styles.resultsSection}>
                             <div className={styles.resultsHeader}>
                                 <h2 className={styles.resultsTitle}>📈 Preview</h2>
@@ -544,16 +825,197 @@ export default function UploadPage() {
                                 </p>
                             )}
 
+                            {parsedData.holdings.length === 0 && (
+                                <p style={{ textAlign: 'center', color: 'var(--color-text-muted)', marginTop: 'var(--space-md)', fontSize: '0.875rem' }}>
+                                    No holdings could be read from the positions file. See the skipped rows below.
+                                </p>
+                            )}
+
+                            {/* Rows the parsers dropped or had to guess at */}
+                            {(["positions", "transactions"] as const).map((kind) => {
+                                const read = fileReads[kind];
+                                if (!read || (read.skipped.length === 0 && read.warnings.length === 0)) return null;
+                                const hidden = Math.max(read.skipped.length - MAX_ISSUES, 0) + Math.max(read.warnings.length - MAX_ISSUES, 0);
+
+                                return (
+                                    <div key={kind} className={styles.mergeSummary}>
+                                        <h3 className={styles.mergeSummaryTitle}>
+                                            ⚠ {kind === "positions" ? "Positions" : "Transactions"} File Check
+                                        </h3>
+                                        <p className={styles.mergeSummaryNote}>
+                                            {read.skipped.length} row{read.skipped.length === 1 ? "" : "s"} skipped
+                                            and {read.warnings.length} warning{read.warnings.length === 1 ? "" : "s"}.
+                                            Skipped rows won&apos;t be saved; fix the file and upload it again if any of them should be.
+                                        </p>
+                                        {read.skipped.length > 0 && (
+                                            <table className={styles.previewTable}>
+                                                <thead>
+                                                    <tr>
+                                                        <th>Row</th>
+                                                        <th>Skipped Because</th>
+                                                        <th>Contents</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {read.skipped.slice(0, MAX_ISSUES).map((skipped, index) => (
+                                                        <tr key={index}>
+                                                            <td>{skipped.row || "File"}</td>
+                                                            <td>{skipped.reason}</td>
+                                                            <td style={{ color: 'var(--color-text-secondary)', fontFamily: 'var(--font-mono)', fontSize: '0.75rem' }}>
+                                                                {skipped.text.length > 120 ? `${skipped.text.slice(0, 120)}…` : skipped.text}
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                        {read.warnings.length > 0 && (
+                                            <table className={styles.previewTable} style={{ marginTop: 'var(--space-md)' }}>
+                                                <thead>
+                                                    <tr>
+                                                        <th>Row</th>
+                                                        <th>Warning</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {read.warnings.slice(0, MAX_ISSUES).map((warning, index) => (
+                                                        <tr key={index}>
+                                                            <td>{warning.row || "File"}</td>
+                                                            <td>{warning.message}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                        {hidden > 0 && (
+                                            <p className={styles.mergeSummaryNote}>... and {hidden} more</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+
+                            {/* Positions vs. the share counts the transaction history adds up to */}
+                            {positionChecks.length > 0 && (
+                                <div className={styles.mergeSummary}>
+                                    <h3 className={styles.mergeSummaryTitle}>🔍 Reconciliation</h3>
+                                    <p className={styles.mergeSummaryNote}>
+                                        {positionChecks.length - mismatches.length - untracked.length} of {positionChecks.length} symbols
+                                        match the share count their transactions add up to.
+                                        {mismatches.length > 0 && " Check the ones below before saving; a split, transfer or gap in the export usually explains them."}
+                                    </p>
+                                    {mismatches.length > 0 && (
+                                        <table className={styles.previewTable}>
+                                            <thead>
+                                                <tr>
+                                                    <th>Symbol</th>
+                                                    <th>Positions File</th>
+                                                    <th>From History</th>
+                                                    <th>Difference</th>
+                                                    <th>Likely Cause</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {mismatches.map((check) => (
+                                                    <tr key={check.symbol}>
+                                                        <td style={{ fontWeight: 600, fontFamily: 'var(--font-mono)' }}>{check.symbol}</td>
+                                                        <td>{check.heldQuantity}</td>
+                                                        <td>{Number(check.expectedQuantity.toFixed(4))}</td>
+                                                        <td style={{ color: 'var(--color-warning)' }}>
+                                                            {check.difference > 0 ? "+" : ""}{Number(check.difference.toFixed(4))}
+                                                        </td>
+                                                        <td style={{ color: 'var(--color-text-secondary)' }}>
+                                                            {check.issue === "SPLIT" ? `Possible ${describeSplit(check)} split missing from the history` : ISSUE_LABELS[check.issue!]}
+                                                            {check.otherRows.length > 0 && (
+                                                                <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)' }}>
+                                                                    Other share movements: {check.otherRows.join("; ")}
+                                                                </div>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    {untracked.length > 0 && (
+                                        <p className={styles.mergeSummaryNote}>
+                                            {untracked.length} position{untracked.length === 1 ? " has" : "s have"} no transactions
+                                            in the club history and {untracked.length === 1 ? "was" : "were"} presumably held before it starts:{" "}
+                                            {untracked.map((c) => c.symbol).join(", ")}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Transaction merge preview */}
+                            {importSummary && (
+                                <div className={styles.mergeSummary}>
+                                    <h3 className={styles.mergeSummaryTitle}>📋 Transaction History</h3>
+                                    <div className={styles.resultsStats}>
+                                        <div className={styles.resultsStat}>
+                                            <div className={styles.resultsStatValue} style={{ color: 'var(--color-success)' }}>{importSummary.added}</div>
+                                            <div className={styles.resultsStatLabel}>Added</div>
+                                        </div>
+                                        <div className={styles.resultsStat}>
+                                            <div className={styles.resultsStatValue}>{importSummary.duplicates}</div>
+                                            <div className={styles.resultsStatLabel}>Duplicates Skipped</div>
+                                        </div>
+                                        <div className={styles.resultsStat}>
+                                            <div className={styles.resultsStatValue} style={{ color: importSummary.conflicts > 0 ? 'var(--color-warning)' : undefined }}>
+                                                {importSummary.conflicts}
+                                            </div>
+                                            <div className={styles.resultsStatLabel}>Conflicting</div>
+                                        </div>
+                                    </div>
+
+                                    {importSummary.conflictRows.length > 0 && (
+                                        <>
+                                            <p className={styles.mergeSummaryNote}>
+                                                These rows share a date, action and symbol with a saved transaction but differ in quantity or amount.
+                                                They will not be imported; correct the saved record first if the new values are right.
+                                            </p>
+                                            <table className={styles.previewTable}>
+                                                <thead>
+                                                    <tr>
+                                                        <th>Date</th>
+                                                        <th>Action</th>
+                                                        <th>Symbol</th>
+                                                        <th>Uploaded Qty / Amount</th>
+                                                        <th>Saved Qty / Amount</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {importSummary.conflictRows.map((conflict, index) => (
+                                                        <tr key={index}>
+                                                            <td>{conflict.incoming.date.slice(0, 10)}</td>
+                                                            <td>{conflict.incoming.action}</td>
+                                                            <td style={{ fontWeight: 600, fontFamily: 'var(--font-mono)' }}>{conflict.incoming.symbol}</td>
+                                                            <td>{conflict.incoming.quantity} / {formatCurrency(conflict.incoming.amount)}</td>
+                                                            <td style={{ color: 'var(--color-text-secondary)' }}>
+                                                                {conflict.existing.map((t) => `${t.quantity} / ${formatCurrency(t.amount)}`).join(", ")}
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+
                             <div className={styles.actionButtons}>
                                 <button className={styles.btnClear} onClick={() => {
                                     setPositionsFile(null);
                                     setTransactionsFile(null);
                                     setParsedData(null);
+                                    setImportSummary(null);
+                                    setPositionChecks([]);
+                                    setFileReads(noFiles());
+                                    confirmedMappingsRef.current = noFiles();
                                     setSuccess("");
                                 }}>
                                     Clear All
                                 </button>
-                                <button className={styles.btnSave} onClick={handleSave}>
+                                <button className={styles.btnSave} onClick={handleSave} disabled={parsedData.holdings.length === 0}>
                                     Save & Apply to Dashboard
                                 </button>
                             </div>
@@ -562,12 +1024,13 @@ export default function UploadPage() {
 
                     {/* Instructions */}
                     <div className={styles.instructions}>
-                        <h3 className={styles.instructionsTitle}>📘 How to Export from Schwab</h3>
+                        <h3 className={styles.instructionsTitle}>📘 How to Export from Your Broker</h3>
                         <ol className={styles.instructionsList}>
-                            <li>Log in to your Schwab account at schwab.com</li>
-                            <li><strong>For Positions:</strong> Go to <strong>Accounts</strong> → <strong>Positions</strong> → Click <strong>Export</strong> → Select <strong>CSV</strong></li>
-                            <li><strong>For Transactions:</strong> Go to <strong>Accounts</strong> → <strong>History</strong> → Click <strong>Export</strong> → Select <strong>JSON</strong></li>
-                            <li>Upload the downloaded files above</li>
+                            <li><strong>Schwab:</strong> <strong>Accounts</strong> → <strong>Positions</strong> → <strong>Export</strong> (CSV) for positions; <strong>Accounts</strong> → <strong>History</strong> → <strong>Export</strong> (JSON) for transactions</li>
+                            <li><strong>Fidelity:</strong> <strong>Positions</strong> → <strong>Download</strong> for positions; <strong>Activity &amp; Orders</strong> → <strong>Download</strong> for transactions</li>
+                            <li><strong>Vanguard:</strong> <strong>Download center</strong> → CSV; upload the same file for both positions and transactions</li>
+                            <li><strong>Any broker with Quicken or Money downloads:</strong> upload the OFX/QFX file for both positions and transactions</li>
+                            <li>Upload the downloaded files above; the broker is detected automatically</li>
                         </ol>
                     </div>
                     </>
@@ -1,23 +1,17 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import { useSession, signOut } from "next-auth/react";
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
 import dashStyles from "../../dashboard.module.css";
 import styles from "./stock.module.css";
-import { Holding } from "@/lib/types";
-
-interface LiveQuote {
-    currentPrice: number;
-    change: number;
-    changePercent: number;
-    high: number;
-    low: number;
-    open: number;
-    previousClose: number;
-}
+import { Holding, ReturnMetrics, SymbolLots, CostBasisMethod, TaxLot } from "@/lib/types";
+import { useLivePrices } from "@/hooks/useLivePrices";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { quoteLabel } from "@/lib/trading-calendar";
+import ResearchReports from "@/components/ResearchReports";
 
 interface CandlePoint {
     date: string;
@@ -51,6 +45,17 @@ interface StockDetailsData {
 
 const RANGES = ["5D", "1W", "1M", "3M", "6M", "1Y"] as const;
 
+const METHOD_LABELS: Record<CostBasisMethod, string> = {
+    FIFO: "First in, first out",
+    LIFO: "Last in, first out",
+    HIFO: "Highest cost first",
+    SPECIFIC_ID: "Specific lots",
+};
+
+// Choices for a specific-ID sale are keyed by the lot's buy, "opening" for
+// shares held before the history starts
+const lotKey = (lot: TaxLot) => lot.acquiredTransactionId ?? "opening";
+
 export default function StockDetailPage() {
     const params = useParams();
     const symbol = (params.symbol as string)?.toUpperCase() || "";
@@ -58,12 +63,16 @@ export default function StockDetailPage() {
     const user = session?.user;
 
     const [holding, setHolding] = useState<Holding | null>(null);
-    const [quote, setQuote] = useState<LiveQuote | null>(null);
+    const [returns, setReturns] = useState<ReturnMetrics | null>(null);
     const [details, setDetails] = useState<StockDetailsData | null>(null);
     const [candles, setCandles] = useState<CandlePoint[]>([]);
     const [range, setRange] = useState<string>("1M");
-    const [loading, setLoading] = useState(true);
     const [chartLoading, setChartLoading] = useState(false);
+    const [taxLots, setTaxLots] = useState<SymbolLots | null>(null);
+    const [choosingSaleId, setChoosingSaleId] = useState<string | null>(null);
+    const [lotChoices, setLotChoices] = useState<Record<string, string>>({});
+    const [lotsError, setLotsError] = useState("");
+    const [watchlistMessage, setWatchlistMessage] = useState("");
 
     // Fetch holding data from portfolio
     useEffect(() => {
@@ -84,39 +93,101 @@ export default function StockDetailPage() {
         if (symbol) fetchHolding();
     }, [symbol]);
 
-    // Fetch live quote
+    // Fetch time-weighted and money-weighted returns on the position
     useEffect(() => {
-        const fetchQuote = async () => {
+        const fetchReturns = async () => {
             try {
-                const res = await fetch("/api/stock-prices", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ symbols: [symbol] }),
-                });
+                const res = await fetch(`/api/returns?symbol=${symbol}`);
                 if (res.ok) {
                     const data = await res.json();
-                    const q = data.quotes?.[symbol];
-                    if (q) {
-                        setQuote({
-                            currentPrice: q.currentPrice,
-                            change: q.change,
-                            changePercent: q.changePercent,
-                            high: q.high,
-                            low: q.low,
-                            open: q.open,
-                            previousClose: q.previousClose,
-                        });
-                    }
+                    setReturns(data.returns);
                 }
             } catch (err) {
-                console.error("Failed to fetch quote:", err);
-            } finally {
-                setLoading(false);
+                console.error("Failed to fetch returns:", err);
             }
         };
-        if (symbol) fetchQuote();
+        if (symbol) fetchReturns();
     }, [symbol]);
 
+    // Fetch tax lots and realized sales
+    const fetchLots = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/lots?symbol=${symbol}`);
+            if (res.ok) {
+                setTaxLots(await res.json());
+            }
+        } catch (err) {
+            console.error("Failed to fetch tax lots:", err);
+        }
+    }, [symbol]);
+
+    useEffect(() => {
+        if (symbol) fetchLots();
+    }, [symbol, fetchLots]);
+
+    const handleMethodChange = async (method: CostBasisMethod) => {
+        setLotsError("");
+        try {
+            const res = await fetch("/api/admin/lots", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ method }),
+            });
+            if (res.ok) {
+                fetchLots();
+            } else {
+                const data = await res.json();
+                setLotsError(data.error || "Failed to change cost basis method");
+            }
+        } catch {
+            setLotsError("Failed to change cost basis method");
+        }
+    };
+
+    const startChoosingLots = (sellTransactionId: string) => {
+        const current: Record<string, string> = {};
+        for (const sale of taxLots?.sales ?? []) {
+            if (sale.sellTransactionId !== sellTransactionId) continue;
+            const lot = taxLots?.lots.find((l) => l.id === sale.lotId);
+            if (lot) current[lotKey(lot)] = String(sale.quantity);
+        }
+        setLotChoices(current);
+        setChoosingSaleId(sellTransactionId);
+        setLotsError("");
+    };
+
+    const handleSaveLotChoice = async () => {
+        if (!choosingSaleId) return;
+        const choices = Object.entries(lotChoices)
+            .filter(([, quantity]) => Number(quantity) > 0)
+            .map(([key, quantity]) => ({
+                acquiredTransactionId: key === "opening" ? null : key,
+                quantity: Number(quantity),
+            }));
+
+        try {
+            const res = await fetch(`/api/admin/lots/sales/${choosingSaleId}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ choices }),
+            });
+            if (res.ok) {
+                setChoosingSaleId(null);
+                fetchLots();
+            } else {
+                const data = await res.json();
+                setLotsError(data.error || "Failed to save lot choice");
+            }
+        } catch {
+            setLotsError("Failed to save lot choice");
+        }
+    };
+
+    // Live quote
+    const { quotes, loading } = useLivePrices([symbol]);
+    const market = useMarketStatus();
+    const quote = quotes[symbol] ?? null;
+
     // Fetch stock details
     useEffect(() => {
         const fetchDetails = async () => {
@@ -158,6 +229,21 @@ export default function StockDetailPage() {
         if (symbol) fetchCandles(range);
     }, [symbol, range, fetchCandles]);
 
+    const handleWatch = async () => {
+        try {
+            const res = await fetch("/api/watchlists", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ symbol, scope: "personal" }),
+            });
+            const data = await res.json();
+            setWatchlistMessage(res.ok ? "Added to your watchlist" : data.error || "Failed to add to watchlist");
+        } catch (error) {
+            console.error("Failed to add to watchlist:", error);
+            setWatchlistMessage("Failed to add to watchlist");
+        }
+    };
+
     const handleSignOut = async () => {
         await signOut({ callbackUrl: "/" });
     };
@@ -168,6 +254,18 @@ export default function StockDetailPage() {
     const formatCurrency = (val: number) =>
         val.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 });
 
+    const formatReturn = (val: number) => `${val >= 0 ? "+" : ""}${(val * 100).toFixed(2)}%`;
+
+    const formatDate = (val: string) =>
+        new Date(val).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+    const formatHoldingPeriod = (from: string, to: string) => {
+        const days = Math.max(Math.floor((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)), 0);
+        if (days < 60) return `${days}d`;
+        const months = Math.floor(days / 30.44);
+        return months < 24 ? `${months}mo` : `${(days / 365.25).toFixed(1)}y`;
+    };
+
     const formatLargeNumber = (val: number) => {
         if (val >= 1e12) return `$${(val / 1e12).toFixed(2)}T`;
         if (val >= 1e9) return `$${(val / 1e9).toFixed(2)}B`;
@@ -197,6 +295,11 @@ export default function StockDetailPage() {
 
     const companyName = details?.longName ?? holding?.name;
 
+    const openLots = taxLots?.lots.filter((l) => l.remainingQuantity > 1e-6) ?? [];
+    const lotSales = taxLots?.sales ?? [];
+    const realizedGain = lotSales.reduce((sum, s) => sum + s.gain, 0);
+    const canChooseLots = user?.role === "ADMIN" && taxLots?.method === "SPECIFIC_ID";
+
     // Recommendation bar
     const rec = details?.recommendations;
     const totalRec = rec ? rec.strongBuy + rec.buy + rec.hold + rec.sell + rec.strongSell : 0;
@@ -277,6 +380,7 @@ export default function StockDetailPage() {
                                     <span className={`${styles.priceChange} ${isPositive ? styles.positive : styles.negative}`}>
                                         {isPositive ? "+" : ""}{change.toFixed(2)} ({isPositive ? "+" : ""}{changePercent.toFixed(2)}%)
                                     </span>
+                                    {quote && <span className={styles.quoteLabel}>{quoteLabel(market.session)}</span>}
                                 </div>
                             </div>
 
@@ -315,6 +419,12 @@ export default function StockDetailPage() {
                                 >
                                     Google Finance
                                 </a>
+                                <button className={styles.researchBtn} onClick={handleWatch} style={{ cursor: 'pointer' }}>
+                                    ☆ Watch
+                                </button>
+                                {watchlistMessage && (
+                                    <Link href="/watchlist" className={styles.researchLabel}>{watchlistMessage}</Link>
+                                )}
                             </div>
 
                             {/* Chart */}
@@ -504,10 +614,204 @@ export default function StockDetailPage() {
                                                 {returnPct >= 0 ? "+" : ""}{returnPct.toFixed(2)}%
                                             </span>
                                         </div>
+                                        {returns?.twr != null && (
+                                            <div className={styles.detailRow}>
+                                                <span className={styles.detailLabel}>Time-Weighted Return</span>
+                                                <span className={`${styles.detailValue} ${returns.twr >= 0 ? styles.positive : styles.negative}`}>
+                                                    {formatReturn(returns.twr)}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {returns?.twrAnnualized != null && (
+                                            <div className={styles.detailRow}>
+                                                <span className={styles.detailLabel}>Annualized TWR</span>
+                                                <span className={`${styles.detailValue} ${returns.twrAnnualized >= 0 ? styles.positive : styles.negative}`}>
+                                                    {formatReturn(returns.twrAnnualized)}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {returns?.xirr != null && (
+                                            <div className={styles.detailRow}>
+                                                <span className={styles.detailLabel}>IRR (annualized)</span>
+                                                <span className={`${styles.detailValue} ${returns.xirr >= 0 ? styles.positive : styles.negative}`}>
+                                                    {formatReturn(returns.xirr)}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {returns?.startDate && (
+                                            <div className={styles.detailRow}>
+                                                <span className={styles.detailLabel}>Measured Since</span>
+                                                <span className={styles.detailValue}>
+                                                    {new Date(returns.startDate).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })}
+                                                </span>
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
 
+                            {/* Tax Lots */}
+                            {taxLots && (openLots.length > 0 || lotSales.length > 0) && (
+                                <div className={styles.detailCard} style={{ marginBottom: "var(--space-xl)" }}>
+                                    <div className={styles.lotsHeader}>
+                                        <h3 className={styles.detailCardTitle}>Tax Lots</h3>
+                                        {user?.role === "ADMIN" ? (
+                                            <select
+                                                value={taxLots.method}
+                                                onChange={(e) => handleMethodChange(e.target.value as CostBasisMethod)}
+                                                className={styles.methodSelect}
+                                                title="How sales are matched to lots (applies to the whole club)"
+                                            >
+                                                {(Object.keys(METHOD_LABELS) as CostBasisMethod[]).map((m) => (
+                                                    <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <span className={styles.lotsNote}>{METHOD_LABELS[taxLots.method]}</span>
+                                        )}
+                                    </div>
+                                    {lotsError && <p className={styles.negative} style={{ marginBottom: "var(--space-sm)" }}>{lotsError}</p>}
+
+                                    {openLots.length > 0 && (
+                                        <div className={styles.lotsTableWrap}>
+                                            <table className={styles.lotsTable}>
+                                                <thead>
+                                                    <tr>
+                                                        <th>Acquired</th>
+                                                        <th>Shares</th>
+                                                        <th>Cost/Share</th>
+                                                        <th>Cost Basis</th>
+                                                        <th>Value</th>
+                                                        <th>Gain/Loss</th>
+                                                        <th>Held</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {openLots.map((lot) => {
+                                                        const cost = lot.remainingQuantity * lot.costPerShare;
+                                                        const value = lot.remainingQuantity * price;
+                                                        return (
+                                                            <tr key={lot.id}>
+                                                                <td>
+                                                                    {lot.acquiredTransactionId ? formatDate(lot.acquiredDate) : `Before ${formatDate(lot.acquiredDate)}`}
+                                                                </td>
+                                                                <td>{lot.remainingQuantity.toFixed(2)}</td>
+                                                                <td>{formatCurrency(lot.costPerShare)}</td>
+                                                                <td>{formatCurrency(cost)}</td>
+                                                                <td>{formatCurrency(value)}</td>
+                                                                <td className={value - cost >= 0 ? styles.positive : styles.negative}>
+                                                                    {value - cost >= 0 ? "+" : ""}{formatCurrency(value - cost)}
+                                                                </td>
+                                                                <td>
+                                                                    {lot.acquiredTransactionId ? formatHoldingPeriod(lot.acquiredDate, new Date().toISOString()) : "—"}
+                                                                    {" · "}{lot.longTerm ? "Long" : "Short"}
+                                                                </td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )}
+
+                                    {lotSales.length > 0 && (
+                                        <>
+                                            <h4 className={styles.lotsSubtitle}>
+                                                Realized Sales{" "}
+                                                <span className={realizedGain >= 0 ? styles.positive : styles.negative}>
+                                                    ({realizedGain >= 0 ? "+" : ""}{formatCurrency(realizedGain)})
+                                                </span>
+                                            </h4>
+                                            <div className={styles.lotsTableWrap}>
+                                                <table className={styles.lotsTable}>
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Sold</th>
+                                                            <th>Acquired</th>
+                                                            <th>Shares</th>
+                                                            <th>Proceeds</th>
+                                                            <th>Cost Basis</th>
+                                                            <th>Gain/Loss</th>
+                                                            <th>Term</th>
+                                                            {canChooseLots && <th></th>}
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {lotSales.map((sale, index) => {
+                                                            const firstOfSale = index === 0 || lotSales[index - 1].sellTransactionId !== sale.sellTransactionId;
+                                                            const lastOfSale = index === lotSales.length - 1 || lotSales[index + 1].sellTransactionId !== sale.sellTransactionId;
+                                                            const candidates = taxLots.lots.filter((l) => l.acquiredDate <= sale.soldDate);
+                                                            return (
+                                                                <Fragment key={sale.id}>
+                                                                    <tr>
+                                                                        <td>{firstOfSale ? formatDate(sale.soldDate) : ""}</td>
+                                                                        <td>{formatDate(sale.acquiredDate)}</td>
+                                                                        <td>{sale.quantity.toFixed(2)}</td>
+                                                                        <td>{formatCurrency(sale.proceeds)}</td>
+                                                                        <td>{formatCurrency(sale.costBasis)}</td>
+                                                                        <td className={sale.gain >= 0 ? styles.positive : styles.negative}>
+                                                                            {sale.gain >= 0 ? "+" : ""}{formatCurrency(sale.gain)}
+                                                                        </td>
+                                                                        <td>{sale.longTerm ? "Long" : "Short"}</td>
+                                                                        {canChooseLots && (
+                                                                            <td>
+                                                                                {firstOfSale && (
+                                                                                    <button
+                                                                                        className={styles.lotButton}
+                                                                                        onClick={() => choosingSaleId === sale.sellTransactionId
+                                                                                            ? setChoosingSaleId(null)
+                                                                                            : startChoosingLots(sale.sellTransactionId)}
+                                                                                    >
+                                                                                        {choosingSaleId === sale.sellTransactionId ? "Cancel" : "Choose lots"}
+                                                                                    </button>
+                                                                                )}
+                                                                            </td>
+                                                                        )}
+                                                                    </tr>
+                                                                    {lastOfSale && choosingSaleId === sale.sellTransactionId && (
+                                                                        <tr>
+                                                                            <td colSpan={8}>
+                                                                                {candidates.map((lot) => (
+                                                                                    <div key={lot.id} className={styles.detailRow}>
+                                                                                        <span className={styles.detailLabel}>
+                                                                                            {lot.acquiredTransactionId ? formatDate(lot.acquiredDate) : "Opening position"}
+                                                                                            {" · "}{lot.quantity.toFixed(2)} @ {formatCurrency(lot.costPerShare)}
+                                                                                        </span>
+                                                                                        <input
+                                                                                            type="number"
+                                                                                            step="any"
+                                                                                            min="0"
+                                                                                            value={lotChoices[lotKey(lot)] ?? ""}
+                                                                                            onChange={(e) => setLotChoices({ ...lotChoices, [lotKey(lot)]: e.target.value })}
+                                                                                            className={styles.lotInput}
+                                                                                        />
+                                                                                    </div>
+                                                                                ))}
+                                                                                <div className={styles.detailRow}>
+                                                                                    <span className={styles.lotsNote}>
+                                                                                        Shares not assigned to a lot are matched first in, first out.
+                                                                                    </span>
+                                                                                    <button className={styles.lotButton} onClick={handleSaveLotChoice}>
+                                                                                        Save
+                                                                                    </button>
+                                                                                </div>
+                                                                            </td>
+                                                                        </tr>
+                                                                    )}
+                                                                </Fragment>
+                                                            );
+                                                        })}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Research Reports */}
+                            <ResearchReports symbol={symbol} currentPrice={quote?.currentPrice ?? null} />
+
                             {/* Analyst Recommendations */}
                             {rec && totalRec > 0 && (
                                 <div className={styles.detailCard} style={{ marginBottom: "var(--space-xl)" }}>
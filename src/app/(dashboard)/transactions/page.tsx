@@ -242,6 +242,8 @@ export default function TransactionsPage() {
                                 <option value="DIVIDEND">Dividend</option>
                                 <option value="DEPOSIT">Deposit</option>
                                 <option value="WITHDRAWAL">Withdrawal</option>
+                                <option value="SPLIT">Split</option>
+                                <option value="SYMBOL_CHANGE">Symbol Change</option>
                                 <option value="OTHER">Other</option>
                             </select>
                             <input
@@ -0,0 +1,421 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useSession, signOut } from "next-auth/react";
+import dashStyles from "../dashboard.module.css";
+import styles from "./watchlist.module.css";
+import { WatchlistItem, WatchlistScope } from "@/lib/types";
+import type { StockQuote } from "@/lib/market-data-provider";
+import { useLivePrices } from "@/hooks/useLivePrices";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import { marketSummary, quoteLabel } from "@/lib/trading-calendar";
+
+const SCOPE_LABELS: Record<WatchlistScope, string> = { personal: "My Watchlist", club: "Club Watchlist" };
+
+interface EditState {
+    id: string;
+    targetPrice: string;
+    notes: string;
+}
+
+export default function WatchlistPage() {
+    const { data: session } = useSession();
+    const user = session?.user;
+    const isAdmin = user?.role === "ADMIN";
+
+    const [watchlists, setWatchlists] = useState<Record<WatchlistScope, WatchlistItem[]>>({ personal: [], club: [] });
+    const [initialQuotes, setInitialQuotes] = useState<Record<string, StockQuote>>({});
+    const [scope, setScope] = useState<WatchlistScope>("personal");
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [symbol, setSymbol] = useState("");
+    const [targetPrice, setTargetPrice] = useState("");
+    const [notes, setNotes] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState("");
+    const [editing, setEditing] = useState<EditState | null>(null);
+
+    const symbols = [...watchlists.personal, ...watchlists.club].map((item) => item.symbol);
+    const { quotes: livePrices } = useLivePrices(symbols);
+    const market = useMarketStatus();
+
+    useEffect(() => {
+        const loadWatchlists = async () => {
+            try {
+                const response = await fetch("/api/watchlists");
+                if (response.ok) {
+                    const data = await response.json();
+                    setWatchlists({ personal: data.personal, club: data.club });
+                    setInitialQuotes(data.quotes);
+                }
+            } catch (error) {
+                console.error("Failed to load watchlists:", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadWatchlists();
+    }, []);
+
+    const getInitials = (name: string) => {
+        return name.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2);
+    };
+
+    const handleSignOut = async () => {
+        await signOut({ callbackUrl: "/" });
+    };
+
+    const formatCurrency = (value: number) => {
+        return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value);
+    };
+
+    const formatDate = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+    };
+
+    // Members change their own list and what they added to the club's; admins
+    // can change anything on the club's
+    const canEdit = (item: WatchlistItem) => item.scope === "personal" || isAdmin || item.addedById === user?.id;
+
+    const replaceItem = (item: WatchlistItem) => {
+        setWatchlists((current) => ({
+            ...current,
+            [item.scope]: current[item.scope].map((i) => (i.id === item.id ? item : i)),
+        }));
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setIsSaving(true);
+
+        try {
+            const response = await fetch("/api/watchlists", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ symbol, scope, targetPrice, notes }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || "Failed to add to watchlist");
+                return;
+            }
+
+            const item: WatchlistItem = data.item;
+            setWatchlists((current) => ({ ...current, [item.scope]: [...current[item.scope], item] }));
+            setSymbol("");
+            setTargetPrice("");
+            setNotes("");
+        } catch (error) {
+            console.error("Failed to add to watchlist:", error);
+            setError("Failed to add to watchlist");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setError("");
+
+        try {
+            const response = await fetch(`/api/watchlists/${editing.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ targetPrice: editing.targetPrice, notes: editing.notes }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || "Failed to update watchlist item");
+                return;
+            }
+
+            replaceItem(data.item);
+            setEditing(null);
+        } catch (error) {
+            console.error("Failed to update watchlist item:", error);
+            setError("Failed to update watchlist item");
+        }
+    };
+
+    const handleRemove = async (item: WatchlistItem) => {
+        if (!confirm(`Remove ${item.symbol} from ${item.scope === "personal" ? "your" : "the club"} watchlist?`)) return;
+        setError("");
+
+        try {
+            const response = await fetch(`/api/watchlists/${item.id}`, { method: "DELETE" });
+
+            if (!response.ok) {
+                const data = await response.json();
+                setError(data.error || "Failed to remove from watchlist");
+                return;
+            }
+
+            setWatchlists((current) => ({
+                ...current,
+                [item.scope]: current[item.scope].filter((i) => i.id !== item.id),
+            }));
+        } catch (error) {
+            console.error("Failed to remove from watchlist:", error);
+            setError("Failed to remove from watchlist");
+        }
+    };
+
+    const items = watchlists[scope];
+
+    if (isLoading) {
+        return (
+            <div className={dashStyles.dashboardLayout}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', width: '100%' }}>
+                    <p style={{ color: 'var(--color-text-muted)' }}>Loading watchlists...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={dashStyles.dashboardLayout}>
+            {/* Sidebar */}
+            <aside className={dashStyles.sidebar}>
+                <div className={dashStyles.sidebarHeader}>
+                    <Link href="/dashboard" className={dashStyles.sidebarLogo}>
+                        <div className={dashStyles.sidebarLogoIcon}>💵</div>
+                        <span className={dashStyles.sidebarLogoText}>DFDII</span>
+                    </Link>
+                </div>
+
+                <nav className={dashStyles.sidebarNav}>
+                    <Link href="/dashboard" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📊</span>
+                        Dashboard
+                    </Link>
+                    <Link href="/dfdii-holdings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>📈</span>
+                        DFDII Holdings
+                    </Link>
+                    <Link href="/dividends" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>💰</span>
+                        Dividends
+                    </Link>
+                    <Link href="/watchlist" className={`${dashStyles.navItem} ${dashStyles.navItemActive}`}>
+                        <span className={dashStyles.navIcon}>👀</span>
+                        Watchlist
+                    </Link>
+                    <Link href="/capital-account" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>🏦</span>
+                        Capital Account
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/members" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>👥</span>
+                            Members
+                        </Link>
+                    )}
+                    <Link href="/settings" className={dashStyles.navItem}>
+                        <span className={dashStyles.navIcon}>⚙️</span>
+                        Settings
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/admin/users" className={dashStyles.navItem}>
+                            <span className={dashStyles.navIcon}>🔐</span>
+                            Admin Panel
+                        </Link>
+                    )}
+                </nav>
+
+                <div className={dashStyles.sidebarFooter}>
+                    <div className={dashStyles.userInfo} onClick={handleSignOut} title="Click to sign out">
+                        <div className={dashStyles.userAvatar}>
+                            {user?.name ? getInitials(user.name) : "U"}
+                        </div>
+                        <div className={dashStyles.userDetails}>
+                            <div className={dashStyles.userName}>{user?.name || "User"}</div>
+                            <div className={dashStyles.userRole}>{user?.role || "Member"}</div>
+                        </div>
+                    </div>
+                </div>
+            </aside>
+
+            {/* Main Content */}
+            <main className={dashStyles.mainContent}>
+                <header className={dashStyles.header}>
+                    <div className={dashStyles.headerContent}>
+                        <div>
+                            <h1 className={dashStyles.pageTitle}>Watchlist</h1>
+                            <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
+                                {marketSummary(market)} • Prices {quoteLabel(market.session).toLowerCase()}
+                            </p>
+                        </div>
+                    </div>
+                </header>
+
+                <div className={styles.watchlistPage}>
+                    <div className={styles.scopeTabs}>
+                        {(["personal", "club"] as WatchlistScope[]).map((s) => (
+                            <button
+                                key={s}
+                                className={`${styles.scopeTab} ${s === scope ? styles.scopeTabActive : ""}`}
+                                onClick={() => {
+                                    setScope(s);
+                                    setEditing(null);
+                                }}
+                            >
+                                {SCOPE_LABELS[s]} ({watchlists[s].length})
+                            </button>
+                        ))}
+                    </div>
+
+                    <p className={styles.sectionNote}>
+                        {scope === "personal"
+                            ? "Only you see your watchlist."
+                            : "Candidates the club is researching. Every member sees this list and can add to it."}
+                    </p>
+
+                    {/* Add a stock */}
+                    <form className={styles.addForm} onSubmit={handleAdd}>
+                        <input
+                            className="input"
+                            placeholder="Symbol"
+                            value={symbol}
+                            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                            style={{ maxWidth: '120px' }}
+                            required
+                        />
+                        <input
+                            className="input"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="Target price"
+                            value={targetPrice}
+                            onChange={(e) => setTargetPrice(e.target.value)}
+                            style={{ maxWidth: '150px' }}
+                        />
+                        <input
+                            className="input"
+                            placeholder="Notes"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                        />
+                        <button type="submit" className="btn btn-primary" disabled={isSaving || !symbol.trim()}>
+                            {isSaving ? "Adding..." : `Add to ${SCOPE_LABELS[scope]}`}
+                        </button>
+                    </form>
+
+                    {error && <div className={styles.errorMessage}>{error}</div>}
+
+                    <div className={styles.tableCard}>
+                        {items.length === 0 ? (
+                            <div className={styles.emptyState}>
+                                Nothing on this watchlist yet. Add a symbol above, or find one with the search on the dashboard.
+                            </div>
+                        ) : (
+                            <div className={styles.tableContainer}>
+                                <table className={styles.table}>
+                                    <thead>
+                                        <tr>
+                                            <th>Symbol</th>
+                                            <th className={styles.numeric}>Price</th>
+                                            <th className={styles.numeric}>Change</th>
+                                            <th className={styles.numeric}>Target</th>
+                                            <th className={styles.numeric}>vs. Target</th>
+                                            <th>Notes</th>
+                                            <th>Added By</th>
+                                            <th></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {items.map((item) => {
+                                            const quote = livePrices[item.symbol] ?? initialQuotes[item.symbol];
+                                            const isEditing = editing?.id === item.id;
+                                            const toTarget = quote && item.targetPrice
+                                                ? ((quote.currentPrice - item.targetPrice) / item.targetPrice) * 100
+                                                : null;
+
+                                            return (
+                                                <tr key={item.id}>
+                                                    <td>
+                                                        <Link href={`/stock/${item.symbol}`}>
+                                                            <strong>{item.symbol}</strong>
+                                                        </Link>
+                                                    </td>
+                                                    <td className={styles.numeric}>{quote ? formatCurrency(quote.currentPrice) : "--"}</td>
+                                                    <td className={`${styles.numeric} ${quote ? (quote.change >= 0 ? styles.positive : styles.negative) : ""}`}>
+                                                        {quote
+                                                            ? `${quote.change >= 0 ? "+" : ""}${quote.changePercent.toFixed(2)}%`
+                                                            : "--"}
+                                                    </td>
+                                                    <td className={styles.numeric}>
+                                                        {isEditing ? (
+                                                            <input
+                                                                className={`input ${styles.inlineInput}`}
+                                                                type="number"
+                                                                step="0.01"
+                                                                min="0"
+                                                                value={editing.targetPrice}
+                                                                onChange={(e) => setEditing({ ...editing, targetPrice: e.target.value })}
+                                                            />
+                                                        ) : item.targetPrice != null ? formatCurrency(item.targetPrice) : "—"}
+                                                    </td>
+                                                    <td className={styles.numeric}>
+                                                        {toTarget == null ? "—" : toTarget <= 0 ? (
+                                                            <span className={styles.atTargetBadge}>At target</span>
+                                                        ) : `${toTarget.toFixed(1)}% above`}
+                                                    </td>
+                                                    <td className={styles.notes}>
+                                                        {isEditing ? (
+                                                            <input
+                                                                className={`input ${styles.inlineInput}`}
+                                                                value={editing.notes}
+                                                                onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                                                            />
+                                                        ) : item.notes || "—"}
+                                                    </td>
+                                                    <td>
+                                                        {item.addedBy ?? "Former member"}
+                                                        <div className={styles.addedDate}>{formatDate(item.createdAt)}</div>
+                                                    </td>
+                                                    <td className={styles.actions}>
+                                                        {isEditing ? (
+                                                            <>
+                                                                <button className={styles.actionBtn} onClick={handleSave}>Save</button>
+                                                                <button className={styles.actionBtn} onClick={() => setEditing(null)}>Cancel</button>
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <Link href={`/stock/${item.symbol}`} className={styles.actionBtn}>View</Link>
+                                                                {canEdit(item) && (
+                                                                    <>
+                                                                        <button
+                                                                            className={styles.actionBtn}
+                                                                            onClick={() => setEditing({
+                                                                                id: item.id,
+                                                                                targetPrice: item.targetPrice?.toString() ?? "",
+                                                                                notes: item.notes ?? "",
+                                                                            })}
+                                                                        >
+                                                                            Edit
+                                                                        </button>
+                                                                        <button className={styles.actionBtn} onClick={() => handleRemove(item)}>Remove</button>
+                                                                    </>
+                                                                )}
+                                                            </>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+}
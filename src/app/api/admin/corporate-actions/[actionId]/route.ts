@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteCorporateAction } from "@/lib/corporate-actions";
+import { rebuildLots } from "@/lib/tax-lots";
+
+// DELETE remove a corporate action and rebuild the lots (admin only)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ actionId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { actionId } = await params;
+        const deleted = await deleteCorporateAction(actionId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: "Corporate action not found" }, { status: 404 });
+        }
+
+        await rebuildLots();
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete corporate action:", error);
+        return NextResponse.json({ error: "Failed to delete corporate action" }, { status: 500 });
+    }
+}
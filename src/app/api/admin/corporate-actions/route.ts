@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadCorporateActions, findUnrecordedActions, createCorporateAction, CorporateActionError } from "@/lib/corporate-actions";
+import { rebuildLots } from "@/lib/tax-lots";
+
+// GET corporate actions, and imported split and ticker change rows not yet recorded (admin only)
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const [actions, suggestions] = await Promise.all([loadCorporateActions(), findUnrecordedActions()]);
+
+        return NextResponse.json({ actions, suggestions });
+    } catch (error) {
+        console.error("Failed to load corporate actions:", error);
+        return NextResponse.json({ error: "Failed to load corporate actions" }, { status: 500 });
+    }
+}
+
+// POST record a split, spin-off or ticker change and rebuild the lots (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { type, date, symbol, newSymbol, ratio, costAllocation, note } = await request.json();
+
+        // Validate input
+        if (!type || !date || !symbol) {
+            return NextResponse.json({ error: "Type, date and symbol are required" }, { status: 400 });
+        }
+
+        const action = await createCorporateAction({ type, date, symbol, newSymbol, ratio, costAllocation, note });
+        await rebuildLots();
+
+        return NextResponse.json({ action });
+    } catch (error) {
+        if (error instanceof CorporateActionError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to record corporate action:", error);
+        return NextResponse.json({ error: "Failed to record corporate action" }, { status: 500 });
+    }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteImportTemplate } from "@/lib/import-templates";
+
+// DELETE remove a saved column mapping (admin only)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ templateId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { templateId } = await params;
+        const deleted = await deleteImportTemplate(templateId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: "Template not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete import template:", error);
+        return NextResponse.json({ error: "Failed to delete import template" }, { status: 500 });
+    }
+}
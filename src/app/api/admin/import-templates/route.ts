@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { listImportTemplates, saveImportTemplate, ImportTemplateError } from "@/lib/import-templates";
+
+// GET saved column mappings (admin only)
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const templates = await listImportTemplates();
+
+        return NextResponse.json({ templates });
+    } catch (error) {
+        console.error("Failed to load import templates:", error);
+        return NextResponse.json({ error: "Failed to load import templates" }, { status: 500 });
+    }
+}
+
+// POST save a column mapping as a named template (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { name, kind, mapping } = await request.json();
+
+        // Validate input
+        if (!name || !mapping || typeof mapping !== "object") {
+            return NextResponse.json({ error: "Name and mapping are required" }, { status: 400 });
+        }
+        if (kind !== "positions" && kind !== "transactions") {
+            return NextResponse.json({ error: "Kind must be positions or transactions" }, { status: 400 });
+        }
+
+        const template = await saveImportTemplate(name, kind, mapping, session.user.id);
+
+        return NextResponse.json({ template });
+    } catch (error) {
+        if (error instanceof ImportTemplateError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to save import template:", error);
+        return NextResponse.json({ error: "Failed to save import template" }, { status: 500 });
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadImportBatch, rollbackImportBatch } from "@/lib/import-batches";
+import { rebuildLots } from "@/lib/tax-lots";
+
+// GET an import batch with its rows (admin only)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ batchId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { batchId } = await params;
+        const batch = await loadImportBatch(batchId);
+
+        if (!batch) {
+            return NextResponse.json({ error: "Import not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ batch });
+    } catch (error) {
+        console.error("Failed to load import batch:", error);
+        return NextResponse.json({ error: "Failed to load import batch" }, { status: 500 });
+    }
+}
+
+// DELETE roll back an import batch (admin only)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ batchId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { batchId } = await params;
+        const rolledBack = await rollbackImportBatch(batchId);
+
+        if (!rolledBack) {
+            return NextResponse.json({ error: "Import not found" }, { status: 404 });
+        }
+
+        await rebuildLots();
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to roll back import:", error);
+        return NextResponse.json({ error: "Failed to roll back import" }, { status: 500 });
+    }
+}
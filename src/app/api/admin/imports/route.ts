@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { listImportBatches } from "@/lib/import-batches";
+
+// GET import history (admin only)
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const batches = await listImportBatches();
+
+        return NextResponse.json({ batches });
+    } catch (error) {
+        console.error("Failed to load import history:", error);
+        return NextResponse.json({ error: "Failed to load import history" }, { status: 500 });
+    }
+}
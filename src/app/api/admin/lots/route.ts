@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { setCostBasisMethod } from "@/lib/tax-lots";
+import { CostBasisMethod } from "@/lib/types";
+
+const METHODS: CostBasisMethod[] = ["FIFO", "LIFO", "HIFO", "SPECIFIC_ID"];
+
+// PUT change the cost basis method and rebuild the lots (admin only)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { method } = await request.json();
+
+        if (!METHODS.includes(method)) {
+            return NextResponse.json({ error: `Method must be one of ${METHODS.join(", ")}` }, { status: 400 });
+        }
+
+        await setCostBasisMethod(method);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to change cost basis method:", error);
+        return NextResponse.json({ error: "Failed to change cost basis method" }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { chooseLotsForSale, LotError } from "@/lib/tax-lots";
+
+// PUT choose the lots a sale draws from under specific identification (admin only)
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ transactionId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { transactionId } = await params;
+        const { choices } = await request.json();
+
+        if (!Array.isArray(choices)) {
+            return NextResponse.json({ error: "choices must be a list" }, { status: 400 });
+        }
+
+        await chooseLotsForSale(
+            transactionId,
+            choices.map((c: { acquiredTransactionId?: string | null; quantity: number | string }) => ({
+                acquiredTransactionId: c.acquiredTransactionId ?? null,
+                quantity: Number(c.quantity),
+            }))
+        );
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof LotError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to choose lots:", error);
+        return NextResponse.json({ error: "Failed to choose lots" }, { status: 500 });
+    }
+}
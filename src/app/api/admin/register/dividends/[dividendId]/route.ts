@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteDividend } from "@/lib/holdings-register";
+
+// DELETE remove a dividend entry (admin only)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ dividendId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { dividendId } = await params;
+        const deleted = await deleteDividend(dividendId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: "Dividend not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete dividend:", error);
+        return NextResponse.json({ error: "Failed to delete dividend" }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { recordDividend, RegisterError } from "@/lib/holdings-register";
+
+// POST record a dividend on a register holding (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { symbol, amount, paidDate, note } = await request.json();
+
+        // Validate input
+        if (!symbol || !paidDate) {
+            return NextResponse.json({ error: "Symbol and paid date are required" }, { status: 400 });
+        }
+
+        await recordDividend({ symbol, amount: Number(amount), paidDate, note });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof RegisterError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to record dividend:", error);
+        return NextResponse.json({ error: "Failed to record dividend" }, { status: 500 });
+    }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteLot, RegisterError, updateLot } from "@/lib/holdings-register";
+
+// PATCH edit a lot, e.g. its cost basis (admin only)
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ lotId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { lotId } = await params;
+        const { quantity, price, costBasis, purchaseDate } = await request.json();
+
+        const updated = await updateLot(lotId, {
+            quantity: quantity !== undefined ? Number(quantity) : undefined,
+            price: price !== undefined ? Number(price) : undefined,
+            costBasis: costBasis !== undefined ? Number(costBasis) : undefined,
+            purchaseDate,
+        });
+
+        if (!updated) {
+            return NextResponse.json({ error: "Lot not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof RegisterError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to update lot:", error);
+        return NextResponse.json({ error: "Failed to update lot" }, { status: 500 });
+    }
+}
+
+// DELETE remove a lot (admin only)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ lotId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { lotId } = await params;
+        const deleted = await deleteLot(lotId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: "Lot not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete lot:", error);
+        return NextResponse.json({ error: "Failed to delete lot" }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { addLot, RegisterError } from "@/lib/holdings-register";
+
+// POST add a purchase lot to the register (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { symbol, name, quantity, price, costBasis, purchaseDate } = await request.json();
+
+        // Validate input
+        if (!symbol || !purchaseDate) {
+            return NextResponse.json({ error: "Symbol and purchase date are required" }, { status: 400 });
+        }
+
+        await addLot({
+            symbol,
+            name,
+            quantity: Number(quantity),
+            price: Number(price),
+            costBasis: costBasis ? Number(costBasis) : undefined,
+            purchaseDate,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        if (error instanceof RegisterError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to add lot:", error);
+        return NextResponse.json({ error: "Failed to add lot" }, { status: 500 });
+    }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { RegisterError, seedRegisterFromSheet } from "@/lib/holdings-register";
+
+// POST fill an empty register from the holdings sheet (admin only)
+export async function POST() {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const count = await seedRegisterFromSheet();
+
+        return NextResponse.json({ success: true, count });
+    } catch (error) {
+        if (error instanceof RegisterError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to seed holdings register:", error);
+        return NextResponse.json({ error: "Failed to seed holdings register" }, { status: 500 });
+    }
+}
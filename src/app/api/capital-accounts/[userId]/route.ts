@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadMemberCapitalAccount } from "@/lib/unit-ledger";
+
+// GET a member's capital account and ledger (the member themselves or an admin)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { userId } = await params;
+
+        if (session.user.id !== userId && session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { valuation, account, entries } = await loadMemberCapitalAccount(userId);
+
+        if (!account) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ valuation, account, entries });
+    } catch (error) {
+        console.error("Failed to load capital account:", error);
+        return NextResponse.json({ error: "Failed to load capital account" }, { status: 500 });
+    }
+}
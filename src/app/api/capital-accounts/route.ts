@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadCapitalAccounts, recordUnitEntry, UnitLedgerError } from "@/lib/unit-ledger";
+
+// GET all member capital accounts (admin only)
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { valuation, accounts } = await loadCapitalAccounts();
+
+        return NextResponse.json({ valuation, accounts });
+    } catch (error) {
+        console.error("Failed to load capital accounts:", error);
+        return NextResponse.json({ error: "Failed to load capital accounts" }, { status: 500 });
+    }
+}
+
+// POST record a member deposit or withdrawal (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { userId, type, amount, date, unitValue, note } = await request.json();
+
+        // Validate input
+        if (!userId || !date || (type !== "DEPOSIT" && type !== "WITHDRAWAL")) {
+            return NextResponse.json({ error: "Member, type and date are required" }, { status: 400 });
+        }
+
+        const entry = await recordUnitEntry({
+            userId,
+            type,
+            amount: Number(amount),
+            date,
+            unitValue: unitValue ? Number(unitValue) : undefined,
+            note,
+        });
+
+        return NextResponse.json({ success: true, entry });
+    } catch (error) {
+        if (error instanceof UnitLedgerError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to record capital account entry:", error);
+        return NextResponse.json({ error: "Failed to record capital account entry" }, { status: 500 });
+    }
+}
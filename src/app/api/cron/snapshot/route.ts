@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { takePortfolioSnapshot } from "@/lib/snapshots";
+import { getMarketDate, marketHoliday } from "@/lib/trading-calendar";
+
+// GET take today's portfolio snapshot (called by the Vercel cron with CRON_SECRET)
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const snapshot = await takePortfolioSnapshot();
+
+        if (!snapshot) {
+            const holiday = marketHoliday(getMarketDate());
+            return NextResponse.json({ success: true, skipped: holiday ? `Market closed for ${holiday}` : "Market closed today" });
+        }
+
+        return NextResponse.json({
+            success: true,
+            date: snapshot.date,
+            totalValue: snapshot.totalValue,
+            holdings: snapshot.holdings.length,
+        });
+    } catch (error) {
+        console.error("Failed to take portfolio snapshot:", error);
+        return NextResponse.json({ error: "Failed to take portfolio snapshot" }, { status: 500 });
+    }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadDividends } from "@/lib/dividends";
+
+// GET dividend income by symbol and month, with yield on cost and current yield,
+// and the dividends expected on the current holdings
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { summary, calendar } = await loadDividends();
+
+        return NextResponse.json({ summary, calendar });
+    } catch (error) {
+        console.error("Failed to load dividends:", error);
+        return NextResponse.json({ error: "Failed to load dividends" }, { status: 500 });
+    }
+}
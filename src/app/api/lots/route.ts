@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadSymbolLots } from "@/lib/tax-lots";
+
+// GET tax lots and realized sales for one symbol (?symbol=)
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const symbol = searchParams.get("symbol");
+
+        if (!symbol) {
+            return NextResponse.json({ error: "symbol is required" }, { status: 400 });
+        }
+
+        const lots = await loadSymbolLots(symbol);
+
+        return NextResponse.json(lots);
+    } catch (error) {
+        console.error("Failed to load tax lots:", error);
+        return NextResponse.json({ error: "Failed to load tax lots" }, { status: 500 });
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadPerformanceSeries } from "@/lib/performance";
+import { addBenchmarks } from "@/lib/benchmarks";
+import { loadPortfolioData } from "@/lib/storage";
+import { PerformanceRange } from "@/lib/types";
+
+const RANGES: PerformanceRange[] = ["1M", "3M", "YTD", "1Y", "ALL"];
+const MAX_BENCHMARKS = 5;
+
+// GET daily portfolio value vs. contributed capital for a range,
+// optionally with benchmarks overlaid (?benchmarks=SPY,VTI)
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const range = (searchParams.get("range") || "1M").toUpperCase() as PerformanceRange;
+
+        if (!RANGES.includes(range)) {
+            return NextResponse.json({ error: `Range must be one of ${RANGES.join(", ")}` }, { status: 400 });
+        }
+
+        const benchmarks = [...new Set(
+            (searchParams.get("benchmarks") || "")
+                .split(",")
+                .map((s) => s.trim().toUpperCase())
+                .filter((s) => /^[A-Z0-9.^-]{1,10}$/.test(s))
+        )];
+
+        if (benchmarks.length > MAX_BENCHMARKS) {
+            return NextResponse.json({ error: `At most ${MAX_BENCHMARKS} benchmarks` }, { status: 400 });
+        }
+
+        const points = await loadPerformanceSeries(range);
+
+        if (benchmarks.length === 0) {
+            return NextResponse.json({ range, points, comparisons: [] });
+        }
+
+        const { transactions } = await loadPortfolioData();
+        const result = await addBenchmarks(points, transactions, benchmarks, range);
+
+        return NextResponse.json({ range, ...result });
+    } catch (error) {
+        console.error("Failed to build performance series:", error);
+        return NextResponse.json({ error: "Failed to load portfolio performance" }, { status: 500 });
+    }
+}
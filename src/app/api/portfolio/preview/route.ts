@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { previewTransactionImport } from "@/lib/storage";
+import { reconcileUpload } from "@/lib/reconciliation";
+
+// POST preview how uploaded transactions merge into the club history, and how
+// the uploaded positions compare with the merged history (admin only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { transactions, holdings = [] } = await request.json();
+
+        if (!Array.isArray(transactions) || !Array.isArray(holdings)) {
+            return NextResponse.json({ error: "transactions array is required" }, { status: 400 });
+        }
+
+        const [summary, positionChecks] = await Promise.all([
+            previewTransactionImport(transactions),
+            holdings.length > 0 ? reconcileUpload(holdings, transactions) : [],
+        ]);
+
+        return NextResponse.json({ summary, positionChecks });
+    } catch (error) {
+        console.error("Failed to preview import:", error);
+        return NextResponse.json({ error: "Failed to preview import" }, { status: 500 });
+    }
+}
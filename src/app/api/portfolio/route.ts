@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { loadPortfolioData } from "@/lib/storage";
+import { getLatestSnapshot } from "@/lib/snapshots";
 
-// GET portfolio data for current user
+// GET the club portfolio and its latest end-of-day snapshot
 export async function GET() {
     try {
         const session = await auth();
@@ -11,9 +12,9 @@ export async function GET() {
             return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
         }
 
-        const portfolioData = await loadPortfolioData(session.user.id);
+        const [portfolioData, snapshot] = await Promise.all([loadPortfolioData(), getLatestSnapshot()]);
 
-        return NextResponse.json({ portfolio: portfolioData });
+        return NextResponse.json({ portfolio: portfolioData, snapshot });
     } catch (error) {
         console.error("Failed to load portfolio:", error);
         return NextResponse.json({ error: "Failed to load portfolio data" }, { status: 500 });
@@ -1,21 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { savePortfolioData } from "@/lib/storage";
+import { rebuildLots } from "@/lib/tax-lots";
 
-// POST save portfolio data for current user
+// POST save the club portfolio (admin only)
 export async function POST(request: NextRequest) {
     try {
         const session = await auth();
 
-        if (!session?.user?.id) {
-            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
         }
 
-        const portfolioData = await request.json();
+        const { portfolio, source } = await request.json();
 
-        await savePortfolioData(session.user.id, portfolioData);
+        if (!portfolio || !Array.isArray(portfolio.holdings) || !Array.isArray(portfolio.transactions)) {
+            return NextResponse.json({ error: "portfolio data is required" }, { status: 400 });
+        }
+
+        const summary = await savePortfolioData(
+            portfolio,
+            {
+                positionsFile: source?.positionsFile ?? null,
+                transactionsFile: source?.transactionsFile ?? null,
+                parser: source?.parser ?? "unknown",
+            },
+            session.user.id
+        );
+        await rebuildLots();
 
-        return NextResponse.json({ success: true });
+        return NextResponse.json({ success: true, summary });
     } catch (error) {
         console.error("Failed to save portfolio:", error);
         return NextResponse.json({ error: "Failed to save portfolio data" }, { status: 500 });
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadRegister } from "@/lib/holdings-register";
+
+// GET the DFDII holdings register
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const holdings = await loadRegister();
+
+        return NextResponse.json({ holdings });
+    } catch (error) {
+        console.error("Failed to load holdings register:", error);
+        return NextResponse.json({ error: "Failed to load holdings register" }, { status: 500 });
+    }
+}
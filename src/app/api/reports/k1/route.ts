@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadPartnershipAllocation, partnershipAllocationToCSV } from "@/lib/partnership-allocation";
+
+// GET each member's share of a tax year's gains, dividends and expenses (?year=, ?format=csv) (admin only)
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const year = Number(searchParams.get("year") || new Date().getFullYear());
+
+        if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+            return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+        }
+
+        const allocation = await loadPartnershipAllocation(year);
+
+        if (searchParams.get("format") === "csv") {
+            return new NextResponse(partnershipAllocationToCSV(allocation), {
+                headers: {
+                    "Content-Type": "text/csv; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="k1-allocations-${year}.csv"`,
+                },
+            });
+        }
+
+        return NextResponse.json({ allocation });
+    } catch (error) {
+        console.error("Failed to allocate partnership income:", error);
+        return NextResponse.json({ error: "Failed to allocate partnership income" }, { status: 500 });
+    }
+}
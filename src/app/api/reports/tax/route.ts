@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadTaxYearReport, taxYearReportToCSV } from "@/lib/tax-report";
+
+// GET realized gains and dividend income for a tax year (?year=, ?format=csv) (admin only)
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user || session.user.role !== "ADMIN") {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const year = Number(searchParams.get("year") || new Date().getFullYear());
+
+        if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+            return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+        }
+
+        const report = await loadTaxYearReport(year);
+
+        if (searchParams.get("format") === "csv") {
+            return new NextResponse(taxYearReportToCSV(report), {
+                headers: {
+                    "Content-Type": "text/csv; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="realized-gains-${year}.csv"`,
+                },
+            });
+        }
+
+        return NextResponse.json({ report });
+    } catch (error) {
+        console.error("Failed to build tax report:", error);
+        return NextResponse.json({ error: "Failed to build tax report" }, { status: 500 });
+    }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { deleteResearchReport, ResearchReportError, updateResearchReport } from "@/lib/research-reports";
+
+// PATCH edit a research report's title, text or target price (its author, or an admin)
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ reportId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { reportId } = await params;
+        const body = await request.json();
+
+        const report = await updateResearchReport(
+            { id: session.user.id, role: session.user.role },
+            reportId,
+            {
+                ...("title" in body && { title: body.title }),
+                ...("body" in body && { body: body.body }),
+                ...("targetPrice" in body && { targetPrice: body.targetPrice }),
+            }
+        );
+
+        if (!report) {
+            return NextResponse.json({ error: "Report not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ report });
+    } catch (error) {
+        if (error instanceof ResearchReportError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to update research report:", error);
+        return NextResponse.json({ error: "Failed to update research report" }, { status: 500 });
+    }
+}
+
+// DELETE remove a research report (its author, or an admin)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ reportId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { reportId } = await params;
+        const deleted = await deleteResearchReport({ id: session.user.id, role: session.user.role }, reportId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: "Report not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete research report:", error);
+        return NextResponse.json({ error: "Failed to delete research report" }, { status: 500 });
+    }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { createResearchReport, listResearchReports, ResearchReportError } from "@/lib/research-reports";
+
+// GET every research report on ?symbol=, newest first
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const symbol = request.nextUrl.searchParams.get("symbol");
+
+        if (!symbol) {
+            return NextResponse.json({ error: "Symbol is required" }, { status: 400 });
+        }
+
+        const reports = await listResearchReports(symbol);
+
+        return NextResponse.json({ reports });
+    } catch (error) {
+        console.error("Failed to load research reports:", error);
+        return NextResponse.json({ error: "Failed to load research reports" }, { status: 500 });
+    }
+}
+
+// POST write a research report on a symbol, saved with the current price and
+// company details
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { symbol, title, body, targetPrice } = await request.json();
+
+        if (!symbol || typeof symbol !== "string") {
+            return NextResponse.json({ error: "Symbol is required" }, { status: 400 });
+        }
+
+        const report = await createResearchReport(session.user.id, { symbol, title, body, targetPrice });
+
+        return NextResponse.json({ report });
+    } catch (error) {
+        if (error instanceof ResearchReportError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to save research report:", error);
+        return NextResponse.json({ error: "Failed to save research report" }, { status: 500 });
+    }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { loadClubReturns, loadHoldingReturns } from "@/lib/returns";
+
+// GET time-weighted and money-weighted returns for the club, or one holding with ?symbol=
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const symbol = searchParams.get("symbol");
+
+        if (symbol) {
+            const returns = await loadHoldingReturns(symbol);
+            return NextResponse.json({ symbol: symbol.toUpperCase(), returns });
+        }
+
+        const returns = await loadClubReturns();
+        return NextResponse.json({ returns });
+    } catch (error) {
+        console.error("Failed to calculate returns:", error);
+        return NextResponse.json({ error: "Failed to calculate returns" }, { status: 500 });
+    }
+}
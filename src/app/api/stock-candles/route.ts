@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { getStockCandles } from "@/lib/finnhub";
+import { getStockCandles } from "@/lib/market-data";
 
 export async function GET(request: NextRequest) {
     try {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { getStockDetails } from "@/lib/finnhub";
+import { getStockDetails } from "@/lib/market-data";
 
 export async function GET(request: NextRequest) {
     try {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { getMultipleQuotes, isFinnhubConfigured, StockQuote } from "@/lib/finnhub";
+import { getMultipleQuotes, isMarketDataConfigured, activeProviders, StockQuote } from "@/lib/market-data";
 
 export async function POST(request: NextRequest) {
     try {
@@ -10,8 +10,8 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
         }
 
-        // Check if Finnhub is configured
-        if (!isFinnhubConfigured()) {
+        // Check if a market data provider is configured
+        if (!isMarketDataConfigured()) {
             return NextResponse.json(
                 { error: "Stock price API not configured", configured: false },
                 { status: 503 }
@@ -30,7 +30,7 @@ export async function POST(request: NextRequest) {
         // Limit to 50 symbols per request to prevent abuse
         const limitedSymbols = symbols.slice(0, 50);
 
-        // Fetch quotes from Finnhub
+        // Fetch quotes from the configured providers
         const quotesMap = await getMultipleQuotes(limitedSymbols);
 
         // Convert Map to object for JSON response
@@ -57,12 +57,13 @@ export async function POST(request: NextRequest) {
 
 // GET endpoint to check API status
 export async function GET() {
-    const configured = isFinnhubConfigured();
+    const providers = activeProviders().map((p) => p.name);
 
     return NextResponse.json({
-        configured,
-        message: configured
-            ? "Finnhub API is configured"
-            : "FINNHUB_API_KEY environment variable not set",
+        configured: providers.length > 0,
+        providers,
+        message: providers.length > 0
+            ? `Market data from ${providers.join(", ")}`
+            : "No market data provider in MARKET_DATA_PROVIDERS is configured",
     });
 }
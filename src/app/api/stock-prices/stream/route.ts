@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { subscribeToPrices } from "@/lib/price-stream";
+
+// Limit to 50 symbols per stream, as for POST /api/stock-prices
+const MAX_SYMBOLS = 50;
+
+// Comment lines keep proxies from closing a quiet connection
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// GET a server-sent event stream of quotes for ?symbols=AAPL,MSFT. A "quotes"
+// event carries the current quotes on connecting, then each one that changes.
+export async function GET(request: NextRequest) {
+    const session = await auth();
+    if (!session?.user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const symbols = [...new Set(
+        (request.nextUrl.searchParams.get("symbols") ?? "")
+            .split(",")
+            .map((s) => s.trim())
+            .filter(Boolean)
+    )].slice(0, MAX_SYMBOLS);
+
+    if (symbols.length === 0) {
+        return NextResponse.json({ error: "symbols is required" }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let unsubscribe = () => {};
+            const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL);
+            stop = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                stop();
+                try {
+                    controller.close();
+                } catch {
+                    // already closed by the client
+                }
+            };
+            const write = (text: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(text));
+                } catch {
+                    close();
+                }
+            };
+
+            request.signal.addEventListener("abort", close);
+
+            try {
+                unsubscribe = await subscribeToPrices(symbols, (quotes) => {
+                    write(`event: quotes\ndata: ${JSON.stringify(quotes)}\n\n`);
+                });
+            } catch (error) {
+                console.error("Failed to start price stream:", error);
+                close();
+                return;
+            }
+
+            // The client may have gone while the first quotes were fetched
+            if (closed) unsubscribe();
+        },
+        cancel() {
+            closed = true;
+            stop();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
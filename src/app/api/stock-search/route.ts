@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { searchSymbols } from "@/lib/finnhub";
+import { searchSymbols } from "@/lib/market-data";
 
 export async function GET(request: NextRequest) {
     try {
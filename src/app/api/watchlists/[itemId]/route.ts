@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { removeFromWatchlist, updateWatchlistItem, WatchlistError } from "@/lib/watchlists";
+
+// PATCH change a watchlist item's target price or notes (the member's own
+// items, club items they added, or any club item for admins)
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ itemId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { itemId } = await params;
+        const body = await request.json();
+
+        if (typeof body !== "object" || body === null) {
+            return NextResponse.json({ error: "Request body must be an object" }, { status: 400 });
+        }
+
+        const item = await updateWatchlistItem(
+            { id: session.user.id, role: session.user.role },
+            itemId,
+            {
+                ...("targetPrice" in body && { targetPrice: body.targetPrice }),
+                ...("notes" in body && { notes: body.notes }),
+            }
+        );
+
+        if (!item) {
+            return NextResponse.json({ error: "Watchlist item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ item });
+    } catch (error) {
+        if (error instanceof WatchlistError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to update watchlist item:", error);
+        return NextResponse.json({ error: "Failed to update watchlist item" }, { status: 500 });
+    }
+}
+
+// DELETE take a stock off a watchlist (same access as PATCH)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ itemId: string }> }
+) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { itemId } = await params;
+        const removed = await removeFromWatchlist({ id: session.user.id, role: session.user.role }, itemId);
+
+        if (!removed) {
+            return NextResponse.json({ error: "Watchlist item not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to remove from watchlist:", error);
+        return NextResponse.json({ error: "Failed to remove from watchlist" }, { status: 500 });
+    }
+}
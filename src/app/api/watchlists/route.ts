@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { addToWatchlist, listWatchlists, DuplicateWatchlistItemError, WatchlistError } from "@/lib/watchlists";
+import { getMultipleQuotes } from "@/lib/market-data";
+
+// GET the member's watchlist and the club's, with a quote for every symbol on them
+export async function GET() {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const watchlists = await listWatchlists(session.user.id);
+        const symbols = [...watchlists.personal, ...watchlists.club].map((item) => item.symbol);
+        const quotes = symbols.length > 0 ? await getMultipleQuotes(symbols) : new Map();
+
+        return NextResponse.json({ ...watchlists, quotes: Object.fromEntries(quotes) });
+    } catch (error) {
+        console.error("Failed to load watchlists:", error);
+        return NextResponse.json({ error: "Failed to load watchlists" }, { status: 500 });
+    }
+}
+
+// POST add a stock to the member's watchlist ("personal") or the club's ("club")
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { symbol, scope, targetPrice, notes } = await request.json();
+
+        // Validate input
+        if (!symbol || typeof symbol !== "string") {
+            return NextResponse.json({ error: "Symbol is required" }, { status: 400 });
+        }
+        if (scope !== "personal" && scope !== "club") {
+            return NextResponse.json({ error: "Scope must be personal or club" }, { status: 400 });
+        }
+
+        const item = await addToWatchlist(
+            { id: session.user.id, role: session.user.role },
+            scope,
+            { symbol, targetPrice, notes }
+        );
+
+        return NextResponse.json({ item });
+    } catch (error) {
+        if (error instanceof DuplicateWatchlistItemError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (error instanceof WatchlistError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to add to watchlist:", error);
+        return NextResponse.json({ error: "Failed to add to watchlist" }, { status: 500 });
+    }
+}
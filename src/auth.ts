@@ -90,7 +90,10 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
                 pathname.startsWith("/portfolio") ||
                 pathname.startsWith("/transactions") ||
                 pathname.startsWith("/members") ||
-                pathname.startsWith("/settings");
+                pathname.startsWith("/settings") ||
+                pathname.startsWith("/capital-account") ||
+                pathname.startsWith("/dividends") ||
+                pathname.startsWith("/watchlist");
 
             if (isOnDashboard) {
                 return isLoggedIn;
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import styles from "../app/(dashboard)/settings/upload.module.css";
+import { ImportKind, ColumnMapping, ImportTemplate } from "@/lib/types";
+import { MAPPING_FIELDS, SourceTable, missingFields, mapHoldings, mapTransactions } from "@/lib/column-mapping";
+
+interface ColumnMapperProps {
+    kind: ImportKind;
+    fileName: string;
+    table: SourceTable;
+    initialMapping: ColumnMapping;
+    templates: ImportTemplate[];
+    onApply: (mapping: ColumnMapping) => void;
+    onSaveTemplate: (name: string, mapping: ColumnMapping) => Promise<string | null>;
+    onDeleteTemplate: (id: string) => Promise<void>;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Assign each source column of an unrecognized CSV to a Holding or
+// Transaction field, preview the result and optionally save it as a template
+export default function ColumnMapper({
+    kind,
+    fileName,
+    table,
+    initialMapping,
+    templates,
+    onApply,
+    onSaveTemplate,
+    onDeleteTemplate,
+    onCancel,
+}: ColumnMapperProps) {
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [templateId, setTemplateId] = useState("");
+    const [templateName, setTemplateName] = useState("");
+    const [message, setMessage] = useState("");
+
+    const fields = MAPPING_FIELDS[kind];
+    const missing = missingFields(mapping, kind);
+    const kindTemplates = templates.filter((t) => t.kind === kind);
+
+    const setColumn = (field: string, column: string) => {
+        const next = { ...mapping };
+        if (column) next[field] = column;
+        else delete next[field];
+        setMapping(next);
+    };
+
+    const holdings = missing.length === 0 && kind === "positions" ? mapHoldings(table, mapping) : null;
+    const transactions = missing.length === 0 && kind === "transactions" ? mapTransactions(table, mapping) : null;
+    const skippedCount = (holdings ?? transactions)?.skipped.length ?? 0;
+    const preview = holdings
+        ? holdings.rows.slice(0, PREVIEW_ROWS).map((h) => [h.symbol, h.name, h.quantity, h.currentPrice.toFixed(2), h.marketValue.toFixed(2), h.costPerShare.toFixed(2)])
+        : (transactions?.rows ?? []).slice(0, PREVIEW_ROWS).map((t) => [t.date, t.action, t.symbol, t.quantity, t.price.toFixed(2), t.fees.toFixed(2), t.amount.toFixed(2)]);
+    const previewHeaders = kind === "positions"
+        ? ["Symbol", "Name", "Shares", "Price", "Value", "Cost/Share"]
+        : ["Date", "Action", "Symbol", "Shares", "Price", "Fees", "Amount"];
+
+    const handleSave = async () => {
+        setMessage("");
+        const error = await onSaveTemplate(templateName, mapping);
+        setMessage(error ?? `Saved template "${templateName.trim()}"`);
+    };
+
+    return (
+        <div className={styles.resultsSection}>
+            <div className={styles.resultsHeader}>
+                <h2 className={styles.resultsTitle}>🧭 Map {kind === "positions" ? "Positions" : "Transaction"} Columns</h2>
+                {kindTemplates.length > 0 && (
+                    <div style={{ display: 'flex', gap: 'var(--space-sm)' }}>
+                        <select
+                            className="input"
+                            style={{ width: 'auto' }}
+                            value={templateId}
+                            onChange={(e) => {
+                                const template = kindTemplates.find((t) => t.id === e.target.value);
+                                setTemplateId(e.target.value);
+                                if (template) {
+                                    setMapping(template.mapping);
+                                    setTemplateName(template.name);
+                                }
+                            }}
+                        >
+                            <option value="">Start from a template…</option>
+                            {kindTemplates.map((t) => (
+                                <option key={t.id} value={t.id}>{t.name}</option>
+                            ))}
+                        </select>
+                        {templateId && (
+                            <button
+                                className="btn btn-secondary"
+                                onClick={async () => {
+                                    await onDeleteTemplate(templateId);
+                                    setTemplateId("");
+                                }}
+                            >
+                                Delete Template
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+            <p className={styles.mergeSummaryNote}>
+                {fileName} doesn&apos;t match a known broker export. Choose which column holds each field;
+                fields marked * are required.
+            </p>
+
+            <div className={styles.mappingGrid}>
+                {fields.map((field) => (
+                    <label key={field.key} className={styles.mappingField}>
+                        <span>
+                            {field.label}
+                            {field.required && <span className={styles.mappingRequired}> *</span>}
+                        </span>
+                        <select
+                            className="input"
+                            value={mapping[field.key] ?? ""}
+                            onChange={(e) => setColumn(field.key, e.target.value)}
+                        >
+                            <option value="">— not in file —</option>
+                            {table.headers.filter(Boolean).map((header) => (
+                                <option key={header} value={header}>{header}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            {missing.length > 0 ? (
+                <p className={styles.mergeSummaryNote}>
+                    Map {missing.map((f) => f.label).join(", ")} to preview the rows.
+                </p>
+            ) : (
+                <table className={styles.previewTable}>
+                    <thead>
+                        <tr>
+                            {previewHeaders.map((h) => <th key={h}>{h}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {preview.length === 0 ? (
+                            <tr>
+                                <td colSpan={previewHeaders.length} style={{ color: 'var(--color-text-muted)' }}>
+                                    No rows could be read with this mapping.
+                                </td>
+                            </tr>
+                        ) : preview.map((row, index) => (
+                            <tr key={index}>
+                                {row.map((value, i) => <td key={i}>{value}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {skippedCount > 0 && (
+                <p className={styles.mergeSummaryNote}>
+                    {skippedCount} row{skippedCount === 1 ? "" : "s"} can&apos;t be read with this mapping and will be skipped.
+                </p>
+            )}
+
+            <div className={styles.mappingTemplateRow}>
+                <input
+                    className="input"
+                    style={{ maxWidth: '280px' }}
+                    placeholder="Template name, e.g. Credit union CSV"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                />
+                <button
+                    className="btn btn-secondary"
+                    onClick={handleSave}
+                    disabled={!templateName.trim() || missing.length > 0}
+                >
+                    Save as Template
+                </button>
+                {message && <span style={{ color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>{message}</span>}
+            </div>
+
+            <div className={styles.actionButtons} style={{ marginTop: 'var(--space-lg)' }}>
+                <button className={styles.btnClear} onClick={onCancel}>
+                    Cancel
+                </button>
+                <button className={styles.btnSave} onClick={() => onApply(mapping)} disabled={missing.length > 0}>
+                    Use This Mapping
+                </button>
+            </div>
+        </div>
+    );
+}
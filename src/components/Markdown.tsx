@@ -0,0 +1,142 @@
+import { ReactNode } from "react";
+
+interface MarkdownProps {
+    source: string;
+    className?: string;
+}
+
+type Block =
+    | { type: "heading"; level: number; text: string }
+    | { type: "paragraph"; text: string }
+    | { type: "list"; ordered: boolean; items: string[] }
+    | { type: "quote"; text: string }
+    | { type: "code"; text: string }
+    | { type: "rule" };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^```/;
+
+// Code spans, bold, italics and links, in that order of precedence
+const INLINE = /(`[^`]+`)|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Split Markdown into blocks: headings, paragraphs, lists, quotes, fenced
+// code and rules. Anything else is a paragraph.
+function parseBlocks(source: string): Block[] {
+    const lines = source.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+        } else if (FENCE.test(line)) {
+            const code: string[] = [];
+            for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+            blocks.push({ type: "code", text: code.join("\n") });
+            i++;
+        } else if (HEADING.test(line)) {
+            const [, hashes, text] = line.match(HEADING)!;
+            blocks.push({ type: "heading", level: hashes.length, text: text.replace(/\s#+\s*$/, "") });
+            i++;
+        } else if (RULE.test(line)) {
+            blocks.push({ type: "rule" });
+            i++;
+        } else if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(QUOTE)![1]);
+            blocks.push({ type: "quote", text: quoted.join(" ") });
+        } else if (BULLET.test(line) || NUMBERED.test(line)) {
+            const ordered = !BULLET.test(line);
+            const pattern = ordered ? NUMBERED : BULLET;
+            const items: string[] = [];
+            for (; i < lines.length && lines[i].trim(); i++) {
+                const item = lines[i].match(pattern);
+                if (item) items.push(item[1]);
+                else if (isBlockStart(lines[i])) break;
+                else items[items.length - 1] += ` ${lines[i].trim()}`; // wrapped item
+            }
+            blocks.push({ type: "list", ordered, items });
+        } else {
+            const text: string[] = [];
+            for (; i < lines.length && lines[i].trim() && !isBlockStart(lines[i]); i++) text.push(lines[i].trim());
+            blocks.push({ type: "paragraph", text: text.join(" ") });
+        }
+    }
+
+    return blocks;
+}
+
+function isBlockStart(line: string): boolean {
+    return [FENCE, HEADING, RULE, QUOTE, BULLET, NUMBERED].some((pattern) => pattern.test(line));
+}
+
+// Only web and mail links; anything else (javascript: and the like) stays text
+function isSafeUrl(url: string): boolean {
+    return /^(https?:\/\/|mailto:)/i.test(url);
+}
+
+function renderInline(text: string): ReactNode[] {
+    const nodes: ReactNode[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(INLINE)) {
+        const [whole, code, bold, boldAlt, italic, italicAlt, label, url] = match;
+        const index = match.index ?? 0;
+        if (index > last) nodes.push(text.slice(last, index));
+        last = index + whole.length;
+
+        const key = nodes.length;
+        if (code) {
+            nodes.push(<code key={key}>{code.slice(1, -1)}</code>);
+        } else if (bold ?? boldAlt) {
+            nodes.push(<strong key={key}>{renderInline(bold ?? boldAlt)}</strong>);
+        } else if (italic ?? italicAlt) {
+            nodes.push(<em key={key}>{renderInline(italic ?? italicAlt)}</em>);
+        } else if (label && isSafeUrl(url)) {
+            nodes.push(<a key={key} href={url} target="_blank" rel="noopener noreferrer">{renderInline(label)}</a>);
+        } else {
+            nodes.push(whole);
+        }
+    }
+
+    if (last < text.length) nodes.push(text.slice(last));
+    return nodes;
+}
+
+function renderBlock(block: Block, key: number): ReactNode {
+    switch (block.type) {
+        case "heading": {
+            // Report headings sit under the page's own, so # is an h3
+            const Heading = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+            return <Heading key={key}>{renderInline(block.text)}</Heading>;
+        }
+        case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+                <List key={key}>
+                    {block.items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+                </List>
+            );
+        }
+        case "quote":
+            return <blockquote key={key}>{renderInline(block.text)}</blockquote>;
+        case "code":
+            return <pre key={key}><code>{block.text}</code></pre>;
+        case "rule":
+            return <hr key={key} />;
+        default:
+            return <p key={key}>{renderInline(block.text)}</p>;
+    }
+}
+
+// Render a member's Markdown as React elements. HTML in the source is shown
+// as text, never parsed.
+export default function Markdown({ source, className }: MarkdownProps) {
+    return <div className={className}>{parseBlocks(source).map(renderBlock)}</div>;
+}
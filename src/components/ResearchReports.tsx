@@ -0,0 +1,287 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import styles from "../app/(dashboard)/stock/[symbol]/stock.module.css";
+import Markdown from "./Markdown";
+import { ResearchReport } from "@/lib/types";
+
+interface ResearchReportsProps {
+    symbol: string;
+    currentPrice: number | null;
+}
+
+interface Draft {
+    id: string | null;          // null for a new report
+    title: string;
+    targetPrice: string;
+    body: string;
+}
+
+const PITCH_TEMPLATE = `## Thesis
+
+## Risks
+
+## Valuation
+`;
+
+const formatCurrency = (val: number) =>
+    val.toLocaleString("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 });
+
+const formatChange = (from: number, to: number) => {
+    const change = ((to - from) / from) * 100;
+    return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+};
+
+const formatDate = (val: string) =>
+    new Date(val).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const formatLargeNumber = (val: number) => {
+    if (val >= 1e12) return `$${(val / 1e12).toFixed(2)}T`;
+    if (val >= 1e9) return `$${(val / 1e9).toFixed(2)}B`;
+    if (val >= 1e6) return `$${(val / 1e6).toFixed(2)}M`;
+    return `$${val.toLocaleString()}`;
+};
+
+// Key figures from the details saved with a report
+function snapshotStats(report: ResearchReport): [string, string][] {
+    const d = report.details;
+    if (!d) return [];
+    const stats: [string, string | null][] = [
+        ["Market Cap", d.marketCap != null ? formatLargeNumber(d.marketCap) : null],
+        ["P/E", d.trailingPE != null ? d.trailingPE.toFixed(2) : null],
+        ["Forward P/E", d.forwardPE != null ? d.forwardPE.toFixed(2) : null],
+        ["EPS", d.eps != null ? formatCurrency(d.eps) : null],
+        ["Dividend Yield", d.dividendYield != null ? `${(d.dividendYield * 100).toFixed(2)}%` : null],
+        ["52-Week Range", d.fiftyTwoWeekLow != null && d.fiftyTwoWeekHigh != null
+            ? `${formatCurrency(d.fiftyTwoWeekLow)} – ${formatCurrency(d.fiftyTwoWeekHigh)}`
+            : null],
+        ["Beta", d.beta != null ? d.beta.toFixed(2) : null],
+    ];
+    return stats.filter((stat): stat is [string, string] => stat[1] !== null);
+}
+
+// Members' pitches for a stock, newest first, with how the price has moved
+// since each was written. Anyone can write one; authors and admins can edit.
+export default function ResearchReports({ symbol, currentPrice }: ResearchReportsProps) {
+    const { data: session } = useSession();
+    const user = session?.user;
+
+    const [reports, setReports] = useState<ResearchReport[]>([]);
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [preview, setPreview] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        if (!symbol) return;
+        const fetchReports = async () => {
+            try {
+                const res = await fetch(`/api/research-reports?symbol=${encodeURIComponent(symbol)}`);
+                if (res.ok) {
+                    const data = await res.json();
+                    setReports(data.reports);
+                }
+            } catch (error) {
+                console.error("Failed to load research reports:", error);
+            }
+        };
+        fetchReports();
+    }, [symbol]);
+
+    const canEdit = (report: ResearchReport) => user?.role === "ADMIN" || report.authorId === user?.id;
+
+    const startDraft = (report?: ResearchReport) => {
+        setDraft(report
+            ? { id: report.id, title: report.title, targetPrice: report.targetPrice?.toString() ?? "", body: report.body }
+            : { id: null, title: "", targetPrice: "", body: PITCH_TEMPLATE });
+        setPreview(false);
+        setError("");
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        setError("");
+
+        try {
+            const res = await fetch(draft.id ? `/api/research-reports/${draft.id}` : "/api/research-reports", {
+                method: draft.id ? "PATCH" : "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ symbol, title: draft.title, body: draft.body, targetPrice: draft.targetPrice }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.error || "Failed to save report");
+                return;
+            }
+
+            const saved: ResearchReport = data.report;
+            setReports((current) => draft.id
+                ? current.map((r) => (r.id === saved.id ? saved : r))
+                : [saved, ...current]);
+            setOpenId(saved.id);
+            setDraft(null);
+        } catch (error) {
+            console.error("Failed to save research report:", error);
+            setError("Failed to save report");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (report: ResearchReport) => {
+        if (!confirm(`Delete "${report.title}"?`)) return;
+
+        try {
+            const res = await fetch(`/api/research-reports/${report.id}`, { method: "DELETE" });
+            if (res.ok) {
+                setReports((current) => current.filter((r) => r.id !== report.id));
+            } else {
+                const data = await res.json();
+                setError(data.error || "Failed to delete report");
+            }
+        } catch (error) {
+            console.error("Failed to delete research report:", error);
+            setError("Failed to delete report");
+        }
+    };
+
+    return (
+        <div className={styles.detailCard} style={{ marginBottom: "var(--space-xl)" }}>
+            <div className={styles.lotsHeader}>
+                <h3 className={styles.detailCardTitle}>Research &amp; Pitches</h3>
+                {!draft && (
+                    <button className={styles.researchBtn} onClick={() => startDraft()} style={{ cursor: "pointer" }}>
+                        Write a Pitch
+                    </button>
+                )}
+            </div>
+
+            {error && <p className={styles.negative} style={{ marginBottom: "var(--space-sm)" }}>{error}</p>}
+
+            {draft && (
+                <div className={styles.reportForm}>
+                    <div className={styles.reportFormRow}>
+                        <input
+                            className="input"
+                            placeholder="Title, e.g. Why we should buy on the dip"
+                            value={draft.title}
+                            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                        />
+                        <input
+                            className="input"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="Target price"
+                            value={draft.targetPrice}
+                            onChange={(e) => setDraft({ ...draft, targetPrice: e.target.value })}
+                            style={{ maxWidth: "160px" }}
+                        />
+                    </div>
+                    <div className={styles.rangeButtons}>
+                        <button className={`${styles.rangeBtn} ${!preview ? styles.rangeBtnActive : ""}`} onClick={() => setPreview(false)}>
+                            Write
+                        </button>
+                        <button className={`${styles.rangeBtn} ${preview ? styles.rangeBtnActive : ""}`} onClick={() => setPreview(true)}>
+                            Preview
+                        </button>
+                    </div>
+                    {preview ? (
+                        <Markdown source={draft.body} className={styles.reportBody} />
+                    ) : (
+                        <textarea
+                            className={`input ${styles.reportEditor}`}
+                            value={draft.body}
+                            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                            rows={14}
+                        />
+                    )}
+                    <p className={styles.reportHint}>
+                        Markdown: ## headings, **bold**, *italics*, - lists, [links](https://…).
+                        {!draft.id && " Today's price and company figures are saved with the report."}
+                    </p>
+                    <div className={styles.reportActions}>
+                        <button className="btn btn-primary" onClick={handleSave} disabled={isSaving}>
+                            {isSaving ? "Saving..." : draft.id ? "Save Changes" : "Publish Pitch"}
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => setDraft(null)} disabled={isSaving}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {reports.length === 0 && !draft ? (
+                <p className={styles.reportHint}>No one has pitched {symbol} yet.</p>
+            ) : (
+                <div className={styles.reportList}>
+                    {reports.map((report) => {
+                        const isOpen = openId === report.id;
+                        const stats = snapshotStats(report);
+                        const moved = report.priceAtWriting && currentPrice
+                            ? currentPrice - report.priceAtWriting
+                            : null;
+
+                        return (
+                            <div key={report.id} className={styles.reportItem}>
+                                <div className={styles.reportHeader} onClick={() => setOpenId(isOpen ? null : report.id)}>
+                                    <div>
+                                        <div className={styles.reportTitle}>{isOpen ? "▾" : "▸"} {report.title}</div>
+                                        <div className={styles.reportMeta}>
+                                            {report.author ?? "Former member"} · {formatDate(report.createdAt)}
+                                        </div>
+                                    </div>
+                                    <div className={styles.reportFigures}>
+                                        {report.priceAtWriting != null && (
+                                            <span>
+                                                {formatCurrency(report.priceAtWriting)} then
+                                                {moved != null && (
+                                                    <strong className={moved >= 0 ? styles.positive : styles.negative}>
+                                                        {" "}{formatChange(report.priceAtWriting, currentPrice!)} since
+                                                    </strong>
+                                                )}
+                                            </span>
+                                        )}
+                                        {report.targetPrice != null && (
+                                            <span>
+                                                Target {formatCurrency(report.targetPrice)}
+                                                {currentPrice ? ` (${formatChange(currentPrice, report.targetPrice)} from here)` : ""}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {isOpen && (
+                                    <div className={styles.reportContent}>
+                                        <Markdown source={report.body} className={styles.reportBody} />
+                                        {stats.length > 0 && (
+                                            <div className={styles.reportSnapshot}>
+                                                <div className={styles.lotsSubtitle}>When written</div>
+                                                {stats.map(([label, value]) => (
+                                                    <div key={label} className={styles.detailRow}>
+                                                        <span className={styles.detailLabel}>{label}</span>
+                                                        <span className={styles.detailValue}>{value}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {canEdit(report) && (
+                                            <div className={styles.reportActions}>
+                                                <button className="btn btn-secondary" onClick={() => startDraft(report)}>Edit</button>
+                                                <button className="btn btn-secondary" onClick={() => handleDelete(report)}>Delete</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
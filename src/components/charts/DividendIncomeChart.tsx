@@ -0,0 +1,81 @@
+"use client";
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DividendMonth } from '@/lib/types';
+
+interface DividendIncomeChartProps {
+    data: DividendMonth[];
+    height?: number;
+}
+
+interface TooltipProps {
+    active?: boolean;
+    payload?: { payload: DividendMonth }[];
+}
+
+const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+    }).format(value);
+};
+
+// Months are YYYY-MM; read them as the first of the month in UTC
+const formatMonth = (month: string, format: Intl.DateTimeFormatOptions = { month: "short", year: "2-digit" }) => {
+    return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { ...format, timeZone: "UTC" });
+};
+
+function IncomeTooltip({ active, payload }: TooltipProps) {
+    if (active && payload && payload.length) {
+        const month = payload[0].payload;
+        return (
+            <div style={{
+                background: 'var(--color-surface)',
+                border: '1px solid var(--color-border)',
+                borderRadius: 'var(--radius-md)',
+                padding: 'var(--space-sm) var(--space-md)',
+                boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            }}>
+                <p style={{ margin: 0, marginBottom: 'var(--space-xs)', color: 'var(--color-text-secondary)', fontSize: '0.8125rem' }}>
+                    {formatMonth(month.month, { month: "long", year: "numeric" })}
+                </p>
+                <p style={{ margin: 0, color: 'var(--color-text-primary)', fontWeight: 600, fontSize: '0.875rem' }}>
+                    {formatCurrency(month.cash + month.reinvested)}
+                </p>
+                {month.reinvested > 0 && (
+                    <p style={{ margin: 0, color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>
+                        Reinvested: {formatCurrency(month.reinvested)}
+                    </p>
+                )}
+            </div>
+        );
+    }
+    return null;
+}
+
+export default function DividendIncomeChart({ data, height = 300 }: DividendIncomeChartProps) {
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <BarChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(156, 163, 175, 0.2)" vertical={false} />
+                <XAxis
+                    dataKey="month"
+                    tickFormatter={(month: string) => formatMonth(month)}
+                    stroke="var(--color-text-secondary)"
+                    style={{ fontSize: '0.75rem' }}
+                />
+                <YAxis
+                    tickFormatter={formatCurrency}
+                    stroke="var(--color-text-secondary)"
+                    style={{ fontSize: '0.75rem' }}
+                />
+                <Tooltip content={<IncomeTooltip />} cursor={{ fill: 'rgba(156, 163, 175, 0.1)' }} />
+                <Legend wrapperStyle={{ fontSize: '0.875rem', paddingTop: '1rem' }} />
+                <Bar dataKey="cash" stackId="income" fill="rgb(16, 185, 129)" name="Cash" />
+                <Bar dataKey="reinvested" stackId="income" fill="rgb(59, 130, 246)" name="Reinvested" radius={[4, 4, 0, 0]} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+}
@@ -5,15 +5,19 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 interface PerformanceDataPoint {
     date: string;
     value: number;
-    cost: number;
+    cost: number;   // capital contributed to date
+    benchmarks?: Record<string, number>;
 }
 
 interface PortfolioPerformanceChartProps {
     data: PerformanceDataPoint[];
+    benchmarks?: string[];
     height?: number;
 }
 
-export default function PortfolioPerformanceChart({ data, height = 300 }: PortfolioPerformanceChartProps) {
+const BENCHMARK_COLORS = ["rgb(16, 185, 129)", "rgb(245, 158, 11)", "rgb(168, 85, 247)", "rgb(236, 72, 153)", "rgb(20, 184, 166)"];
+
+export default function PortfolioPerformanceChart({ data, benchmarks = [], height = 300 }: PortfolioPerformanceChartProps) {
     const formatCurrency = (value: number) => {
         return new Intl.NumberFormat("en-US", {
             style: "currency",
@@ -23,9 +27,14 @@ export default function PortfolioPerformanceChart({ data, height = 300 }: Portfo
         }).format(value);
     };
 
+    // Long ranges span years, so label ticks by month and year
+    const spansYears = data.length > 0 && data[0].date.slice(0, 4) !== data[data.length - 1].date.slice(0, 4);
+
     const formatDate = (dateStr: string) => {
         const date = new Date(dateStr);
-        return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+        return spansYears
+            ? date.toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+            : date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
     };
 
     const CustomTooltip = ({ active, payload }: any) => {
@@ -46,9 +55,14 @@ export default function PortfolioPerformanceChart({ data, height = 300 }: Portfo
                     </p>
                     {payload[1] && (
                         <p style={{ margin: 0, color: 'var(--color-text-secondary)', fontSize: '0.875rem' }}>
-                            Cost: {formatCurrency(payload[1].value)}
+                            Contributed: {formatCurrency(payload[1].value)}
                         </p>
                     )}
+                    {payload.slice(2).map((entry: { name: string; value: number; color: string }) => (
+                        <p key={entry.name} style={{ margin: 0, color: entry.color, fontSize: '0.875rem' }}>
+                            {entry.name}: {formatCurrency(entry.value)}
+                        </p>
+                    ))}
                     <p style={{ margin: 0, marginTop: 'var(--space-xs)', color: payload[0].value >= payload[1]?.value ? 'var(--color-success)' : 'var(--color-danger)', fontSize: '0.875rem' }}>
                         {payload[0].value >= payload[1]?.value ? '+' : ''}{formatCurrency(payload[0].value - payload[1]?.value)} ({((payload[0].value - payload[1]?.value) / payload[1]?.value * 100).toFixed(2)}%)
                     </p>
@@ -89,7 +103,7 @@ export default function PortfolioPerformanceChart({ data, height = 300 }: Portfo
                     dataKey="value"
                     stroke="rgb(59, 130, 246)"
                     strokeWidth={3}
-                    dot={{ fill: 'rgb(59, 130, 246)', strokeWidth: 2, r: 4 }}
+                    dot={data.length <= 31 ? { fill: 'rgb(59, 130, 246)', strokeWidth: 2, r: 4 } : false}
                     activeDot={{ r: 6 }}
                     name="Portfolio Value"
                     fill="url(#colorValue)"
@@ -101,8 +115,19 @@ export default function PortfolioPerformanceChart({ data, height = 300 }: Portfo
                     strokeWidth={2}
                     strokeDasharray="5 5"
                     dot={false}
-                    name="Cost Basis"
+                    name="Contributed Capital"
                 />
+                {benchmarks.map((symbol, i) => (
+                    <Line
+                        key={symbol}
+                        type="monotone"
+                        dataKey={(point: PerformanceDataPoint) => point.benchmarks?.[symbol]}
+                        stroke={BENCHMARK_COLORS[i % BENCHMARK_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        name={`If invested in ${symbol}`}
+                    />
+                ))}
             </LineChart>
         </ResponsiveContainer>
     );
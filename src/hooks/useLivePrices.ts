@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { StockQuote } from "@/lib/market-data-provider";
+
+/**
+ * Live quotes for a set of symbols from the price stream. The server polls
+ * once for every connected member and pushes quotes as they change; the
+ * browser reconnects by itself if the connection drops.
+ */
+export function useLivePrices(symbols: string[]): {
+    quotes: Record<string, StockQuote>;
+    loading: boolean;
+    lastUpdate: Date | null;
+} {
+    const key = [...new Set(symbols.filter(Boolean))].sort().join(",");
+    const [quotes, setQuotes] = useState<Record<string, StockQuote>>({});
+    const [loadedKey, setLoadedKey] = useState("");
+    const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+    useEffect(() => {
+        if (!key) return;
+
+        const source = new EventSource(`/api/stock-prices/stream?symbols=${encodeURIComponent(key)}`);
+        source.addEventListener("quotes", (event) => {
+            const update: Record<string, StockQuote> = JSON.parse(event.data);
+            setQuotes((current) => ({ ...current, ...update }));
+            setLoadedKey(key);
+            setLastUpdate(new Date());
+        });
+
+        return () => source.close();
+    }, [key]);
+
+    return { quotes, loading: key !== "" && loadedKey !== key, lastUpdate };
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getMarketStatus } from "@/lib/trading-calendar";
+import type { MarketStatus } from "@/lib/types";
+
+// Sessions change on the minute, so there's no need to check more often
+const CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Where the NYSE trading day stands, kept current while the page is open
+ */
+export function useMarketStatus(): MarketStatus {
+    const [status, setStatus] = useState(() => getMarketStatus());
+
+    useEffect(() => {
+        const timer = setInterval(() => setStatus(getMarketStatus()), CHECK_INTERVAL);
+        return () => clearInterval(timer);
+    }, []);
+
+    return status;
+}
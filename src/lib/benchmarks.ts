@@ -0,0 +1,110 @@
+import { Transaction, PerformancePoint, PerformanceRange, BenchmarkComparison } from "./types";
+import { getStockCandles, StockCandle } from "./market-data";
+import { candleRangeFor } from "./performance";
+import { CashFlow, timeWeightedReturn } from "./returns";
+import { capitalDelta } from "./transaction-replay";
+
+/**
+ * Value of a what-if portfolio that put the club's starting value and every
+ * later deposit into the benchmark at that day's close (and sold it to fund
+ * withdrawals). Returns null when there are no candles for the benchmark.
+ */
+export function buildBenchmarkSeries(
+    points: PerformancePoint[],
+    flows: CashFlow[],
+    candles: StockCandle[]
+): number[] | null {
+    if (points.length === 0 || candles.length === 0) return null;
+
+    const sortedCandles = [...candles].sort((a, b) => a.date.localeCompare(b.date));
+    const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+
+    let candleIndex = -1;
+    const priceOn = (day: string): number => {
+        while (candleIndex + 1 < sortedCandles.length && sortedCandles[candleIndex + 1].date <= day) candleIndex++;
+        return sortedCandles[Math.max(candleIndex, 0)].close;
+    };
+
+    // Flows up to and including the first day are already in the starting value
+    let nextFlow = 0;
+    while (nextFlow < sortedFlows.length && sortedFlows[nextFlow].date <= points[0].date) nextFlow++;
+
+    let shares = 0;
+    return points.map((point, i) => {
+        const price = priceOn(point.date);
+
+        if (i === 0) {
+            shares = point.value / price;
+        } else {
+            while (nextFlow < sortedFlows.length && sortedFlows[nextFlow].date <= point.date) {
+                shares += sortedFlows[nextFlow].amount / price;
+                nextFlow++;
+            }
+        }
+
+        return Math.round(shares * price * 100) / 100;
+    });
+}
+
+/**
+ * Club vs. benchmark over the same days and cash flows
+ */
+export function compareToBenchmark(
+    symbol: string,
+    points: PerformancePoint[],
+    benchmarkValues: number[],
+    flows: CashFlow[]
+): BenchmarkComparison {
+    const portfolioReturn = timeWeightedReturn(points, flows);
+    const benchmarkReturn = timeWeightedReturn(
+        points.map((p, i) => ({ date: p.date, value: benchmarkValues[i] })),
+        flows
+    );
+
+    return {
+        symbol,
+        portfolioReturn,
+        benchmarkReturn,
+        alpha: portfolioReturn !== null && benchmarkReturn !== null ? portfolioReturn - benchmarkReturn : null,
+        endingValue: points[points.length - 1]?.value ?? 0,
+        benchmarkEndingValue: benchmarkValues[benchmarkValues.length - 1] ?? 0,
+    };
+}
+
+/**
+ * Overlay benchmark growth on a performance series and compare the club to each
+ */
+export async function addBenchmarks(
+    points: PerformancePoint[],
+    transactions: Transaction[],
+    symbols: string[],
+    range: PerformanceRange
+): Promise<{ points: PerformancePoint[]; comparisons: BenchmarkComparison[] }> {
+    if (points.length === 0 || symbols.length === 0) {
+        return { points, comparisons: [] };
+    }
+
+    const flows: CashFlow[] = transactions
+        .map((t) => ({ date: t.date.slice(0, 10), amount: capitalDelta(t) }))
+        .filter((f) => f.amount !== 0);
+
+    const candleRange = candleRangeFor(range, points[0].date, new Date());
+    const series = await Promise.all(
+        symbols.map(async (symbol) => {
+            const candles = await getStockCandles(symbol, candleRange);
+            return { symbol, values: buildBenchmarkSeries(points, flows, candles) };
+        })
+    );
+
+    const available = series.filter(
+        (s): s is { symbol: string; values: number[] } => s.values !== null
+    );
+
+    return {
+        points: points.map((point, i) => ({
+            ...point,
+            benchmarks: Object.fromEntries(available.map((s) => [s.symbol, s.values[i]])),
+        })),
+        comparisons: available.map((s) => compareToBenchmark(s.symbol, points, s.values, flows)),
+    };
+}
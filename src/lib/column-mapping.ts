@@ -0,0 +1,210 @@
+import { Holding, Transaction, ImportKind, ColumnMapping, ImportTemplate, ParseResult } from "./types";
+import { parseCSVLine, findColumn, parseDate } from "./csv";
+import { emptyResult, skipRow, warnRow, numberField, addTransaction } from "./parse-report";
+
+export interface MappingField {
+    key: string;
+    label: string;
+    required: boolean;
+    aliases: string[];      // header text used to guess the column
+}
+
+export interface SourceTable {
+    headers: string[];
+    rows: { row: number; values: string[] }[];     // row is the line in the file
+}
+
+export const MAPPING_FIELDS: Record<ImportKind, MappingField[]> = {
+    positions: [
+        { key: "symbol", label: "Symbol", required: true, aliases: ["symbol", "ticker"] },
+        { key: "name", label: "Name", required: false, aliases: ["description", "name", "security"] },
+        { key: "quantity", label: "Shares", required: true, aliases: ["quantity", "shares", "qty", "units"] },
+        { key: "currentPrice", label: "Price", required: false, aliases: ["last price", "current price", "market price", "price"] },
+        { key: "marketValue", label: "Market Value", required: false, aliases: ["market value", "current value", "total value", "value"] },
+        { key: "costBasis", label: "Cost Basis (total)", required: false, aliases: ["cost basis total", "cost basis", "total cost", "book cost"] },
+        { key: "costPerShare", label: "Cost per Share", required: false, aliases: ["average cost", "avg cost", "cost/share", "cost per share"] },
+    ],
+    transactions: [
+        { key: "date", label: "Date", required: true, aliases: ["trade date", "run date", "date"] },
+        { key: "action", label: "Action", required: true, aliases: ["action", "transaction type", "type", "activity"] },
+        { key: "symbol", label: "Symbol", required: false, aliases: ["symbol", "ticker"] },
+        { key: "description", label: "Description", required: false, aliases: ["description", "name", "security"] },
+        { key: "quantity", label: "Shares", required: false, aliases: ["quantity", "shares", "qty", "units"] },
+        { key: "price", label: "Price", required: false, aliases: ["price"] },
+        { key: "fees", label: "Fees", required: false, aliases: ["fees", "commission"] },
+        { key: "amount", label: "Amount", required: true, aliases: ["net amount", "amount", "total"] },
+    ],
+};
+
+// First match wins, so reinvestments are checked before plain dividends
+const ACTIONS: [string, Transaction["action"]][] = [
+    ["buy", "BUY"],
+    ["bought", "BUY"],
+    ["sell", "SELL"],
+    ["sold", "SELL"],
+    ["reinvest", "DIVIDEND"],
+    ["div", "DIVIDEND"],
+    ["deposit", "DEPOSIT"],
+    ["contribution", "DEPOSIT"],
+    ["transfer in", "DEPOSIT"],
+    ["withdraw", "WITHDRAWAL"],
+    ["transfer out", "WITHDRAWAL"],
+    ["split", "SPLIT"],
+    ["name change", "SYMBOL_CHANGE"],
+];
+
+const DATE_PATTERN = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/;
+
+/**
+ * Split a CSV into its header row and data rows. The header is taken to be
+ * the widest of the first few lines, since exports often start with a title.
+ */
+export function readTable(content: string): SourceTable {
+    const lines = content.split(/\r?\n/);
+    const width = (line: string) => parseCSVLine(line).filter(Boolean).length;
+
+    let headerIndex = 0;
+    for (let i = 1; i < Math.min(lines.length, 20); i++) {
+        if (width(lines[i]) > width(lines[headerIndex])) headerIndex = i;
+    }
+
+    const headers = parseCSVLine(lines[headerIndex] ?? "").map((h) => h.replace(/^"|"$/g, ""));
+    const rows = lines
+        .map((line, i) => ({ row: i + 1, line }))
+        .slice(headerIndex + 1)
+        .filter(({ line }) => line.trim())
+        .map(({ row, line }) => ({ row, values: parseCSVLine(line).map((v) => v.replace(/^"|"$/g, "")) }));
+
+    return { headers, rows };
+}
+
+/**
+ * A first guess at the mapping from the header names
+ */
+export function guessMapping(headers: string[], kind: ImportKind): ColumnMapping {
+    const lower = headers.map((h) => h.toLowerCase());
+    const mapping: ColumnMapping = {};
+
+    for (const field of MAPPING_FIELDS[kind]) {
+        const index = findColumn(lower, field.aliases);
+        if (index !== -1) mapping[field.key] = headers[index];
+    }
+
+    return mapping;
+}
+
+/**
+ * Fields that must be mapped before the file can be read
+ */
+export function missingFields(mapping: ColumnMapping, kind: ImportKind): MappingField[] {
+    return MAPPING_FIELDS[kind].filter((f) => f.required && !mapping[f.key]);
+}
+
+/**
+ * Whether every column a template reads is in the file
+ */
+export function templateMatches(template: ImportTemplate, headers: string[]): boolean {
+    const lower = new Set(headers.map((h) => h.toLowerCase()));
+    const columns = Object.values(template.mapping);
+    return columns.length > 0 && columns.every((c) => lower.has(c.toLowerCase()));
+}
+
+// Reads one row's value for a field, or "" when the field isn't mapped
+function rowReader(table: SourceTable, mapping: ColumnMapping) {
+    const lower = table.headers.map((h) => h.toLowerCase());
+    const indexes = new Map(
+        Object.entries(mapping).map(([field, column]) => [field, lower.indexOf(column.toLowerCase())])
+    );
+
+    return (values: string[], field: string) => {
+        const index = indexes.get(field) ?? -1;
+        return index >= 0 ? (values[index] ?? "").trim() : "";
+    };
+}
+
+/**
+ * Read holdings from a table using a column mapping. Rows without a symbol
+ * or with no shares are skipped.
+ */
+export function mapHoldings(table: SourceTable, mapping: ColumnMapping): ParseResult<Holding> {
+    const read = rowReader(table, mapping);
+    const result = emptyResult<Holding>();
+
+    for (const { row, values } of table.rows) {
+        const text = values.join(",");
+        const number = (field: string, label: string) => numberField(result, row, label, read(values, field));
+
+        const symbol = read(values, "symbol");
+        if (!symbol) {
+            skipRow(result, row, "No symbol", text);
+            continue;
+        }
+        const quantity = number("quantity", "Shares");
+        if (quantity <= 0) {
+            skipRow(result, row, "No shares held", text);
+            continue;
+        }
+
+        const currentPrice = number("currentPrice", "Price");
+        let marketValue = number("marketValue", "Market value");
+        if (!marketValue && currentPrice) {
+            marketValue = quantity * currentPrice;
+            warnRow(result, row, "Market value missing; derived from shares × price");
+        }
+        const costPerShare = number("costPerShare", "Cost per share") || number("costBasis", "Cost basis") / quantity;
+        if (!costPerShare) {
+            warnRow(result, row, "Cost basis missing; gain/loss can't be calculated");
+        }
+        const costBasis = costPerShare * quantity;
+
+        result.rows.push({
+            symbol: symbol.toUpperCase(),
+            name: read(values, "name") || symbol,
+            quantity,
+            costPerShare,
+            currentPrice: currentPrice || marketValue / quantity,
+            marketValue,
+            gainLoss: marketValue - costBasis,
+            gainLossPercent: costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0,
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Read transactions from a table using a column mapping. Rows without a
+ * recognizable date are skipped.
+ */
+export function mapTransactions(table: SourceTable, mapping: ColumnMapping): ParseResult<Transaction> {
+    const read = rowReader(table, mapping);
+    const result = emptyResult<Transaction>();
+
+    for (const { row, values } of table.rows) {
+        const text = values.join(",");
+        const number = (field: string, label: string) => numberField(result, row, label, read(values, field));
+
+        const dateRaw = read(values, "date");
+        const date = dateRaw.match(DATE_PATTERN)?.[1];
+        if (!date) {
+            skipRow(result, row, dateRaw ? `Date "${dateRaw}" not recognized` : "No date", text);
+            continue;
+        }
+
+        const actionRaw = read(values, "action");
+        const action = ACTIONS.find(([match]) => actionRaw.toLowerCase().includes(match))?.[1] ?? "OTHER";
+
+        addTransaction(result, row, {
+            date: parseDate(date),
+            action,
+            symbol: read(values, "symbol").toUpperCase() || "--",
+            description: read(values, "description") || actionRaw,
+            quantity: Math.abs(number("quantity", "Shares")),
+            price: number("price", "Price"),
+            fees: Math.abs(number("fees", "Fees")),
+            amount: number("amount", "Amount"),
+        }, actionRaw, text);
+    }
+
+    return result;
+}
@@ -0,0 +1,197 @@
+import { Transaction, CorporateAction, CorporateActionType, CorporateActionSuggestion } from "./types";
+import { prisma } from "./prisma";
+import { getClubPortfolioId, toTransaction } from "./storage";
+import { shareDelta } from "./transaction-replay";
+import type { Prisma, CorporateAction as CorporateActionRow, Transaction as TransactionRow } from "@prisma/client";
+
+export class CorporateActionError extends Error {}
+
+// A spin-off in today's terms: the parent and new company by their current
+// tickers, and new shares per parent share after any later splits
+export interface SpinOff {
+    date: string;
+    symbol: string;
+    newSymbol: string;
+    ratio: number;
+    costAllocation: number;
+}
+
+const TYPES: CorporateActionType[] = ["SPLIT", "SPIN_OFF", "SYMBOL_CHANGE"];
+
+const dayOf = (date: string) => date.slice(0, 10);
+
+function toCorporateAction(row: CorporateActionRow): CorporateAction {
+    return {
+        id: row.id,
+        type: row.type,
+        date: row.date.toISOString(),
+        symbol: row.symbol,
+        newSymbol: row.newSymbol,
+        ratio: row.ratio,
+        costAllocation: row.costAllocation,
+        note: row.note,
+    };
+}
+
+// Follow a symbol from a date to today: the ticker it trades under now and
+// how many shares each share held then has become
+function followSymbol(symbol: string, date: string, actions: CorporateAction[]): { symbol: string; factor: number } {
+    let current = symbol.toUpperCase();
+    let factor = 1;
+    for (const action of actions) {
+        if (dayOf(action.date) <= dayOf(date) || action.symbol !== current) continue;
+        if (action.type === "SPLIT") factor *= action.ratio;
+        if (action.type === "SYMBOL_CHANGE" && action.newSymbol) current = action.newSymbol;
+    }
+    return { symbol: current, factor };
+}
+
+const byDate = (actions: CorporateAction[]) => [...actions].sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Restate transactions in today's terms: quantities and prices adjusted for
+ * every later split and symbols for every later ticker change, so replaying
+ * the history lands on the positions the broker reports and lines up with
+ * split-adjusted candles. Amounts are unchanged.
+ */
+export function applyCorporateActions<T extends Transaction>(transactions: T[], actions: CorporateAction[]): T[] {
+    if (actions.length === 0) return transactions;
+    const sorted = byDate(actions);
+
+    return transactions.map((t) => {
+        if (!t.symbol || t.symbol === "--") return t;
+        const { symbol, factor } = followSymbol(t.symbol, t.date, sorted);
+        if (factor === 1 && symbol === t.symbol.toUpperCase()) return t;
+        return { ...t, symbol, quantity: t.quantity * factor, price: t.price / factor };
+    });
+}
+
+/**
+ * Spin-offs restated in the same terms as applyCorporateActions, for lots
+ */
+export function spinOffsInTodaysTerms(actions: CorporateAction[]): SpinOff[] {
+    const sorted = byDate(actions);
+    return sorted
+        .filter((a) => a.type === "SPIN_OFF" && a.newSymbol)
+        .map((a) => {
+            const parent = followSymbol(a.symbol, a.date, sorted);
+            const child = followSymbol(a.newSymbol!, a.date, sorted);
+            return {
+                date: a.date,
+                symbol: parent.symbol,
+                newSymbol: child.symbol,
+                ratio: (a.ratio * child.factor) / parent.factor,
+                costAllocation: a.costAllocation,
+            };
+        });
+}
+
+/**
+ * The club's corporate actions, oldest first
+ */
+export async function loadCorporateActions(db: Prisma.TransactionClient = prisma): Promise<CorporateAction[]> {
+    const portfolioId = await getClubPortfolioId(db);
+    const rows = await db.corporateAction.findMany({ where: { portfolioId }, orderBy: { date: "asc" } });
+    return rows.map(toCorporateAction);
+}
+
+/**
+ * Split and ticker change rows from imports that no corporate action covers
+ * yet. A split's ratio is suggested from the shares the history shows held
+ * the day before; it's left blank when the history doesn't start early enough.
+ */
+export async function findUnrecordedActions(): Promise<CorporateActionSuggestion[]> {
+    const portfolioId = await getClubPortfolioId();
+    const [rows, actions] = await Promise.all([
+        prisma.transaction.findMany({ where: { portfolioId }, orderBy: { date: "asc" } }),
+        loadCorporateActions(),
+    ]);
+    const transactions: Transaction[] = rows.map((t: TransactionRow) => toTransaction(t));
+
+    const recorded = (t: Transaction) => actions.some((a) =>
+        dayOf(a.date) === dayOf(t.date) &&
+        (a.symbol === t.symbol.toUpperCase() || a.newSymbol === t.symbol.toUpperCase())
+    );
+
+    return transactions
+        .filter((t) => (t.action === "SPLIT" || t.action === "SYMBOL_CHANGE") && !recorded(t))
+        .map((t) => {
+            const symbol = t.symbol.toUpperCase();
+            const heldBefore = transactions
+                .filter((prior) => dayOf(prior.date) < dayOf(t.date) && prior.symbol.toUpperCase() === symbol)
+                .reduce((sum, prior) => sum + shareDelta(prior), 0);
+
+            return {
+                transactionDate: t.date,
+                type: t.action === "SPLIT" ? "SPLIT" : "SYMBOL_CHANGE",
+                symbol,
+                description: t.description,
+                quantity: t.quantity,
+                ratio: t.action === "SPLIT" && heldBefore > 0 ? Number(((heldBefore + t.quantity) / heldBefore).toFixed(4)) : null,
+            };
+        });
+}
+
+/**
+ * Record a corporate action. Rebuild the lots afterwards.
+ */
+export async function createCorporateAction(input: {
+    type: CorporateActionType;
+    date: string;
+    symbol: string;
+    newSymbol?: string | null;
+    ratio?: number | null;
+    costAllocation?: number | null;
+    note?: string | null;
+}): Promise<CorporateAction> {
+    if (!TYPES.includes(input.type)) {
+        throw new CorporateActionError(`Type must be one of ${TYPES.join(", ")}`);
+    }
+    const date = new Date(input.date);
+    if (isNaN(date.getTime())) throw new CorporateActionError("A valid effective date is required");
+
+    const symbol = input.symbol?.trim().toUpperCase();
+    const newSymbol = input.newSymbol?.trim().toUpperCase() || null;
+    if (!symbol) throw new CorporateActionError("Symbol is required");
+    if (input.type !== "SPLIT" && !newSymbol) {
+        throw new CorporateActionError(input.type === "SPIN_OFF" ? "The spun-off company's symbol is required" : "The new symbol is required");
+    }
+    if (newSymbol === symbol) throw new CorporateActionError("The new symbol must differ from the old one");
+
+    const ratio = input.type === "SYMBOL_CHANGE" ? 1 : Number(input.ratio);
+    if (!(ratio > 0) || (input.type === "SPLIT" && ratio === 1)) {
+        throw new CorporateActionError(input.type === "SPLIT"
+            ? "Ratio must be the new shares per old share, e.g. 10 for a 10-for-1 split or 0.1 for 1-for-10"
+            : "Ratio must be the new company's shares per parent share");
+    }
+
+    const costAllocation = input.type === "SPIN_OFF" ? Number(input.costAllocation ?? 0) : 0;
+    if (!(costAllocation >= 0 && costAllocation < 1)) {
+        throw new CorporateActionError("Cost allocation must be a fraction from 0 up to 1");
+    }
+
+    const portfolioId = await getClubPortfolioId();
+    const row = await prisma.corporateAction.create({
+        data: {
+            portfolioId,
+            type: input.type,
+            date,
+            symbol,
+            newSymbol: input.type === "SPLIT" ? null : newSymbol,
+            ratio,
+            costAllocation,
+            note: input.note?.trim() || null,
+        },
+    });
+    return toCorporateAction(row);
+}
+
+/**
+ * Delete a corporate action. Returns false when it doesn't exist.
+ * Rebuild the lots afterwards.
+ */
+export async function deleteCorporateAction(id: string): Promise<boolean> {
+    const portfolioId = await getClubPortfolioId();
+    const { count } = await prisma.corporateAction.deleteMany({ where: { id, portfolioId } });
+    return count > 0;
+}
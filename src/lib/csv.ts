@@ -0,0 +1,98 @@
+// Quote a CSV field when it contains a delimiter, quote or line break
+function escapeField(value: string | number | null | undefined): string {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCSV(headers: string[], rows: (string | number | null | undefined)[][]): string {
+    return [headers, ...rows].map((row) => row.map(escapeField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Split one CSV line into trimmed fields, honouring quoted commas
+ */
+export function parseCSVLine(line: string): string[] {
+    const result: string[] = [];
+    let current = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (char === "," && !inQuotes) {
+            result.push(current.trim());
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    result.push(current.trim());
+    return result;
+}
+
+/**
+ * Index of the first header containing any of the names, in order of preference
+ */
+export function findColumn(headers: string[], possibleNames: string[]): number {
+    for (const name of possibleNames) {
+        const index = headers.findIndex((h) => h.includes(name));
+        if (index !== -1) return index;
+    }
+    return -1;
+}
+
+export function getValue(values: string[], index: number): string {
+    if (index < 0 || index >= values.length) return "";
+    return values[index].replace(/^"|"$/g, "").trim();
+}
+
+export function parseNumber(value: string): number {
+    if (!value) return 0;
+    // Remove currency symbols, commas, parentheses (for negative)
+    const cleaned = value.replace(/[$,\s]/g, "").replace(/^\((.+)\)$/, "-$1");
+    const num = parseFloat(cleaned);
+    return isNaN(num) ? 0 : num;
+}
+
+// MM/DD/YYYY, optionally followed by Schwab's "as of MM/DD/YYYY"
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(\s|$)/;
+
+/**
+ * Whether parseDate can read a value, rather than falling back to today
+ */
+export function isDate(dateStr: string): boolean {
+    return SLASH_DATE.test(dateStr) || /^\d{4}-\d{2}-\d{2}/.test(dateStr) || !isNaN(new Date(dateStr).getTime());
+}
+
+/**
+ * Parse a broker date (MM/DD/YYYY) to ISO format (YYYY-MM-DD)
+ * Exports use dates like "01/26/2026" which JavaScript doesn't parse reliably
+ */
+export function parseDate(dateStr: string): string {
+    if (!dateStr) return new Date().toISOString();
+
+    // Handle MM/DD/YYYY format
+    const slashMatch = dateStr.match(SLASH_DATE);
+    if (slashMatch) {
+        const [, month, day, year] = slashMatch;
+        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+
+    // Handle YYYY-MM-DD format (already ISO)
+    if (/^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
+        return dateStr;
+    }
+
+    // Try to parse as-is and convert to ISO
+    const parsed = new Date(dateStr);
+    if (!isNaN(parsed.getTime())) {
+        return parsed.toISOString().split('T')[0];
+    }
+
+    // Fallback to current date
+    return new Date().toISOString().split('T')[0];
+}
@@ -0,0 +1,238 @@
+import {
+    Holding,
+    Transaction,
+    DividendPayment,
+    DividendMonth,
+    SymbolDividends,
+    DividendSummary,
+    ExpectedDividend,
+    DividendCalendar,
+} from "./types";
+import { getStockDetails, StockDetails, DividendEvent } from "./market-data";
+import { loadPortfolioData } from "./storage";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+
+const MONTHS_SHOWN = 12;
+const CALENDAR_MONTHS = 3;
+const FREQUENCIES = [12, 4, 2, 1];
+const DAY = 24 * 60 * 60 * 1000;
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+// The last n calendar months up to and including the one asOf falls in
+function lastMonths(asOf: Date, n: number): string[] {
+    return Array.from({ length: n }, (_, i) =>
+        monthKey(new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - (n - 1 - i), 1)))
+    );
+}
+
+// Calendar months later, kept on the same day of the month where it exists
+function addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+const addDays = (date: string, days: number) => new Date(Date.parse(date) + days * DAY).toISOString().slice(0, 10);
+
+// Monthly, quarterly, semi-annual or annual, from the typical gap between
+// ex-dates (newest first)
+function paymentsPerYear(history: DividendEvent[]): number {
+    if (history.length < 2) return 1;
+    const gaps = history.slice(1).map((d, i) => (Date.parse(history[i].exDate) - Date.parse(d.exDate)) / DAY);
+    const typical = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)];
+    const perYear = 365 / typical;
+    return FREQUENCIES.reduce((best, f) => (Math.abs(f - perYear) < Math.abs(best - perYear) ? f : best));
+}
+
+/**
+ * Dividend payments in the history, newest first. A reinvestment shows up as
+ * the cash dividend plus a second, negative dividend row that buys shares on
+ * the same day; the two are folded into one payment.
+ */
+export function collectDividendPayments(transactions: Transaction[]): DividendPayment[] {
+    const reinvestments = transactions.filter((t) => t.action === "DIVIDEND" && t.amount < 0 && t.quantity > 0);
+    const used = new Set<Transaction>();
+
+    return transactions
+        .filter((t) => t.action === "DIVIDEND" && t.amount > 0 && t.symbol && t.symbol !== "--")
+        .map((t) => {
+            const symbol = t.symbol.toUpperCase();
+            const reinvestment = reinvestments.find((r) =>
+                !used.has(r) && r.symbol.toUpperCase() === symbol && r.date.slice(0, 10) === t.date.slice(0, 10)
+            );
+            if (reinvestment) used.add(reinvestment);
+            return { date: t.date, symbol, amount: t.amount, reinvestedShares: reinvestment?.quantity ?? 0 };
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Dividend income by symbol and by month, with yield on cost from the current
+ * holdings and current yield from quoted yields (fractions, by symbol)
+ */
+export function buildDividendSummary(
+    transactions: Transaction[],
+    holdings: Holding[],
+    quotedYields: Map<string, number>,
+    asOf: Date = new Date()
+): DividendSummary {
+    const payments = collectDividendPayments(transactions);
+    const yearAgo = new Date(Date.UTC(asOf.getUTCFullYear() - 1, asOf.getUTCMonth(), asOf.getUTCDate())).toISOString();
+    const yearStart = `${asOf.getUTCFullYear()}-01-01`;
+    const inTTM = (p: DividendPayment) => p.date > yearAgo;
+    const inYTD = (p: DividendPayment) => p.date >= yearStart;
+    const sum = (list: DividendPayment[]) => list.reduce((total, p) => total + p.amount, 0);
+    const reinvestedIn = (list: DividendPayment[]) => sum(list.filter((p) => p.reinvestedShares > 0));
+
+    const held = new Map<string, { quantity: number; costBasis: number; marketValue: number }>();
+    for (const h of holdings) {
+        const symbol = h.symbol.toUpperCase();
+        const position = held.get(symbol) ?? { quantity: 0, costBasis: 0, marketValue: 0 };
+        position.quantity += h.quantity;
+        position.costBasis += h.quantity * h.costPerShare;
+        position.marketValue += h.marketValue;
+        held.set(symbol, position);
+    }
+
+    const bySymbol = new Map<string, DividendPayment[]>();
+    for (const p of payments) {
+        bySymbol.set(p.symbol, [...(bySymbol.get(p.symbol) ?? []), p]);
+    }
+
+    const symbols: SymbolDividends[] = [...bySymbol.entries()]
+        .map(([symbol, list]) => {
+            const position = held.get(symbol);
+            const ttm = sum(list.filter(inTTM));
+            return {
+                symbol,
+                total: sum(list),
+                ttm,
+                ytd: sum(list.filter(inYTD)),
+                reinvested: reinvestedIn(list),
+                quantity: position?.quantity ?? 0,
+                costBasis: position?.costBasis ?? 0,
+                yieldOnCost: position && position.costBasis > 0 ? ttm / position.costBasis : null,
+                currentYield: quotedYields.get(symbol) ?? null,
+                payments: list,
+            };
+        })
+        .sort((a, b) => b.ttm - a.ttm || b.total - a.total);
+
+    const months: DividendMonth[] = lastMonths(asOf, MONTHS_SHOWN).map((month) => {
+        const inMonth = payments.filter((p) => p.date.slice(0, 7) === month);
+        const reinvested = reinvestedIn(inMonth);
+        return { month, cash: sum(inMonth) - reinvested, reinvested };
+    });
+
+    const ttm = sum(payments.filter(inTTM));
+    const costBasis = [...held.values()].reduce((total, p) => total + p.costBasis, 0);
+    const marketValue = [...held.values()].reduce((total, p) => total + p.marketValue, 0);
+
+    return {
+        asOf: asOf.toISOString(),
+        total: sum(payments),
+        ttm,
+        ytd: sum(payments.filter(inYTD)),
+        reinvested: reinvestedIn(payments),
+        yieldOnCost: costBasis > 0 ? ttm / costBasis : null,
+        currentYield: marketValue > 0 ? ttm / marketValue : null,
+        months,
+        symbols,
+    };
+}
+
+/**
+ * Expected dividends on the current holdings from each stock's announced
+ * ex-date and dividend history (by symbol). Stocks that have missed two
+ * payments in a row are left out.
+ */
+export function buildDividendCalendar(
+    holdings: Holding[],
+    details: Map<string, StockDetails>,
+    asOf: Date = new Date()
+): DividendCalendar {
+    const today = asOf.toISOString().slice(0, 10);
+    const through = addMonths(today, CALENDAR_MONTHS);
+
+    const shares = new Map<string, number>();
+    for (const h of holdings) {
+        const symbol = h.symbol.toUpperCase();
+        shares.set(symbol, (shares.get(symbol) ?? 0) + h.quantity);
+    }
+
+    const dividends: ExpectedDividend[] = [];
+    for (const [symbol, quantity] of shares) {
+        const stock = details.get(symbol);
+        const history = stock?.dividendHistory ?? [];
+        if (!stock || quantity <= 0 || history.length === 0) continue;
+
+        const perYear = paymentsPerYear(history);
+        const step = 12 / perYear;
+        if (addMonths(history[0].exDate, 2 * step) < today) continue;
+
+        // The lag from ex-date to payment, when the announced dates show it
+        const { exDividendDate, dividendPayDate } = stock;
+        const lag = exDividendDate && dividendPayDate && dividendPayDate >= exDividendDate
+            ? Math.round((Date.parse(dividendPayDate) - Date.parse(exDividendDate)) / DAY)
+            : null;
+
+        const announced = exDividendDate && exDividendDate >= today ? exDividendDate : null;
+        const base = announced ?? history[0].exDate;
+        const amountPerShare = history[0].amount;
+
+        for (let i = 0; ; i++) {
+            const exDate = addMonths(base, i * step);
+            if (exDate > through) break;
+            if (exDate < today) continue;
+
+            const declared = announced !== null && i === 0;
+            dividends.push({
+                symbol,
+                exDate,
+                payDate: declared && dividendPayDate ? dividendPayDate : lag !== null ? addDays(exDate, lag) : null,
+                amountPerShare,
+                shares: quantity,
+                amount: quantity * amountPerShare,
+                declared,
+                paymentsPerYear: perYear,
+            });
+        }
+    }
+
+    dividends.sort((a, b) => a.exDate.localeCompare(b.exDate) || a.symbol.localeCompare(b.symbol));
+
+    return {
+        asOf: asOf.toISOString(),
+        through,
+        total: dividends.reduce((total, d) => total + d.amount, 0),
+        dividends,
+    };
+}
+
+/**
+ * Dividend summary and expected dividends for the club portfolio. Stock
+ * details are looked up for the symbols still held.
+ */
+export async function loadDividends(): Promise<{ summary: DividendSummary; calendar: DividendCalendar }> {
+    const [portfolio, actions] = await Promise.all([loadPortfolioData(), loadCorporateActions()]);
+    const transactions = applyCorporateActions(portfolio.transactions, actions);
+    const held = [...new Set(portfolio.holdings.map((h) => h.symbol.toUpperCase()))];
+
+    const details = new Map<string, StockDetails>();
+    await Promise.all(held.map(async (symbol) => {
+        const stock = await getStockDetails(symbol);
+        if (stock) details.set(symbol, stock);
+    }));
+
+    const paying = new Set(collectDividendPayments(transactions).map((p) => p.symbol));
+    const quotedYields = new Map<string, number>();
+    for (const [symbol, stock] of details) {
+        if (paying.has(symbol) && stock.dividendYield != null) quotedYields.set(symbol, stock.dividendYield);
+    }
+
+    return {
+        summary: buildDividendSummary(transactions, portfolio.holdings, quotedYields),
+        calendar: buildDividendCalendar(portfolio.holdings, details),
+    };
+}
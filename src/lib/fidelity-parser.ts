@@ -0,0 +1,176 @@
+import { Holding, Transaction, ImportKind, ParseResult } from "./types";
+import { parseCSVLine, findColumn, getValue, parseDate } from "./csv";
+import { emptyResult, skipRow, warnRow, numberField, addTransaction } from "./parse-report";
+
+// First match wins, so "REINVESTMENT" is checked before "DIVIDEND"
+const ACTIONS: [string, Transaction["action"]][] = [
+    ["you bought", "BUY"],
+    ["you sold", "SELL"],
+    ["reinvestment", "DIVIDEND"],
+    ["dividend", "DIVIDEND"],
+    ["transfer received", "DEPOSIT"],
+    ["transferred from", "DEPOSIT"],
+    ["contribution", "DEPOSIT"],
+    ["transfer paid", "WITHDRAWAL"],
+    ["transferred to", "WITHDRAWAL"],
+    ["withdrawal", "WITHDRAWAL"],
+];
+
+const DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
+
+function findHeader(lines: string[], required: string[]): number {
+    return lines.findIndex((line) => {
+        const lower = line.toLowerCase();
+        return required.every((name) => lower.includes(name));
+    });
+}
+
+/**
+ * Parse a Fidelity Portfolio Positions CSV export
+ * Expected columns: Account Number, Symbol, Description, Quantity, Last Price,
+ * Current Value, Total Gain/Loss Dollar, Total Gain/Loss Percent, Cost Basis Total, Average Cost Basis
+ */
+export function parseFidelityPositionsCSV(csvContent: string): ParseResult<Holding> {
+    const result = emptyResult<Holding>();
+    const lines = csvContent.trimEnd().split("\n");
+    const headerIndex = findHeader(lines, ["symbol", "quantity", "current value"]);
+    if (headerIndex === -1) return result;
+
+    const headers = parseCSVLine(lines[headerIndex]).map((h) => h.toLowerCase().trim());
+
+    const symbolCol = findColumn(headers, ["symbol"]);
+    const nameCol = findColumn(headers, ["description"]);
+    const quantityCol = findColumn(headers, ["quantity"]);
+    const priceCol = findColumn(headers, ["last price"]);
+    const marketValueCol = findColumn(headers, ["current value"]);
+    const costBasisCol = findColumn(headers, ["cost basis total"]);
+    const costPerShareCol = findColumn(headers, ["average cost basis"]);
+    const gainLossCol = findColumn(headers, ["total gain/loss dollar"]);
+    const gainLossPctCol = findColumn(headers, ["total gain/loss percent"]);
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        const row = i + 1;
+        const line = lines[i].trim();
+        if (!line) continue;
+
+        const values = parseCSVLine(line);
+        const symbol = getValue(values, symbolCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
+
+        // The export ends with disclaimer paragraphs, one field each
+        if (values.length === 1) continue;
+        if (!symbol) {
+            skipRow(result, row, "No symbol", line);
+            continue;
+        }
+        // Money market sweep funds are flagged with ** and are cash, not holdings
+        if (symbol.endsWith("**")) {
+            skipRow(result, row, "Money market sweep (cash), not a holding", line);
+            continue;
+        }
+        if (symbol.toLowerCase().includes("pending")) {
+            skipRow(result, row, "Pending activity", line);
+            continue;
+        }
+
+        const quantity = number(quantityCol, "Quantity");
+        if (quantity <= 0) {
+            skipRow(result, row, "No shares held", line);
+            continue;
+        }
+
+        const currentPrice = number(priceCol, "Last price");
+        let marketValue = number(marketValueCol, "Current value");
+        if (!marketValue && currentPrice) {
+            marketValue = quantity * currentPrice;
+            warnRow(result, row, "Current value missing; derived from quantity × price");
+        }
+        const costBasis = number(costBasisCol, "Cost basis total");
+        const costPerShare = number(costPerShareCol, "Average cost basis") || costBasis / quantity;
+        if (!costPerShare) {
+            warnRow(result, row, "Cost basis missing; gain/loss can't be calculated");
+        }
+
+        result.rows.push({
+            symbol: symbol.toUpperCase(),
+            name: getValue(values, nameCol) || symbol,
+            quantity,
+            costPerShare,
+            currentPrice,
+            marketValue,
+            gainLoss: number(gainLossCol, "Total gain/loss") || marketValue - costBasis,
+            gainLossPercent: number(gainLossPctCol, "Total gain/loss %") || (costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0),
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Parse a Fidelity Accounts History CSV export
+ * Expected columns: Run Date, Action, Symbol, Description, Quantity, Price ($),
+ * Commission ($), Fees ($), Amount ($)
+ */
+export function parseFidelityTransactionsCSV(csvContent: string): ParseResult<Transaction> {
+    const result = emptyResult<Transaction>();
+    const lines = csvContent.trimEnd().split("\n");
+    const headerIndex = findHeader(lines, ["run date", "action"]);
+    if (headerIndex === -1) return result;
+
+    const headers = parseCSVLine(lines[headerIndex]).map((h) => h.toLowerCase().trim());
+
+    const dateCol = findColumn(headers, ["run date"]);
+    const actionCol = findColumn(headers, ["action"]);
+    const symbolCol = findColumn(headers, ["symbol"]);
+    const descCol = findColumn(headers, ["description"]);
+    const quantityCol = findColumn(headers, ["quantity"]);
+    const priceCol = findColumn(headers, ["price"]);
+    const commissionCol = findColumn(headers, ["commission"]);
+    const feesCol = findColumn(headers, ["fees"]);
+    const amountCol = findColumn(headers, ["amount"]);
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        const row = i + 1;
+        const line = lines[i].trim();
+        if (!line) continue;
+
+        const values = parseCSVLine(line);
+        const date = getValue(values, dateCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
+
+        // The export ends with disclaimer paragraphs rather than rows
+        if (values.length === 1) continue;
+        if (!DATE_PATTERN.test(date)) {
+            skipRow(result, row, date ? `Date "${date}" not recognized` : "No date", line);
+            continue;
+        }
+
+        const actionRaw = getValue(values, actionCol);
+        const action = ACTIONS.find(([text]) => actionRaw.toLowerCase().includes(text))?.[1] ?? "OTHER";
+
+        addTransaction(result, row, {
+            date: parseDate(date),
+            action,
+            symbol: getValue(values, symbolCol).toUpperCase() || "--",
+            description: getValue(values, descCol) || actionRaw,
+            quantity: Math.abs(number(quantityCol, "Quantity")),
+            price: number(priceCol, "Price"),
+            fees: number(commissionCol, "Commission") + number(feesCol, "Fees"),
+            amount: number(amountCol, "Amount"),
+        }, actionRaw, line);
+    }
+
+    return result;
+}
+
+/**
+ * How likely a file is a Fidelity export, from 0 to 1
+ */
+export function detectFidelity(content: string, _filename: string, kind: ImportKind): number {
+    const lines = content.slice(0, 4000).split("\n");
+
+    if (kind === "positions") {
+        return findHeader(lines, ["account number", "last price", "current value"]) !== -1 ? 0.9 : 0;
+    }
+    return findHeader(lines, ["run date", "action"]) !== -1 ? 0.9 : 0;
+}
@@ -0,0 +1,207 @@
+/**
+ * Finnhub backend. Needs FINNHUB_API_KEY; candles and dividends need a paid
+ * plan. Requests are budgeted to FINNHUB_CALLS_PER_MINUTE (default 60, the
+ * free plan's limit).
+ */
+
+import {
+    MarketDataProvider,
+    StockQuote,
+    StockDetails,
+    StockCandle,
+    DividendEvent,
+    SymbolSearchResult,
+    fetchJSON,
+    quoteEach,
+    rangeStart,
+} from "./market-data-provider";
+import { TokenBucket } from "./rate-limiter";
+
+interface FinnhubQuote {
+    c?: number;     // current
+    d?: number;     // change
+    dp?: number;    // change percent
+    h?: number;
+    l?: number;
+    o?: number;
+    pc?: number;    // previous close
+    t?: number;     // epoch seconds
+}
+
+interface FinnhubSearch {
+    result?: { symbol?: string; description?: string; type?: string }[];
+}
+
+interface FinnhubProfile {
+    name?: string;
+    finnhubIndustry?: string;
+    weburl?: string;
+    marketCapitalization?: number;  // millions
+}
+
+interface FinnhubMetrics {
+    metric?: Record<string, number | undefined>;
+}
+
+interface FinnhubRecommendation {
+    strongBuy?: number;
+    buy?: number;
+    hold?: number;
+    sell?: number;
+    strongSell?: number;
+}
+
+interface FinnhubCandles {
+    s?: string;     // "ok" or "no_data"
+    t?: number[];
+    o?: number[];
+    h?: number[];
+    l?: number[];
+    c?: number[];
+    v?: number[];
+}
+
+interface FinnhubDividend {
+    date?: string;      // ex-date
+    amount?: number;
+}
+
+const BASE_URL = "https://finnhub.io/api/v1";
+const budget = new TokenBucket(Number(process.env.FINNHUB_CALLS_PER_MINUTE) || 60, 60 * 1000);
+
+const toISODate = (date: Date) => date.toISOString().split("T")[0];
+
+function get<T>(path: string, params: Record<string, string>, revalidate = 300): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    return fetchJSON<T>("Finnhub", `${BASE_URL}${path}?${query}`, {
+        headers: { "X-Finnhub-Token": process.env.FINNHUB_API_KEY ?? "" },
+        next: { revalidate },
+    }, budget);
+}
+
+async function getQuote(symbol: string): Promise<StockQuote | null> {
+    const data = await get<FinnhubQuote>("/quote", { symbol });
+
+    // Unknown symbols come back as all zeros
+    if (!data.c) {
+        return null;
+    }
+
+    const previousClose = data.pc || data.c;
+    return {
+        symbol,
+        currentPrice: data.c,
+        change: data.d ?? data.c - previousClose,
+        changePercent: data.dp ?? 0,
+        high: data.h || data.c,
+        low: data.l || data.c,
+        open: data.o || previousClose,
+        previousClose,
+        timestamp: Date.now(),
+    };
+}
+
+async function search(query: string): Promise<SymbolSearchResult[]> {
+    const data = await get<FinnhubSearch>("/search", { q: query });
+
+    return (data.result ?? [])
+        .filter((r) => r.type === "Common Stock" && r.symbol && r.description)
+        .slice(0, 10)
+        .map((r) => ({
+            symbol: r.symbol!,
+            description: r.description!,
+            type: "EQUITY",
+        }));
+}
+
+async function getDetails(symbol: string): Promise<StockDetails | null> {
+    const [profile, metrics, recommendations] = await Promise.all([
+        get<FinnhubProfile>("/stock/profile2", { symbol }),
+        get<FinnhubMetrics>("/stock/metric", { symbol, metric: "all" }),
+        get<FinnhubRecommendation[]>("/stock/recommendation", { symbol }),
+    ]);
+    if (!profile.name) return null;
+
+    const metric = metrics.metric ?? {};
+    const avgVolume = metric["10DayAverageTradingVolume"];
+    const dividendYield = metric.dividendYieldIndicatedAnnual;
+    const latest = recommendations[0];
+
+    const details: StockDetails = {
+        symbol,
+        longName: profile.name,
+        industry: profile.finnhubIndustry,
+        website: profile.weburl,
+        marketCap: profile.marketCapitalization != null ? profile.marketCapitalization * 1e6 : undefined,
+        trailingPE: metric.peTTM ?? metric.peBasicExclExtraTTM,
+        eps: metric.epsTTM ?? metric.epsBasicExclExtraItemsTTM,
+        dividendYield: dividendYield != null ? dividendYield / 100 : undefined,
+        fiftyTwoWeekHigh: metric["52WeekHigh"],
+        fiftyTwoWeekLow: metric["52WeekLow"],
+        avgVolume: avgVolume != null ? avgVolume * 1e6 : undefined,
+        beta: metric.beta,
+        dividendRate: metric.dividendPerShareAnnual,
+    };
+
+    if (latest) {
+        details.recommendations = {
+            strongBuy: latest.strongBuy ?? 0,
+            buy: latest.buy ?? 0,
+            hold: latest.hold ?? 0,
+            sell: latest.sell ?? 0,
+            strongSell: latest.strongSell ?? 0,
+        };
+    }
+
+    return details;
+}
+
+async function getCandles(symbol: string, range: string): Promise<StockCandle[]> {
+    const now = new Date();
+    const from = rangeStart(range, now) ?? new Date(Date.UTC(1970, 0, 2));
+    const data = await get<FinnhubCandles>("/stock/candle", {
+        symbol,
+        resolution: "D",
+        from: String(Math.floor(from.getTime() / 1000)),
+        to: String(Math.floor(now.getTime() / 1000)),
+    });
+
+    if (data.s !== "ok" || !data.t) {
+        return [];
+    }
+
+    return data.t
+        .map((ts, i) => ({
+            date: toISODate(new Date(ts * 1000)),
+            open: data.o?.[i] ?? 0,
+            high: data.h?.[i] ?? 0,
+            low: data.l?.[i] ?? 0,
+            close: data.c?.[i] ?? 0,
+            volume: data.v?.[i] ?? 0,
+        }))
+        .filter((c) => c.close > 0);
+}
+
+// The last two years of dividends, newest first
+async function getDividends(symbol: string): Promise<DividendEvent[]> {
+    const now = new Date();
+    const from = new Date(Date.UTC(now.getUTCFullYear() - 2, now.getUTCMonth(), now.getUTCDate()));
+    const data = await get<FinnhubDividend[]>("/stock/dividend", { symbol, from: toISODate(from), to: toISODate(now) }, 3600);
+
+    return data
+        .filter((d) => d.date && d.amount)
+        .map((d) => ({ exDate: d.date!, amount: d.amount! }))
+        .sort((a, b) => b.exDate.localeCompare(a.exDate));
+}
+
+export const finnhubProvider: MarketDataProvider = {
+    id: "finnhub",
+    name: "Finnhub",
+    isConfigured: () => !!process.env.FINNHUB_API_KEY,
+    getQuote,
+    getQuotes: (symbols) => quoteEach(finnhubProvider, symbols),
+    search,
+    getDetails,
+    getCandles,
+    getDividends,
+};
@@ -0,0 +1,117 @@
+/**
+ * Local fixture-file backend, for development and demos without network
+ * access. MARKET_DATA_FIXTURE_FILE points at a JSON file shaped like
+ * MarketDataFixture; any section can be left out. fixtures/market-data.json
+ * has quotes for the club's holdings and the suggested benchmarks, with
+ * details and dividends for a few of them; the random walk fills in the rest.
+ * A quoted symbol without candles gets the random walk scaled to end at its
+ * quote, so charts and returns line up with the prices shown.
+ */
+
+import { readFile, stat } from "fs/promises";
+import {
+    MarketDataProvider,
+    MarketDataError,
+    StockQuote,
+    StockDetails,
+    StockCandle,
+    DividendEvent,
+    SymbolSearchResult,
+    quoteEach,
+    rangeStart,
+} from "./market-data-provider";
+import { randomWalkProvider } from "./random-walk-provider";
+
+// Keyed by symbol. Quotes need only currentPrice and previousClose.
+export interface MarketDataFixture {
+    quotes?: Record<string, Partial<StockQuote> & { currentPrice: number }>;
+    details?: Record<string, Omit<StockDetails, "symbol">>;
+    candles?: Record<string, StockCandle[]>;
+    dividends?: Record<string, DividendEvent[]>;
+    symbols?: SymbolSearchResult[];
+}
+
+// The parsed file, reread when it changes
+let loaded: { path: string; modified: number; fixture: MarketDataFixture } | null = null;
+
+async function loadFixture(): Promise<MarketDataFixture> {
+    const path = process.env.MARKET_DATA_FIXTURE_FILE;
+    if (!path) throw new MarketDataError("MARKET_DATA_FIXTURE_FILE is not set");
+
+    const modified = (await stat(path)).mtimeMs;
+    if (loaded?.path !== path || loaded.modified !== modified) {
+        loaded = { path, modified, fixture: JSON.parse(await readFile(path, "utf8")) };
+    }
+    return loaded.fixture;
+}
+
+async function getQuote(symbol: string): Promise<StockQuote | null> {
+    const quote = (await loadFixture()).quotes?.[symbol.toUpperCase()];
+    if (!quote) return null;
+
+    const currentPrice = quote.currentPrice;
+    const previousClose = quote.previousClose ?? currentPrice;
+    const change = currentPrice - previousClose;
+
+    return {
+        symbol,
+        currentPrice,
+        change,
+        changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+        high: quote.high ?? Math.max(currentPrice, previousClose),
+        low: quote.low ?? Math.min(currentPrice, previousClose),
+        open: quote.open ?? previousClose,
+        previousClose,
+        timestamp: quote.timestamp ?? Date.now(),
+    };
+}
+
+async function search(query: string): Promise<SymbolSearchResult[]> {
+    const q = query.trim().toLowerCase();
+    return ((await loadFixture()).symbols ?? [])
+        .filter((s) => s.symbol.toLowerCase().startsWith(q) || s.description.toLowerCase().includes(q))
+        .slice(0, 10);
+}
+
+async function getDetails(symbol: string): Promise<StockDetails | null> {
+    const details = (await loadFixture()).details?.[symbol.toUpperCase()];
+    return details ? { ...details, symbol } : null;
+}
+
+async function getCandles(symbol: string, range: string): Promise<StockCandle[]> {
+    const fixture = await loadFixture();
+    const candles = fixture.candles?.[symbol.toUpperCase()];
+    const quote = fixture.quotes?.[symbol.toUpperCase()];
+    if (!candles && quote) return anchoredWalk(symbol, range, quote.currentPrice);
+
+    const start = rangeStart(range);
+    const from = start ? start.toISOString().split("T")[0] : "";
+    return (candles ?? []).filter((c) => c.date >= from).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The random walk for a symbol, scaled so the last close is the given price
+async function anchoredWalk(symbol: string, range: string, lastClose: number): Promise<StockCandle[]> {
+    const walk = await randomWalkProvider.getCandles(symbol, range);
+    if (walk.length === 0) return [];
+
+    const scale = lastClose / walk[walk.length - 1].close;
+    const price = (value: number) => Number((value * scale).toFixed(2));
+    return walk.map((c) => ({ ...c, open: price(c.open), high: price(c.high), low: price(c.low), close: price(c.close) }));
+}
+
+async function getDividends(symbol: string): Promise<DividendEvent[]> {
+    const dividends = (await loadFixture()).dividends?.[symbol.toUpperCase()] ?? [];
+    return [...dividends].sort((a, b) => b.exDate.localeCompare(a.exDate));
+}
+
+export const fixtureProvider: MarketDataProvider = {
+    id: "fixture",
+    name: "Fixture file",
+    isConfigured: () => !!process.env.MARKET_DATA_FIXTURE_FILE,
+    getQuote,
+    getQuotes: (symbols) => quoteEach(fixtureProvider, symbols),
+    search,
+    getDetails,
+    getCandles,
+    getDividends,
+};
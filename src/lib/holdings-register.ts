@@ -0,0 +1,293 @@
+import { DividendPayment, RegisterHolding } from "./types";
+import { prisma } from "./prisma";
+import { companyNames, staticHoldings } from "./dfdii-data";
+import { loadPortfolioData } from "./storage";
+import { collectDividendPayments } from "./dividends";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+import type {
+    Prisma,
+    RegisterHolding as HoldingRow,
+    RegisterLot as LotRow,
+    RegisterDividend as DividendRow,
+} from "@prisma/client";
+
+export class RegisterError extends Error {}
+
+type HoldingWithHistory = HoldingRow & { lots: LotRow[]; dividends: DividendRow[] };
+
+/**
+ * Whole months between a purchase date and today (or another date)
+ */
+export function calculateMonthsHeld(purchaseDate: Date, asOf: Date = new Date()): number {
+    let months = (asOf.getUTCFullYear() - purchaseDate.getUTCFullYear()) * 12 + (asOf.getUTCMonth() - purchaseDate.getUTCMonth());
+    if (asOf.getUTCDate() < purchaseDate.getUTCDate()) months--;
+    return Math.max(months, 0);
+}
+
+// Dividend payments in the club's transaction history, by symbol, newest first
+async function loadTransactionDividends(): Promise<Map<string, DividendPayment[]>> {
+    const [portfolio, actions] = await Promise.all([loadPortfolioData(), loadCorporateActions()]);
+    const bySymbol = new Map<string, DividendPayment[]>();
+    for (const p of collectDividendPayments(applyCorporateActions(portfolio.transactions, actions))) {
+        bySymbol.set(p.symbol, [...(bySymbol.get(p.symbol) ?? []), p]);
+    }
+    return bySymbol;
+}
+
+// Dividends come from the transaction history from its first payment on, so
+// imports and the register don't count the same payment twice. Register
+// entries before that, and the undated sheet totals, cover the years the
+// history doesn't reach; with no history for the symbol the register is all.
+function toRegisterHolding(row: HoldingWithHistory, asOf: Date = new Date(), paid: DividendPayment[] = []): RegisterHolding {
+    const lots = [...row.lots].sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime());
+    // Undated totals from the holdings sheet predate everything recorded since
+    const dividends = [...row.dividends].sort((a, b) => (b.paidDate?.getTime() ?? 0) - (a.paidDate?.getTime() ?? 0));
+
+    const historyStart = paid.length > 0 ? paid[paid.length - 1].date.slice(0, 10) : null;
+    const beforeHistory = dividends.filter((d) =>
+        historyStart === null || d.paidDate === null || d.paidDate.toISOString().slice(0, 10) < historyStart
+    );
+    const year = String(asOf.getUTCFullYear());
+
+    const qty = lots.reduce((sum, l) => sum + l.quantity, 0);
+    const costBasis = lots.reduce((sum, l) => sum + l.costBasis, 0);
+    const firstPurchase = lots[0]?.purchaseDate ?? null;
+
+    return {
+        id: row.id,
+        symbol: row.symbol,
+        name: row.name,
+        qty,
+        price: qty > 0 ? lots.reduce((sum, l) => sum + l.quantity * l.price, 0) / qty : 0,
+        date: firstPurchase ? firstPurchase.toISOString() : "",
+        costBasis,
+        dividends: beforeHistory.reduce((sum, d) => sum + d.amount, 0) + paid.reduce((sum, p) => sum + p.amount, 0),
+        divYTD: beforeHistory
+            .filter((d) => d.paidDate !== null && d.paidDate.getUTCFullYear() === asOf.getUTCFullYear())
+            .reduce((sum, d) => sum + d.amount, 0)
+            + paid.filter((p) => p.date.startsWith(year)).reduce((sum, p) => sum + p.amount, 0),
+        monthsHeld: firstPurchase ? calculateMonthsHeld(firstPurchase, asOf) : 0,
+        lots: lots.map((l) => ({
+            id: l.id,
+            quantity: l.quantity,
+            price: l.price,
+            costBasis: l.costBasis,
+            purchaseDate: l.purchaseDate.toISOString(),
+        })),
+        dividendPayments: dividends.map((d) => ({
+            id: d.id,
+            amount: d.amount,
+            paidDate: d.paidDate?.toISOString() ?? null,
+            note: d.note,
+        })),
+    };
+}
+
+// Dates are stored as midnight UTC; the sheet writes them M/D/YYYY
+function parseDate(value: string): Date {
+    const sheetDate = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = sheetDate
+        ? new Date(Date.UTC(Number(sheetDate[3]), Number(sheetDate[1]) - 1, Number(sheetDate[2])))
+        : new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new RegisterError("Invalid date");
+    }
+    return date;
+}
+
+// Find the holding for a symbol, creating it on the first lot
+async function findOrCreateHolding(
+    db: Prisma.TransactionClient,
+    symbol: string,
+    name?: string
+): Promise<HoldingRow> {
+    const existing = await db.registerHolding.findUnique({ where: { symbol } });
+    if (existing) {
+        return name && name !== existing.name
+            ? db.registerHolding.update({ where: { id: existing.id }, data: { name } })
+            : existing;
+    }
+
+    return db.registerHolding.create({
+        data: { symbol, name: name || companyNames[symbol] || symbol },
+    });
+}
+
+/**
+ * Load every holding in the register with its lots and dividends. Dividend
+ * totals take in the club's dividend transactions as well as the register's.
+ */
+export async function loadRegister(): Promise<RegisterHolding[]> {
+    const [rows, paid] = await Promise.all([
+        prisma.registerHolding.findMany({
+            include: { lots: true, dividends: true },
+            orderBy: { symbol: "asc" },
+        }),
+        loadTransactionDividends(),
+    ]);
+
+    const now = new Date();
+    return rows.map((row: HoldingWithHistory) => toRegisterHolding(row, now, paid.get(row.symbol)));
+}
+
+/**
+ * Fill an empty register from the original holdings sheet. Each row becomes
+ * one lot, and the sheet's dividend total becomes a single undated dividend
+ * entry: the sheet doesn't say when it was paid, so it counts towards
+ * lifetime dividends but never towards year to date.
+ */
+export async function seedRegisterFromSheet(): Promise<number> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        if ((await tx.registerHolding.count()) > 0) {
+            throw new RegisterError("The register already has holdings");
+        }
+
+        for (const row of staticHoldings) {
+            await tx.registerHolding.create({
+                data: {
+                    symbol: row.symbol,
+                    name: companyNames[row.symbol] || row.symbol,
+                    lots: {
+                        create: {
+                            quantity: row.qty,
+                            price: row.price,
+                            costBasis: row.costBasis,
+                            purchaseDate: parseDate(row.date),
+                        },
+                    },
+                    dividends: row.dividends > 0
+                        ? {
+                            create: {
+                                amount: row.dividends,
+                                note: "Dividends to date from the holdings sheet",
+                            },
+                        }
+                        : undefined,
+                },
+            });
+        }
+
+        return staticHoldings.length;
+    });
+}
+
+/**
+ * Record a purchase lot. Cost basis defaults to quantity times price.
+ */
+export async function addLot(input: {
+    symbol: string;
+    name?: string;
+    quantity: number;
+    price: number;
+    costBasis?: number;
+    purchaseDate: string;
+}): Promise<void> {
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!symbol) throw new RegisterError("Symbol is required");
+    if (!(input.quantity > 0)) throw new RegisterError("Quantity must be greater than zero");
+    if (!(input.price > 0)) throw new RegisterError("Price must be greater than zero");
+    if (input.costBasis !== undefined && !(input.costBasis > 0)) {
+        throw new RegisterError("Cost basis must be greater than zero");
+    }
+
+    const purchaseDate = parseDate(input.purchaseDate);
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const holding = await findOrCreateHolding(tx, symbol, input.name?.trim());
+        await tx.registerLot.create({
+            data: {
+                holdingId: holding.id,
+                quantity: input.quantity,
+                price: input.price,
+                costBasis: input.costBasis ?? input.quantity * input.price,
+                purchaseDate,
+            },
+        });
+    });
+}
+
+/**
+ * Edit a lot, e.g. to correct its cost basis
+ */
+export async function updateLot(
+    lotId: string,
+    changes: { quantity?: number; price?: number; costBasis?: number; purchaseDate?: string }
+): Promise<boolean> {
+    if (changes.quantity !== undefined && !(changes.quantity > 0)) {
+        throw new RegisterError("Quantity must be greater than zero");
+    }
+    if (changes.price !== undefined && !(changes.price > 0)) {
+        throw new RegisterError("Price must be greater than zero");
+    }
+    if (changes.costBasis !== undefined && !(changes.costBasis > 0)) {
+        throw new RegisterError("Cost basis must be greater than zero");
+    }
+
+    const lot = await prisma.registerLot.findUnique({ where: { id: lotId }, select: { id: true } });
+    if (!lot) return false;
+
+    await prisma.registerLot.update({
+        where: { id: lotId },
+        data: {
+            quantity: changes.quantity,
+            price: changes.price,
+            costBasis: changes.costBasis,
+            purchaseDate: changes.purchaseDate ? parseDate(changes.purchaseDate) : undefined,
+        },
+    });
+    return true;
+}
+
+/**
+ * Remove a lot. A holding left with no lots and no dividends is removed too.
+ */
+export async function deleteLot(lotId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const lot = await tx.registerLot.findUnique({ where: { id: lotId } });
+        if (!lot) return false;
+
+        await tx.registerLot.delete({ where: { id: lotId } });
+
+        const [lots, dividends] = await Promise.all([
+            tx.registerLot.count({ where: { holdingId: lot.holdingId } }),
+            tx.registerDividend.count({ where: { holdingId: lot.holdingId } }),
+        ]);
+        if (lots === 0 && dividends === 0) {
+            await tx.registerHolding.delete({ where: { id: lot.holdingId } });
+        }
+        return true;
+    });
+}
+
+/**
+ * Record a dividend paid on a holding
+ */
+export async function recordDividend(input: {
+    symbol: string;
+    amount: number;
+    paidDate: string;
+    note?: string;
+}): Promise<void> {
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!(input.amount > 0)) throw new RegisterError("Amount must be greater than zero");
+
+    const holding = await prisma.registerHolding.findUnique({ where: { symbol } });
+    if (!holding) throw new RegisterError(`${symbol} is not in the register`);
+
+    await prisma.registerDividend.create({
+        data: {
+            holdingId: holding.id,
+            amount: input.amount,
+            paidDate: parseDate(input.paidDate),
+            note: input.note || null,
+        },
+    });
+}
+
+/**
+ * Remove a dividend entry
+ */
+export async function deleteDividend(dividendId: string): Promise<boolean> {
+    const result = await prisma.registerDividend.deleteMany({ where: { id: dividendId } });
+    return result.count > 0;
+}
@@ -0,0 +1,118 @@
+import { ImportBatchSummary, ImportBatchDetail } from "./types";
+import { prisma } from "./prisma";
+import { getClubPortfolioId, refreshPortfolioTotals, toHolding, toTransaction } from "./storage";
+import type { Prisma, ImportBatch } from "@prisma/client";
+
+type BatchWithUploader = ImportBatch & { uploadedBy: { name: string } | null };
+
+function toBatchSummary(batch: BatchWithUploader, currentPositionsBatchId: string | null): ImportBatchSummary {
+    return {
+        id: batch.id,
+        uploadedBy: batch.uploadedBy?.name ?? null,
+        createdAt: batch.createdAt.toISOString(),
+        positionsFile: batch.positionsFile,
+        transactionsFile: batch.transactionsFile,
+        parser: batch.parser,
+        holdingsCount: batch.holdingsCount,
+        transactionsAdded: batch.transactionsAdded,
+        duplicatesSkipped: batch.duplicatesSkipped,
+        conflicts: batch.conflicts,
+        isCurrentPositions: batch.id === currentPositionsBatchId,
+    };
+}
+
+async function getCurrentPositionsBatchId(portfolioId: string): Promise<string | null> {
+    const batch = await prisma.importBatch.findFirst({
+        where: { portfolioId, holdingsCount: { gt: 0 } },
+        orderBy: { createdAt: "desc" },
+        select: { id: true },
+    });
+    return batch?.id ?? null;
+}
+
+/**
+ * List every upload to the club portfolio, newest first
+ */
+export async function listImportBatches(): Promise<ImportBatchSummary[]> {
+    const portfolioId = await getClubPortfolioId();
+    const [batches, currentId] = await Promise.all([
+        prisma.importBatch.findMany({
+            where: { portfolioId },
+            include: { uploadedBy: { select: { name: true } } },
+            orderBy: { createdAt: "desc" },
+        }),
+        getCurrentPositionsBatchId(portfolioId),
+    ]);
+
+    return batches.map((b: BatchWithUploader) => toBatchSummary(b, currentId));
+}
+
+/**
+ * Load one upload with the holdings and transactions it created
+ */
+export async function loadImportBatch(batchId: string): Promise<ImportBatchDetail | null> {
+    const portfolioId = await getClubPortfolioId();
+    const batch = await prisma.importBatch.findFirst({
+        where: { id: batchId, portfolioId },
+        include: {
+            uploadedBy: { select: { name: true } },
+            holdings: { orderBy: { symbol: "asc" } },
+            transactions: { orderBy: { date: "desc" } },
+        },
+    });
+
+    if (!batch) return null;
+
+    const currentId = await getCurrentPositionsBatchId(portfolioId);
+
+    return {
+        ...toBatchSummary(batch, currentId),
+        holdings: batch.holdings.map(toHolding),
+        transactions: batch.transactions.map(toTransaction),
+    };
+}
+
+/**
+ * Roll back an upload: delete the holdings and transactions it created.
+ * Transactions a later upload skipped as duplicates stay, passed to the
+ * newest upload that contained them. If it held the current positions, the
+ * previous positions upload becomes current again and the portfolio totals
+ * and cash balance are restored from it.
+ */
+export async function rollbackImportBatch(batchId: string): Promise<boolean> {
+    const portfolioId = await getClubPortfolioId();
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const batch = await tx.importBatch.findFirst({
+            where: { id: batchId, portfolioId },
+            select: { id: true },
+        });
+        if (!batch) return false;
+
+        // Later uploads that also contained one of the batch's rows take it over
+        const matches = await tx.importMatch.findMany({
+            where: { transaction: { importBatchId: batchId } },
+            orderBy: { importBatch: { createdAt: "desc" } },
+        });
+        const handedOver = new Set<string>();
+        for (const match of matches) {
+            if (handedOver.has(match.transactionId)) continue;
+            handedOver.add(match.transactionId);
+
+            await tx.transaction.update({
+                where: { id: match.transactionId },
+                data: { importBatchId: match.importBatchId },
+            });
+            await tx.importMatch.delete({ where: { id: match.id } });
+            await tx.importBatch.update({
+                where: { id: match.importBatchId },
+                data: { transactionsAdded: { increment: 1 }, duplicatesSkipped: { decrement: 1 } },
+            });
+        }
+
+        // Holdings and the remaining transactions cascade with the batch
+        await tx.importBatch.delete({ where: { id: batchId } });
+        await refreshPortfolioTotals(portfolioId, tx);
+        return true;
+    });
+}
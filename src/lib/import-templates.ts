@@ -0,0 +1,73 @@
+import { ImportKind, ImportTemplate, ColumnMapping } from "./types";
+import { prisma } from "./prisma";
+import { MAPPING_FIELDS } from "./column-mapping";
+import type { ImportTemplate as ImportTemplateRow } from "@prisma/client";
+
+export class ImportTemplateError extends Error {}
+
+type TemplateWithCreator = ImportTemplateRow & { createdBy: { name: string } | null };
+
+function toImportTemplate(row: TemplateWithCreator): ImportTemplate {
+    return {
+        id: row.id,
+        name: row.name,
+        kind: row.kind as ImportKind,
+        mapping: row.mapping as ColumnMapping,
+        createdBy: row.createdBy?.name ?? null,
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+/**
+ * Every saved column mapping, by name
+ */
+export async function listImportTemplates(): Promise<ImportTemplate[]> {
+    const rows = await prisma.importTemplate.findMany({
+        include: { createdBy: { select: { name: true } } },
+        orderBy: { name: "asc" },
+    });
+    return rows.map(toImportTemplate);
+}
+
+/**
+ * Save a column mapping under a name, replacing any template of the same
+ * name and kind
+ */
+export async function saveImportTemplate(
+    name: string,
+    kind: ImportKind,
+    mapping: ColumnMapping,
+    userId: string
+): Promise<ImportTemplate> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new ImportTemplateError("Template name is required");
+
+    const fields = MAPPING_FIELDS[kind];
+
+    // Keep only known fields mapped to a column
+    const cleaned: ColumnMapping = {};
+    for (const field of fields) {
+        const column = mapping[field.key];
+        if (typeof column === "string" && column.trim()) cleaned[field.key] = column.trim();
+    }
+    const missing = fields.filter((f) => f.required && !cleaned[f.key]);
+    if (missing.length > 0) {
+        throw new ImportTemplateError(`Map a column for ${missing.map((f) => f.label).join(", ")}`);
+    }
+
+    const row = await prisma.importTemplate.upsert({
+        where: { name_kind: { name: trimmed, kind } },
+        create: { name: trimmed, kind, mapping: cleaned, createdById: userId },
+        update: { mapping: cleaned },
+        include: { createdBy: { select: { name: true } } },
+    });
+    return toImportTemplate(row);
+}
+
+/**
+ * Delete a saved column mapping. Returns false when it doesn't exist.
+ */
+export async function deleteImportTemplate(id: string): Promise<boolean> {
+    const { count } = await prisma.importTemplate.deleteMany({ where: { id } });
+    return count > 0;
+}
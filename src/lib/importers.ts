@@ -0,0 +1,90 @@
+import { Holding, Transaction, ImportKind, ParseResult } from "./types";
+import { detectSchwab, parseSchwabPositions, parseSchwabTransactions } from "./schwab-parser";
+import { detectFidelity, parseFidelityPositionsCSV, parseFidelityTransactionsCSV } from "./fidelity-parser";
+import { detectVanguard, parseVanguardPositionsCSV, parseVanguardTransactionsCSV } from "./vanguard-parser";
+import { detectOFX, parseOFXPositions, parseOFXTransactions } from "./ofx-parser";
+
+export interface Importer {
+    id: string;         // recorded as the import batch's parser
+    name: string;
+    extensions: Record<ImportKind, string[]>;
+    // 0 when the file isn't one of this broker's exports, up to 1 when certain
+    detect: (content: string, filename: string, kind: ImportKind) => number;
+    parsePositions: (content: string, filename: string) => ParseResult<Holding>;
+    parseTransactions: (content: string, filename: string) => ParseResult<Transaction>;
+}
+
+/**
+ * Every broker export the settings page can read. To support another
+ * broker, add a parser module and list it here.
+ */
+export const importers: Importer[] = [
+    {
+        id: "schwab",
+        name: "Charles Schwab",
+        extensions: { positions: [".csv"], transactions: [".csv", ".json"] },
+        detect: detectSchwab,
+        parsePositions: parseSchwabPositions,
+        parseTransactions: parseSchwabTransactions,
+    },
+    {
+        id: "fidelity",
+        name: "Fidelity",
+        extensions: { positions: [".csv"], transactions: [".csv"] },
+        detect: detectFidelity,
+        parsePositions: parseFidelityPositionsCSV,
+        parseTransactions: parseFidelityTransactionsCSV,
+    },
+    {
+        id: "vanguard",
+        name: "Vanguard",
+        extensions: { positions: [".csv"], transactions: [".csv"] },
+        detect: detectVanguard,
+        parsePositions: parseVanguardPositionsCSV,
+        parseTransactions: parseVanguardTransactionsCSV,
+    },
+    {
+        id: "ofx",
+        name: "OFX / QFX",
+        extensions: { positions: [".ofx", ".qfx"], transactions: [".ofx", ".qfx"] },
+        detect: detectOFX,
+        parsePositions: parseOFXPositions,
+        parseTransactions: parseOFXTransactions,
+    },
+];
+
+const extensionOf = (filename: string) => filename.slice(filename.lastIndexOf(".")).toLowerCase();
+
+export function getImporter(id: string): Importer | undefined {
+    return importers.find((i) => i.id === id);
+}
+
+/**
+ * File extensions any importer accepts for one kind of file
+ */
+export function acceptedExtensions(kind: ImportKind): string[] {
+    return [...new Set(importers.flatMap((i) => i.extensions[kind]))];
+}
+
+// Detection scores at or above this are trusted without asking the user
+export const CONFIDENT_SCORE = 0.5;
+
+/**
+ * The importer that best recognizes a file, and how sure it is. Falls back
+ * to Schwab, whose parser copes with most simple CSVs.
+ */
+export function recognizeFile(content: string, filename: string, kind: ImportKind): { importer: Importer; score: number } {
+    let best = importers[0];
+    let bestScore = 0;
+
+    for (const importer of importers) {
+        if (!importer.extensions[kind].includes(extensionOf(filename))) continue;
+        const score = importer.detect(content, filename, kind);
+        if (score > bestScore) {
+            best = importer;
+            bestScore = score;
+        }
+    }
+
+    return { importer: best, score: bestScore };
+}
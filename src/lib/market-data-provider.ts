@@ -0,0 +1,168 @@
+/**
+ * The interface each market data backend implements, and the shapes they
+ * all return
+ */
+
+import { TokenBucket } from "./rate-limiter";
+
+export interface StockQuote {
+    symbol: string;
+    currentPrice: number;
+    change: number;
+    changePercent: number;
+    high: number;
+    low: number;
+    open: number;
+    previousClose: number;
+    timestamp: number;
+}
+
+export interface SymbolSearchResult {
+    symbol: string;
+    description: string;
+    type: string;
+}
+
+export interface DividendEvent {
+    exDate: string;     // ISO date
+    amount: number;     // per share
+}
+
+export interface StockDetails {
+    symbol: string;
+    longName?: string;
+    sector?: string;
+    industry?: string;
+    website?: string;
+    description?: string;
+    marketCap?: number;
+    trailingPE?: number;
+    forwardPE?: number;
+    eps?: number;
+    dividendYield?: number;
+    fiftyTwoWeekHigh?: number;
+    fiftyTwoWeekLow?: number;
+    volume?: number;
+    avgVolume?: number;
+    beta?: number;
+    dividendRate?: number;             // annual, per share
+    exDividendDate?: string;           // the latest announced, ISO date
+    dividendPayDate?: string;
+    dividendHistory?: DividendEvent[]; // newest first
+    recommendations?: {
+        strongBuy: number;
+        buy: number;
+        hold: number;
+        sell: number;
+        strongSell: number;
+    };
+}
+
+export interface StockCandle {
+    date: string;   // ISO date string
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * A ticker as members type it: letters and digits with an optional class
+ * suffix (BRK.B, BF-B), upper-cased
+ */
+export const SYMBOL_PATTERN = /^[A-Z0-9]{1,10}([.-][A-Z0-9]{1,4})?$/;
+
+export class MarketDataError extends Error {
+    constructor(message: string, readonly rateLimited = false, readonly retryAfter?: number) {
+        super(message);
+    }
+}
+
+export interface MarketDataProvider {
+    id: string;         // as listed in MARKET_DATA_PROVIDERS
+    name: string;
+    isConfigured: () => boolean;
+    // Each throws when the backend errors or rate-limits, and returns null or
+    // an empty result when it has nothing for the symbol
+    getQuote: (symbol: string) => Promise<StockQuote | null>;
+    getQuotes: (symbols: string[]) => Promise<Map<string, StockQuote>>;
+    search: (query: string) => Promise<SymbolSearchResult[]>;
+    getDetails: (symbol: string) => Promise<StockDetails | null>;
+    getCandles: (symbol: string, range: string) => Promise<StockCandle[]>;
+    getDividends: (symbol: string) => Promise<DividendEvent[]>;
+}
+
+// Longest a request queues for its provider's budget before failing over
+const MAX_QUEUE_WAIT = 10 * 1000;
+
+/**
+ * Fetch JSON from a provider, queuing for its request budget when it has
+ * one. Rate limiting and other HTTP errors are thrown as MarketDataError so
+ * the caller can fail over, as is a queue longer than MAX_QUEUE_WAIT.
+ */
+export async function fetchJSON<T>(provider: string, url: string, init: RequestInit = {}, budget?: TokenBucket): Promise<T> {
+    if (budget) {
+        const wait = budget.wait();
+        if (wait > MAX_QUEUE_WAIT) {
+            throw new MarketDataError(`${provider} request budget used up`, true, wait);
+        }
+        await budget.take();
+    }
+
+    const response = await fetch(url, init);
+
+    if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("Retry-After"));
+        throw new MarketDataError(`${provider} rate limit reached`, true, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    if (!response.ok) {
+        throw new MarketDataError(`${provider} error: ${response.status}`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Quotes for several symbols one at a time, for backends without a batch
+ * call. A symbol that errors is left out; the first error is thrown only when
+ * every symbol errored.
+ */
+export async function quoteEach(provider: MarketDataProvider, symbols: string[]): Promise<Map<string, StockQuote>> {
+    const results = new Map<string, StockQuote>();
+    const errors: unknown[] = [];
+
+    await Promise.all(symbols.map(async (symbol) => {
+        try {
+            const quote = await provider.getQuote(symbol);
+            if (quote) results.set(symbol, quote);
+        } catch (error) {
+            errors.push(error);
+        }
+    }));
+
+    if (symbols.length > 0 && errors.length === symbols.length) throw errors[0];
+    return results;
+}
+
+/**
+ * The first day a candle range covers: "5D", "1W", "1M", "3M", "6M", "YTD",
+ * "1Y", "2Y", "5Y", "10Y" or "MAX" (null)
+ */
+export function rangeStart(range: string, now: Date = new Date()): Date | null {
+    const monthsBack = (months: number) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, now.getUTCDate()));
+
+    switch (range) {
+        case "5D":
+        case "1W":  return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+        case "3M":  return monthsBack(3);
+        case "6M":  return monthsBack(6);
+        case "YTD": return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+        case "1Y":  return monthsBack(12);
+        case "2Y":  return monthsBack(24);
+        case "5Y":  return monthsBack(60);
+        case "10Y": return monthsBack(120);
+        case "MAX": return null;
+        default:    return monthsBack(1);
+    }
+}
@@ -0,0 +1,290 @@
+/**
+ * Market data for the app: quotes, search, details, candles and dividends
+ * from the configured providers in priority order, failing over to the next
+ * when one errors, rate-limits or has nothing for the symbol.
+ *
+ * MARKET_DATA_PROVIDERS lists provider ids in priority order (default
+ * "yahoo,finnhub"). Providers that aren't configured, such as Finnhub
+ * without FINNHUB_API_KEY, are skipped.
+ *
+ * Quotes are cached in memory and in the database for every instance to
+ * share. Past CACHE_TTL a cached quote is stale: it is still returned, and a
+ * fresh one is fetched in the background, so pages keep their prices while a
+ * provider throttles. While the market is closed, a quote fetched since the
+ * last session closed stays fresh until the next one opens.
+ *
+ * MARKET_DATA_OFFLINE=true uses no network for development, demos and
+ * end-to-end tests: the fixture file when MARKET_DATA_FIXTURE_FILE is set,
+ * then a seeded random walk (MARKET_DATA_SEED) for everything else.
+ */
+
+import { MarketDataProvider, MarketDataError, StockQuote, StockDetails, StockCandle, DividendEvent, SymbolSearchResult } from "./market-data-provider";
+import { yahooProvider } from "./yahoo-provider";
+import { finnhubProvider } from "./finnhub-provider";
+import { fixtureProvider } from "./fixture-provider";
+import { randomWalkProvider } from "./random-walk-provider";
+import { CachedQuote, loadSharedQuotes, saveSharedQuotes, clearSharedQuotes } from "./quote-cache";
+import { getMarketSession, lastSessionClose } from "./trading-calendar";
+import { after } from "next/server";
+
+export type { MarketDataProvider, StockQuote, StockDetails, StockCandle, DividendEvent, SymbolSearchResult };
+
+/**
+ * Every market data backend. To add one, implement MarketDataProvider in its
+ * own module and list it here.
+ */
+export const marketDataProviders: MarketDataProvider[] = [yahooProvider, finnhubProvider, fixtureProvider, randomWalkProvider];
+
+const DEFAULT_PRIORITY = "yahoo,finnhub";
+const OFFLINE_PRIORITY = "fixture,random-walk";
+
+// A provider that rate-limits sits out this long unless it says otherwise
+const RATE_LIMIT_COOLDOWN = 60 * 1000;
+const cooldowns = new Map<string, number>();
+
+// In-memory copy of the shared quote cache (5-minute TTL)
+const priceCache = new Map<string, CachedQuote>();
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Symbols being refreshed in the background
+const refreshing = new Set<string>();
+
+// Dividend history changes a few times a year at most (12-hour TTL)
+const dividendCache = new Map<string, { data: DividendEvent[]; timestamp: number }>();
+const DIVIDEND_CACHE_TTL = 12 * 60 * 60 * 1000;
+
+/**
+ * Whether market data is served offline from fixtures and the random walk
+ */
+export function isMarketDataOffline(): boolean {
+    return ["true", "1"].includes(process.env.MARKET_DATA_OFFLINE?.toLowerCase() ?? "");
+}
+
+/**
+ * The configured providers in priority order
+ */
+export function activeProviders(): MarketDataProvider[] {
+    const priority = isMarketDataOffline() ? OFFLINE_PRIORITY : process.env.MARKET_DATA_PROVIDERS || DEFAULT_PRIORITY;
+    return priority
+        .split(",")
+        .map((id) => marketDataProviders.find((p) => p.id === id.trim().toLowerCase()))
+        .filter((p): p is MarketDataProvider => !!p && p.isConfigured());
+}
+
+// Active providers not cooling off after a rate limit; all of them when
+// every one is
+function readyProviders(): MarketDataProvider[] {
+    const providers = activeProviders();
+    const ready = providers.filter((p) => (cooldowns.get(p.id) ?? 0) <= Date.now());
+    return ready.length > 0 ? ready : providers;
+}
+
+function recordFailure(provider: MarketDataProvider, operation: string, error: unknown): void {
+    if (error instanceof MarketDataError && error.rateLimited) {
+        cooldowns.set(provider.id, Date.now() + (error.retryAfter ?? RATE_LIMIT_COOLDOWN));
+    }
+    console.error(`${provider.name} ${operation} failed:`, error);
+}
+
+// The first provider's answer that passes the check, or null when none has one
+async function withFailover<T>(
+    operation: string,
+    call: (provider: MarketDataProvider) => Promise<T>,
+    answered: (result: T) => boolean
+): Promise<T | null> {
+    for (const provider of readyProviders()) {
+        try {
+            const result = await call(provider);
+            if (answered(result)) return result;
+        } catch (error) {
+            recordFailure(provider, operation, error);
+        }
+    }
+    return null;
+}
+
+/**
+ * Fetch a single stock quote
+ */
+export async function getStockQuote(symbol: string): Promise<StockQuote | null> {
+    const quotes = await getMultipleQuotes([symbol]);
+    return quotes.get(symbol) ?? null;
+}
+
+// Fetch quotes from the providers in priority order, asking each for the
+// symbols the ones before it missed, and cache what comes back
+async function fetchQuotes(symbols: string[]): Promise<Map<string, StockQuote>> {
+    const results = new Map<string, StockQuote>();
+    let pending = symbols;
+
+    for (const provider of readyProviders()) {
+        if (pending.length === 0) break;
+        try {
+            const quotes = await provider.getQuotes(pending);
+            quotes.forEach((quote, symbol) => {
+                results.set(symbol, quote);
+                priceCache.set(symbol, { quote, fetchedAt: Date.now() });
+            });
+            if (quotes.size > 0) {
+                await saveSharedQuotes(quotes, provider.id).catch((error) => {
+                    console.error("Failed to save shared quotes:", error);
+                });
+            }
+        } catch (error) {
+            recordFailure(provider, "quotes", error);
+        }
+        pending = pending.filter((symbol) => !results.has(symbol));
+    }
+
+    if (pending.length > 0) {
+        console.warn(`No quote data for ${pending.join(", ")}`);
+    }
+    return results;
+}
+
+// Run work after the response is sent when there is a request to attach it
+// to (so serverless functions stay alive for it), otherwise just start it
+function inBackground(task: () => Promise<unknown>): void {
+    try {
+        after(task);
+    } catch {
+        task().catch((error) => console.error("Background task failed:", error));
+    }
+}
+
+/**
+ * Fetch multiple stock quotes. Fresh cached quotes are used as they are;
+ * stale ones are returned straight away and refreshed in the background,
+ * unless waitForFresh asks to fetch them first (stale quotes still fill in
+ * for any the providers can't supply).
+ */
+export async function getMultipleQuotes(
+    symbols: string[],
+    { waitForFresh = false }: { waitForFresh?: boolean } = {}
+): Promise<Map<string, StockQuote>> {
+    const results = new Map<string, StockQuote>();
+    const closedSince = getMarketSession() === "CLOSED" ? lastSessionClose().getTime() : null;
+    const isFresh = (entry: CachedQuote) =>
+        Date.now() - entry.fetchedAt < CACHE_TTL || (closedSince !== null && entry.fetchedAt >= closedSince);
+
+    // Memory first, then what other instances have saved
+    const uncached = [...new Set(symbols)].filter((symbol) => {
+        const entry = priceCache.get(symbol);
+        if (entry && isFresh(entry)) results.set(symbol, entry.quote);
+        return !results.has(symbol);
+    });
+    const shared = uncached.length > 0
+        ? await loadSharedQuotes(uncached).catch((error) => {
+            console.error("Failed to load shared quotes:", error);
+            return new Map<string, CachedQuote>();
+        })
+        : new Map<string, CachedQuote>();
+
+    const stale = new Map<string, StockQuote>();
+    const missing: string[] = [];
+    for (const symbol of uncached) {
+        const entry = [priceCache.get(symbol), shared.get(symbol)]
+            .filter((e): e is CachedQuote => !!e)
+            .sort((a, b) => b.fetchedAt - a.fetchedAt)[0];
+
+        if (entry && isFresh(entry)) {
+            priceCache.set(symbol, entry);
+            results.set(symbol, entry.quote);
+        } else if (entry) {
+            stale.set(symbol, entry.quote);
+        } else {
+            missing.push(symbol);
+        }
+    }
+
+    if (waitForFresh) {
+        missing.push(...stale.keys());
+    } else {
+        stale.forEach((quote, symbol) => results.set(symbol, quote));
+        const toRefresh = [...stale.keys()].filter((symbol) => !refreshing.has(symbol));
+        if (toRefresh.length > 0) {
+            toRefresh.forEach((symbol) => refreshing.add(symbol));
+            inBackground(() => fetchQuotes(toRefresh).finally(() => toRefresh.forEach((symbol) => refreshing.delete(symbol))));
+        }
+    }
+
+    if (missing.length > 0) {
+        const fetched = await fetchQuotes(missing);
+        for (const symbol of missing) {
+            const quote = fetched.get(symbol) ?? stale.get(symbol);
+            if (quote) results.set(symbol, quote);
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Check if any market data provider is configured
+ */
+export function isMarketDataConfigured(): boolean {
+    return activeProviders().length > 0;
+}
+
+/**
+ * Clear the price cache, here and in the database
+ */
+export async function clearPriceCache(): Promise<void> {
+    priceCache.clear();
+    await clearSharedQuotes();
+}
+
+/**
+ * Get cache stats for debugging
+ */
+export function getCacheStats(): { size: number; symbols: string[] } {
+    return {
+        size: priceCache.size,
+        symbols: Array.from(priceCache.keys()),
+    };
+}
+
+/**
+ * Search for stock symbols
+ */
+export async function searchSymbols(query: string): Promise<SymbolSearchResult[]> {
+    if (!query.trim()) {
+        return [];
+    }
+    return (await withFailover("search", (p) => p.search(query), (results) => results.length > 0)) ?? [];
+}
+
+/**
+ * Fetch the last two years of dividends, newest first
+ */
+export async function getDividendHistory(symbol: string): Promise<DividendEvent[]> {
+    const cached = dividendCache.get(symbol);
+    if (cached && Date.now() - cached.timestamp < DIVIDEND_CACHE_TTL) {
+        return cached.data;
+    }
+
+    const history = (await withFailover("dividends", (p) => p.getDividends(symbol), (list) => list.length > 0)) ?? [];
+    dividendCache.set(symbol, { data: history, timestamp: Date.now() });
+    return history;
+}
+
+/**
+ * Fetch detailed stock info, with the announced dividend dates and the
+ * dividend history
+ */
+export async function getStockDetails(symbol: string): Promise<StockDetails | null> {
+    const [details, dividendHistory] = await Promise.all([
+        withFailover("details", (p) => p.getDetails(symbol), (d) => d !== null),
+        getDividendHistory(symbol),
+    ]);
+    return details ? { ...details, dividendHistory } : null;
+}
+
+/**
+ * Fetch historical daily candles
+ * @param symbol Stock symbol
+ * @param range Time range: "1W", "1M", "3M", "6M", "YTD", "1Y", "2Y", "5Y", "10Y", "MAX"
+ */
+export async function getStockCandles(symbol: string, range: string = "1M"): Promise<StockCandle[]> {
+    return (await withFailover("candles", (p) => p.getCandles(symbol, range), (candles) => candles.length > 0)) ?? [];
+}
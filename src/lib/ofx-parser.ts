@@ -0,0 +1,238 @@
+import { Holding, Transaction, ParseResult } from "./types";
+import { emptyResult, skipRow, warnRow, numberField, addTransaction } from "./parse-report";
+
+interface OFXNode {
+    name: string;
+    text: string;
+    children: OFXNode[];
+}
+
+interface Security {
+    symbol: string;
+    name: string;
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+// OFX 1.x is SGML, where leaf elements are never closed; OFX 2.x is XML.
+// Treat any element followed by text as a leaf and everything else as an
+// aggregate closed by its end tag, which reads both.
+function parseOFXTree(content: string): OFXNode {
+    const root: OFXNode = { name: "", text: "", children: [] };
+    const stack = [root];
+    const body = content.slice(Math.max(content.toUpperCase().indexOf("<OFX>"), 0));
+    const tagPattern = /<(\/?)([A-Za-z0-9_.]+)[^>]*>([^<]*)/g;
+
+    let match;
+    while ((match = tagPattern.exec(body)) !== null) {
+        const [, closing, rawName, rawText] = match;
+        const name = rawName.toUpperCase();
+        const text = rawText.trim();
+
+        if (closing) {
+            // End tags of leaves (XML) aren't on the stack and are ignored
+            const index = stack.map((n) => n.name).lastIndexOf(name);
+            if (index > 0) stack.length = index;
+        } else if (text) {
+            stack[stack.length - 1].children.push({ name, text: decodeEntities(text), children: [] });
+        } else {
+            const node: OFXNode = { name, text: "", children: [] };
+            stack[stack.length - 1].children.push(node);
+            stack.push(node);
+        }
+    }
+
+    return root;
+}
+
+function findAll(node: OFXNode, name: string): OFXNode[] {
+    return node.children.flatMap((c) => (c.name === name ? [c] : findAll(c, name)));
+}
+
+// Text of the first element with the name anywhere under the node
+function valueOf(node: OFXNode, name: string): string {
+    for (const c of node.children) {
+        if (c.name === name) return c.text;
+        const nested = valueOf(c, name);
+        if (nested) return nested;
+    }
+    return "";
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and timezone
+function parseOFXDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// An element's leaves as tag/value pairs, shown for skipped rows
+function describe(node: OFXNode): string {
+    const leaves = (n: OFXNode): string[] => n.children.flatMap((c) => (c.text ? [`${c.name}=${c.text}`] : leaves(c)));
+    return `${node.name}: ${leaves(node).join(" ")}`;
+}
+
+// Holdings and transactions refer to securities by CUSIP; the ticker and name
+// are listed once in SECLIST
+function loadSecurities(root: OFXNode): Map<string, Security> {
+    const securities = new Map<string, Security>();
+    for (const info of findAll(root, "SECINFO")) {
+        const id = valueOf(info, "UNIQUEID");
+        securities.set(id, {
+            symbol: (valueOf(info, "TICKER") || id).toUpperCase(),
+            name: valueOf(info, "SECNAME") || id,
+        });
+    }
+    return securities;
+}
+
+function securityOf(node: OFXNode, securities: Map<string, Security>): Security {
+    const id = valueOf(node, "UNIQUEID");
+    return securities.get(id) ?? { symbol: id.toUpperCase() || "--", name: id };
+}
+
+/**
+ * Parse the positions list of an OFX/QFX investment statement
+ * OFX carries no cost basis, so cost and gain are zero
+ */
+export function parseOFXPositions(content: string): ParseResult<Holding> {
+    const result = emptyResult<Holding>();
+    const root = parseOFXTree(content);
+    const securities = loadSecurities(root);
+    const positions = findAll(root, "INVPOS");
+
+    if (positions.length === 0) {
+        warnRow(result, 0, "No positions list (INVPOSLIST) in the file");
+    }
+
+    positions.forEach((position, index) => {
+        const row = index + 1;
+        const number = (name: string) => numberField(result, row, name, valueOf(position, name));
+
+        const quantity = number("UNITS");
+        if (quantity <= 0) {
+            skipRow(result, row, quantity < 0 ? "Short position" : "No units held", describe(position));
+            return;
+        }
+
+        const security = securityOf(position, securities);
+        if (!security.symbol || security.symbol === "--") {
+            skipRow(result, row, "No security ID", describe(position));
+            return;
+        }
+
+        const currentPrice = number("UNITPRICE");
+        result.rows.push({
+            symbol: security.symbol,
+            name: security.name,
+            quantity,
+            costPerShare: 0,
+            currentPrice,
+            marketValue: number("MKTVAL") || quantity * currentPrice,
+            gainLoss: 0,
+            gainLossPercent: 0,
+        });
+    });
+
+    if (result.rows.length > 0) {
+        warnRow(result, 0, "OFX statements have no cost basis; cost and gain/loss are left at zero");
+    }
+    return result;
+}
+
+// Cash moving in or out of the account outside of trades
+function toBankTransaction(node: OFXNode, date: string, amount: number): Transaction {
+    const type = valueOf(node, "TRNTYPE").toUpperCase();
+
+    let action: Transaction["action"] = "OTHER";
+    if (["DEP", "CREDIT", "XFER", "DIRECTDEP"].includes(type) && amount > 0) action = "DEPOSIT";
+    else if (["DEBIT", "XFER", "CHECK", "ATM", "PAYMENT", "DIRECTDEBIT"].includes(type) && amount < 0) action = "WITHDRAWAL";
+
+    return {
+        date,
+        action,
+        symbol: "--",
+        description: valueOf(node, "NAME") || valueOf(node, "MEMO") || type,
+        quantity: 0,
+        price: 0,
+        fees: 0,
+        amount,
+    };
+}
+
+/**
+ * Parse the transaction list of an OFX/QFX investment statement
+ * Reinvested dividends become a dividend and a negative dividend that buys the shares,
+ * matching how Schwab reports them
+ */
+export function parseOFXTransactions(content: string): ParseResult<Transaction> {
+    const result = emptyResult<Transaction>();
+    const root = parseOFXTree(content);
+    const securities = loadSecurities(root);
+    const lists = findAll(root, "INVTRANLIST");
+
+    if (lists.length === 0) {
+        warnRow(result, 0, "No transaction list (INVTRANLIST) in the file");
+    }
+
+    // DTSTART and DTEND are leaves; every aggregate is a transaction
+    const nodes = lists.flatMap((list) => list.children.filter((c) => c.children.length > 0));
+
+    nodes.forEach((node, index) => {
+        const row = index + 1;
+        const text = describe(node);
+        const number = (name: string) => numberField(result, row, name, valueOf(node, name));
+
+        const isBank = node.name === "INVBANKTRAN";
+        const date = parseOFXDate(valueOf(node, isBank ? "DTPOSTED" : "DTTRADE"));
+        if (!date) {
+            skipRow(result, row, "No trade date", text);
+            return;
+        }
+
+        if (isBank) {
+            addTransaction(result, row, toBankTransaction(node, date, number("TRNAMT")), valueOf(node, "TRNTYPE"), text);
+            return;
+        }
+
+        const security = securityOf(node, securities);
+        const base = {
+            date,
+            symbol: security.symbol,
+            description: valueOf(node, "MEMO") || security.name,
+            quantity: Math.abs(number("UNITS")),
+            price: number("UNITPRICE"),
+            fees: number("COMMISSION") + number("FEES"),
+            amount: number("TOTAL"),
+        };
+        const incomeType = valueOf(node, "INCOMETYPE").toUpperCase();
+        const isDividend = incomeType === "DIV";
+        const add = (t: Transaction, actionText: string) => addTransaction(result, row, t, actionText, text);
+
+        if (node.name.startsWith("BUY")) {
+            add({ ...base, action: "BUY" }, node.name);
+        } else if (node.name.startsWith("SELL")) {
+            add({ ...base, action: "SELL" }, node.name);
+        } else if (node.name === "INCOME") {
+            add({ ...base, action: isDividend ? "DIVIDEND" : "OTHER", quantity: 0 }, `INCOME ${incomeType}`);
+        } else if (node.name === "REINVEST") {
+            const total = Math.abs(base.amount);
+            add({ ...base, action: isDividend ? "DIVIDEND" : "OTHER", quantity: 0, price: 0, fees: 0, amount: total }, `REINVEST ${incomeType}`);
+            add({ ...base, action: isDividend ? "DIVIDEND" : "BUY", amount: -total }, node.name);
+        } else {
+            add({ ...base, action: "OTHER" }, node.name);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * How likely a file is an OFX/QFX statement, from 0 to 1
+ */
+export function detectOFX(content: string, filename: string): number {
+    if (/\.(ofx|qfx)$/i.test(filename)) return 1;
+    const head = content.slice(0, 2000).toUpperCase();
+    return head.includes("OFXHEADER") || head.includes("<OFX>") ? 1 : 0;
+}
@@ -0,0 +1,81 @@
+import { Transaction, ParseResult } from "./types";
+import { parseNumber } from "./csv";
+
+// Placeholders brokers use for "no value"
+const BLANKS = new Set(["", "--", "n/a", "na"]);
+
+export function emptyResult<T>(): ParseResult<T> {
+    return { rows: [], skipped: [], warnings: [] };
+}
+
+export function skipRow<T>(result: ParseResult<T>, row: number, reason: string, text: string): void {
+    result.skipped.push({ row, reason, text: text.trim() });
+}
+
+export function warnRow<T>(result: ParseResult<T>, row: number, message: string): void {
+    result.warnings.push({ row, message });
+}
+
+/**
+ * Whether a field has a value, as opposed to being empty or a placeholder
+ */
+export function hasValue(value: string | undefined): boolean {
+    return !BLANKS.has((value ?? "").trim().toLowerCase());
+}
+
+/**
+ * Read a number field like parseNumber, but warn when the field holds text
+ * that isn't a number rather than quietly reading it as 0
+ */
+export function numberField<T>(result: ParseResult<T>, row: number, label: string, value: string | undefined): number {
+    if (!hasValue(value)) return 0;
+
+    const cleaned = String(value).replace(/[$,\s%+]/g, "").replace(/^\((.+)\)$/, "-$1");
+    if (isNaN(Number(cleaned))) {
+        warnRow(result, row, `${label} "${value}" isn't a number; read as 0`);
+        return 0;
+    }
+    return parseNumber(String(value));
+}
+
+/**
+ * Check a transaction before adding it: buys and sells need a symbol, a
+ * missing quantity, price or amount is worked out from the other two, and
+ * actions no importer recognizes are flagged
+ */
+export function addTransaction(
+    result: ParseResult<Transaction>,
+    row: number,
+    transaction: Transaction,
+    actionText: string,
+    text: string
+): void {
+    const t = { ...transaction };
+    const isTrade = t.action === "BUY" || t.action === "SELL";
+
+    if (isTrade && (!t.symbol || t.symbol === "--")) {
+        skipRow(result, row, `${t.action === "BUY" ? "Buy" : "Sell"} with no symbol`, text);
+        return;
+    }
+
+    if (isTrade) {
+        if (t.quantity === 0 && t.price > 0 && t.amount !== 0) {
+            t.quantity = Math.abs(t.amount) / t.price;
+            warnRow(result, row, "Quantity missing; derived from amount ÷ price");
+        } else if (t.price === 0 && t.quantity > 0 && t.amount !== 0) {
+            t.price = Math.abs(t.amount) / t.quantity;
+            warnRow(result, row, "Price missing; derived from amount ÷ quantity");
+        } else if (t.amount === 0 && t.quantity > 0 && t.price > 0) {
+            t.amount = (t.action === "BUY" ? -1 : 1) * t.quantity * t.price;
+            warnRow(result, row, "Amount missing; derived from quantity × price");
+        } else if (t.quantity === 0) {
+            warnRow(result, row, "Quantity and price missing; this trade won't change holdings");
+        }
+    }
+
+    if (t.action === "OTHER" && actionText.trim()) {
+        warnRow(result, row, `Action "${actionText.trim()}" isn't recognized; saved as OTHER`);
+    }
+
+    result.rows.push(t);
+}
@@ -0,0 +1,176 @@
+import { UnitLedgerEntry, PartnershipIncome, MemberAllocation, PartnershipAllocation, TaxYearReport } from "./types";
+import { prisma } from "./prisma";
+import { getClubPortfolioId } from "./storage";
+import { toLedgerEntry } from "./unit-ledger";
+import { loadTaxYearReport } from "./tax-report";
+import { toCSV } from "./csv";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MemberUnits {
+    unitDays: number;
+    unitsAtEnd: number;
+}
+
+/**
+ * Units each member held, weighted by the days they held them, between two
+ * dates. A deposit counts from its entry date onwards.
+ */
+export function unitDaysByMember(entries: UnitLedgerEntry[], start: Date, end: Date): Map<string, MemberUnits> {
+    const result = new Map<string, MemberUnits>();
+    const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const userId of new Set(sorted.map((e) => e.userId))) {
+        let units = 0;
+        let unitDays = 0;
+        let from = start.getTime();
+
+        for (const entry of sorted.filter((e) => e.userId === userId)) {
+            const at = Date.parse(entry.date);
+            if (at >= end.getTime()) break;
+            if (at > from) {
+                unitDays += (units * (at - from)) / DAY_MS;
+                from = at;
+            }
+            units += entry.units;
+        }
+        unitDays += (units * Math.max(end.getTime() - from, 0)) / DAY_MS;
+
+        result.set(userId, { unitDays, unitsAtEnd: units });
+    }
+
+    return result;
+}
+
+/**
+ * Split an amount into cents by share so the parts add back up to the total.
+ * Leftover cents go to the largest remainders.
+ */
+export function allocateCents(total: number, shares: number[]): number[] {
+    const totalCents = Math.round(total * 100);
+    const exact = shares.map((s) => totalCents * s);
+    const cents = exact.map((e) => Math.floor(e));
+    let leftover = totalCents - cents.reduce((sum, c) => sum + c, 0);
+
+    const byRemainder = exact
+        .map((e, i) => ({ i, remainder: e - Math.floor(e) }))
+        .sort((a, b) => b.remainder - a.remainder);
+    for (const { i } of byRemainder) {
+        if (leftover <= 0) break;
+        cents[i]++;
+        leftover--;
+    }
+
+    return cents.map((c) => c / 100);
+}
+
+/**
+ * Allocate a year's realized gains, dividends and expenses to members in
+ * proportion to their time-weighted units. Members who held no units during
+ * the year get nothing.
+ */
+export function allocatePartnershipIncome(
+    totals: PartnershipIncome,
+    entries: UnitLedgerEntry[],
+    members: { id: string; name: string; email: string }[],
+    start: Date,
+    end: Date
+): MemberAllocation[] {
+    const units = unitDaysByMember(entries, start, end);
+    const days = (end.getTime() - start.getTime()) / DAY_MS;
+
+    const partners = members
+        .map((m) => ({ member: m, held: units.get(m.id) ?? { unitDays: 0, unitsAtEnd: 0 } }))
+        .filter((p) => p.held.unitDays > 0);
+    const totalUnitDays = partners.reduce((sum, p) => sum + p.held.unitDays, 0);
+    const shares = partners.map((p) => p.held.unitDays / totalUnitDays);
+
+    const split = (amount: number) => allocateCents(amount, shares);
+    const shortTerm = split(totals.shortTermGain);
+    const longTerm = split(totals.longTermGain);
+    const dividends = split(totals.dividends);
+    const expenses = split(totals.expenses);
+
+    return partners.map((p, i) => ({
+        userId: p.member.id,
+        name: p.member.name,
+        email: p.member.email,
+        averageUnits: days > 0 ? p.held.unitDays / days : 0,
+        unitsAtYearEnd: p.held.unitsAtEnd,
+        sharePercent: shares[i] * 100,
+        shortTermGain: shortTerm[i],
+        longTermGain: longTerm[i],
+        dividends: dividends[i],
+        expenses: expenses[i],
+    }));
+}
+
+/**
+ * Club-level income for the allocation: gains and dividends from the tax
+ * report plus fees and other charges taken out of the account
+ */
+export function partnershipIncome(report: TaxYearReport, expenses: number): PartnershipIncome {
+    return {
+        shortTermGain: report.shortTerm.gain,
+        longTermGain: report.longTerm.gain,
+        dividends: report.totalDividends,
+        expenses,
+    };
+}
+
+/**
+ * The year's partnership income allocated to every member
+ */
+export async function loadPartnershipAllocation(year: number): Promise<PartnershipAllocation> {
+    const portfolioId = await getClubPortfolioId();
+    const start = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+    const end = yearEnd.getTime() < Date.now() ? yearEnd : new Date();
+
+    const [report, charges, entries, members] = await Promise.all([
+        loadTaxYearReport(year),
+        prisma.transaction.aggregate({
+            where: { portfolioId, action: "OTHER", amount: { lt: 0 }, date: { gte: start, lt: yearEnd } },
+            _sum: { amount: true },
+        }),
+        prisma.unitLedgerEntry.findMany({ where: { portfolioId } }),
+        prisma.user.findMany({
+            select: { id: true, name: true, email: true },
+            orderBy: { name: "asc" },
+        }),
+    ]);
+
+    const totals = partnershipIncome(report, Math.abs(charges._sum.amount ?? 0));
+
+    return {
+        year,
+        years: report.years,
+        periodStart: start.toISOString(),
+        periodEnd: end.toISOString(),
+        totals,
+        allocations: allocatePartnershipIncome(totals, entries.map(toLedgerEntry), members, start, end),
+    };
+}
+
+/**
+ * Every member's allocation as CSV
+ */
+export function partnershipAllocationToCSV(allocation: PartnershipAllocation): string {
+    const round = (n: number) => n.toFixed(2);
+
+    return toCSV(
+        ["Year", "Member", "Email", "Average Units", "Units at Year End", "Share %", "Short-Term Gain", "Long-Term Gain", "Dividends", "Expenses"],
+        allocation.allocations.map((a) => [
+            allocation.year,
+            a.name,
+            a.email,
+            a.averageUnits.toFixed(4),
+            a.unitsAtYearEnd.toFixed(4),
+            a.sharePercent.toFixed(4),
+            round(a.shortTermGain),
+            round(a.longTermGain),
+            round(a.dividends),
+            round(a.expenses),
+        ])
+    );
+}
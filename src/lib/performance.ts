@@ -0,0 +1,168 @@
+import { Holding, Transaction, PerformancePoint, PerformanceRange } from "./types";
+import { getStockCandles, StockCandle } from "./market-data";
+import { loadPortfolioData } from "./storage";
+import { hasSnapshotBefore, loadSnapshots } from "./snapshots";
+import { applyTransaction, getFallbackPrices, openingState, shareDelta } from "./transaction-replay";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+    return date.toISOString().split("T")[0];
+}
+
+/**
+ * First day shown for a chart range. "ALL" starts at the first transaction.
+ */
+export function getRangeStart(range: PerformanceRange, transactions: Transaction[], today: Date = new Date()): string {
+    const start = new Date(today);
+
+    switch (range) {
+        case "1M": start.setMonth(start.getMonth() - 1); break;
+        case "3M": start.setMonth(start.getMonth() - 3); break;
+        case "YTD": return `${today.getFullYear()}-01-01`;
+        case "1Y": start.setFullYear(start.getFullYear() - 1); break;
+        case "ALL": {
+            const first = transactions.map((t) => t.date.slice(0, 10)).sort()[0];
+            if (first) return first;
+            start.setFullYear(start.getFullYear() - 1);
+            break;
+        }
+    }
+
+    return toDateKey(start);
+}
+
+/**
+ * Smallest candle range that reaches back to the start date
+ */
+export function candleRangeFor(range: PerformanceRange, startDate: string, today: Date): string {
+    if (range !== "ALL") return range;
+
+    const days = (today.getTime() - new Date(startDate).getTime()) / DAY_MS;
+    if (days <= 365) return "1Y";
+    if (days <= 730) return "2Y";
+    if (days <= 1826) return "5Y";
+    if (days <= 3652) return "10Y";
+    return "MAX";
+}
+
+/**
+ * Replay the transaction history day by day and value the portfolio at each
+ * day's closing prices. Days are the trading days present in the candles.
+ */
+export function buildPerformanceSeries(input: {
+    holdings: Holding[];
+    transactions: Transaction[];
+    cashBalance: number;
+    candles: Map<string, StockCandle[]>;
+    startDate: string;
+    endDate: string;
+}): PerformancePoint[] {
+    const { holdings, candles, startDate, endDate } = input;
+    const transactions = [...input.transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const fallbackPrices = getFallbackPrices(holdings, transactions);
+    const state = openingState(holdings, transactions, input.cashBalance, fallbackPrices);
+
+    const days = new Set<string>();
+    for (const series of candles.values()) {
+        for (const c of series) {
+            if (c.date >= startDate && c.date <= endDate) days.add(c.date);
+        }
+    }
+
+    const sortedCandles = new Map<string, StockCandle[]>();
+    const candleIndex = new Map<string, number>();
+    for (const [symbol, series] of candles) {
+        sortedCandles.set(symbol, [...series].sort((a, b) => a.date.localeCompare(b.date)));
+        candleIndex.set(symbol, -1);
+    }
+
+    // Last close on or before the day; the first close if the day is earlier than all of them
+    const priceOn = (symbol: string, day: string): number => {
+        const series = sortedCandles.get(symbol);
+        if (!series || series.length === 0) return fallbackPrices.get(symbol) ?? 0;
+
+        let i = candleIndex.get(symbol) ?? -1;
+        while (i + 1 < series.length && series[i + 1].date <= day) i++;
+        candleIndex.set(symbol, i);
+
+        return series[Math.max(i, 0)].close;
+    };
+
+    const points: PerformancePoint[] = [];
+    let next = 0;
+
+    for (const day of [...days].sort()) {
+        while (next < transactions.length && transactions[next].date.slice(0, 10) <= day) {
+            applyTransaction(state, transactions[next]);
+            next++;
+        }
+
+        let value = state.cash;
+        for (const [symbol, quantity] of state.shares) {
+            if (Math.abs(quantity) > 1e-6) value += quantity * priceOn(symbol, day);
+        }
+
+        points.push({
+            date: day,
+            value: Math.round(value * 100) / 100,
+            cost: Math.round(state.contributed * 100) / 100,
+        });
+    }
+
+    return points;
+}
+
+/**
+ * Daily value vs. contributed capital of the club portfolio over a range.
+ * Stored snapshots are used wherever they exist; days before the first
+ * snapshot are rebuilt by replaying transactions against historical closes.
+ */
+export async function loadPerformanceSeries(range: PerformanceRange): Promise<PerformancePoint[]> {
+    const [portfolio, actions] = await Promise.all([loadPortfolioData(), loadCorporateActions()]);
+    const transactions = applyCorporateActions(portfolio.transactions, actions);
+    const today = new Date();
+    const startDate = getRangeStart(range, transactions, today);
+
+    const [snapshots, coveredBySnapshots] = await Promise.all([
+        loadSnapshots(startDate),
+        hasSnapshotBefore(startDate),
+    ]);
+    const snapshotPoints: PerformancePoint[] = snapshots.map((s) => ({
+        date: s.date,
+        value: s.totalValue,
+        cost: s.contributedCapital,
+    }));
+
+    if (coveredBySnapshots || (portfolio.holdings.length === 0 && transactions.length === 0)) {
+        return snapshotPoints;
+    }
+
+    const candleRange = candleRangeFor(range, startDate, today);
+    const symbols = new Set<string>(portfolio.holdings.map((h) => h.symbol.toUpperCase()));
+    for (const t of transactions) {
+        if (t.symbol && shareDelta(t) !== 0) symbols.add(t.symbol.toUpperCase());
+    }
+
+    const candles = new Map<string, StockCandle[]>(
+        await Promise.all(
+            [...symbols].map(async (symbol) => [symbol, await getStockCandles(symbol, candleRange)] as [string, StockCandle[]])
+        )
+    );
+
+    const replayed = buildPerformanceSeries({
+        holdings: portfolio.holdings,
+        transactions,
+        cashBalance: portfolio.cashBalance,
+        candles,
+        startDate,
+        endDate: toDateKey(today),
+    });
+
+    const firstSnapshotDate = snapshotPoints[0]?.date;
+    return [
+        ...(firstSnapshotDate ? replayed.filter((p) => p.date < firstSnapshotDate) : replayed),
+        ...snapshotPoints,
+    ];
+}
@@ -0,0 +1,81 @@
+import { getMultipleQuotes, StockQuote } from "./market-data";
+import { refreshInterval } from "./trading-calendar";
+
+interface Subscriber {
+    symbols: string[];
+    send: (quotes: Record<string, StockQuote>) => void;
+}
+
+// One poller per server instance, shared by every connected member
+const subscribers = new Set<Subscriber>();
+const lastSent = new Map<string, number>(); // symbol -> timestamp of the quote last pushed
+let timer: ReturnType<typeof setTimeout> | null = null;
+let polling = false;
+
+function pick(quotes: Map<string, StockQuote>, symbols: string[]): Record<string, StockQuote> {
+    const picked: Record<string, StockQuote> = {};
+    for (const symbol of symbols) {
+        const quote = quotes.get(symbol);
+        if (quote) picked[symbol] = quote;
+    }
+    return picked;
+}
+
+// Poll again as often as the trading calendar says prices move: every minute
+// in the regular session, less often around it and hourly while the market is
+// closed. The quote cache decides how often a provider is actually called.
+function schedule(): void {
+    const next = setTimeout(async () => {
+        await poll();
+        if (timer === next) schedule();
+    }, refreshInterval());
+    timer = next;
+}
+
+// Fetch quotes for every subscribed symbol and push the ones that changed
+async function poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+        const symbols = [...new Set([...subscribers].flatMap((s) => s.symbols))];
+        if (symbols.length === 0) return;
+
+        const quotes = await getMultipleQuotes(symbols);
+        const changed = new Map([...quotes].filter(([symbol, quote]) => lastSent.get(symbol) !== quote.timestamp));
+        changed.forEach((quote, symbol) => lastSent.set(symbol, quote.timestamp));
+
+        for (const subscriber of subscribers) {
+            const update = pick(changed, subscriber.symbols);
+            if (Object.keys(update).length > 0) subscriber.send(update);
+        }
+    } catch (error) {
+        console.error("Failed to poll prices:", error);
+    } finally {
+        polling = false;
+    }
+}
+
+/**
+ * Push quote updates for these symbols until the returned function is
+ * called. The current quotes are sent straight away.
+ */
+export async function subscribeToPrices(
+    symbols: string[],
+    send: (quotes: Record<string, StockQuote>) => void
+): Promise<() => void> {
+    const subscriber: Subscriber = { symbols, send };
+    subscribers.add(subscriber);
+    if (!timer) schedule();
+
+    const quotes = await getMultipleQuotes(symbols);
+    send(pick(quotes, symbols));
+
+    return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0 && timer) {
+            clearTimeout(timer);
+            timer = null;
+            lastSent.clear();
+        }
+    };
+}
@@ -0,0 +1,41 @@
+import { prisma } from "./prisma";
+import type { StockQuote } from "./market-data-provider";
+import type { Prisma } from "@prisma/client";
+
+export interface CachedQuote {
+    quote: StockQuote;
+    fetchedAt: number;  // epoch milliseconds
+}
+
+/**
+ * Quotes any server instance has saved for these symbols, however old
+ */
+export async function loadSharedQuotes(symbols: string[]): Promise<Map<string, CachedQuote>> {
+    const rows = await prisma.quoteCache.findMany({ where: { symbol: { in: symbols } } });
+    return new Map(rows.map((row) => [
+        row.symbol,
+        { quote: row.quote as unknown as StockQuote, fetchedAt: row.fetchedAt.getTime() },
+    ]));
+}
+
+/**
+ * Save freshly fetched quotes for the other instances
+ */
+export async function saveSharedQuotes(quotes: Map<string, StockQuote>, provider: string): Promise<void> {
+    const fetchedAt = new Date();
+    await prisma.$transaction([...quotes].map(([symbol, quote]) => {
+        const data = { quote: quote as unknown as Prisma.InputJsonObject, provider, fetchedAt };
+        return prisma.quoteCache.upsert({
+            where: { symbol },
+            create: { symbol, ...data },
+            update: data,
+        });
+    }));
+}
+
+/**
+ * Forget every saved quote
+ */
+export async function clearSharedQuotes(): Promise<void> {
+    await prisma.quoteCache.deleteMany();
+}
@@ -0,0 +1,192 @@
+/**
+ * Simulated backend: a seeded random walk per symbol, so the app runs with no
+ * network. The same symbol and MARKET_DATA_SEED always give the same candles,
+ * quotes, profile and dividends; only the last candle moves, once a weekday.
+ */
+
+import {
+    MarketDataProvider,
+    StockQuote,
+    StockDetails,
+    StockCandle,
+    DividendEvent,
+    SymbolSearchResult,
+    quoteEach,
+    rangeStart,
+} from "./market-data-provider";
+
+const ORIGIN = Date.UTC(2010, 0, 4);    // the first candle, a Monday
+const DAY = 24 * 60 * 60 * 1000;
+const SECTORS = ["Technology", "Healthcare", "Financial Services", "Energy", "Industrials", "Consumer Defensive", "Utilities"];
+
+// FNV-1a, so each symbol gets its own stream
+function hash(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// mulberry32: uniform numbers in [0, 1)
+function generator(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const seedFor = (symbol: string, stream: string) => hash(`${process.env.MARKET_DATA_SEED ?? ""}:${symbol.toUpperCase()}:${stream}`);
+
+const round = (value: number, places = 2) => Number(value.toFixed(places));
+
+// The walk through today, one candle per weekday, rebuilt when the day changes
+const walks = new Map<string, { day: string; candles: StockCandle[] }>();
+
+function walk(symbol: string): StockCandle[] {
+    const today = new Date().toISOString().split("T")[0];
+    const cached = walks.get(symbol);
+    if (cached?.day === today) return cached.candles;
+
+    const random = generator(seedFor(symbol, "walk"));
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const volatility = 0.01 + random() * 0.02;
+    const drift = 0.0002 + random() * 0.0004;
+    const baseVolume = Math.round(200_000 + random() * 5_000_000);
+
+    const candles: StockCandle[] = [];
+    let close = 20 + random() * 180;
+    for (let time = ORIGIN; time <= Date.now(); time += DAY) {
+        const weekday = new Date(time).getUTCDay();
+        if (weekday === 0 || weekday === 6) continue;
+
+        const open = close * (1 + gaussian() * volatility * 0.25);
+        close = Math.max(1, close * (1 + drift + gaussian() * volatility));
+        candles.push({
+            date: new Date(time).toISOString().split("T")[0],
+            open: round(open),
+            high: round(Math.max(open, close) * (1 + random() * volatility * 0.5)),
+            low: round(Math.min(open, close) * (1 - random() * volatility * 0.5)),
+            close: round(close),
+            volume: Math.round(baseVolume * (0.5 + random())),
+        });
+    }
+
+    walks.set(symbol, { day: today, candles });
+    return candles;
+}
+
+// Whether and how often the symbol pays: two in three do, one in five of
+// those monthly
+function dividendPolicy(symbol: string): { paymentsPerYear: number; yield: number } | null {
+    const random = generator(seedFor(symbol, "dividends"));
+    if (random() < 1 / 3) return null;
+    const monthly = random() < 0.2;
+    return { paymentsPerYear: monthly ? 12 : 4, yield: monthly ? 0.06 + random() * 0.06 : 0.01 + random() * 0.03 };
+}
+
+async function getQuote(symbol: string): Promise<StockQuote | null> {
+    const candles = walk(symbol);
+    const last = candles[candles.length - 1];
+    const previousClose = candles[candles.length - 2]?.close ?? last.open;
+    const change = last.close - previousClose;
+
+    return {
+        symbol,
+        currentPrice: last.close,
+        change,
+        changePercent: (change / previousClose) * 100,
+        high: last.high,
+        low: last.low,
+        open: last.open,
+        previousClose,
+        timestamp: Date.now(),
+    };
+}
+
+// Any ticker-shaped query is a symbol
+async function search(query: string): Promise<SymbolSearchResult[]> {
+    const symbol = query.trim().toUpperCase();
+    if (!/^[A-Z][A-Z0-9.-]{0,9}$/.test(symbol)) return [];
+    return [{ symbol, description: `${symbol} (simulated)`, type: "EQUITY" }];
+}
+
+async function getDividends(symbol: string): Promise<DividendEvent[]> {
+    const policy = dividendPolicy(symbol);
+    if (!policy) return [];
+
+    const candles = walk(symbol);
+    const step = 12 / policy.paymentsPerYear;
+    const now = new Date();
+    const dividends: DividendEvent[] = [];
+
+    // Ex-dates on the 15th, for the last two years
+    for (let back = 0; back < 24; back++) {
+        const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - back, 15));
+        if (date > now || date.getUTCMonth() % step !== 0) continue;
+        const exDate = date.toISOString().split("T")[0];
+        const price = candles.filter((c) => c.date <= exDate).pop()?.close ?? candles[0].close;
+        dividends.push({ exDate, amount: round((price * policy.yield) / policy.paymentsPerYear, 4) });
+    }
+
+    return dividends;
+}
+
+async function getDetails(symbol: string): Promise<StockDetails | null> {
+    const random = generator(seedFor(symbol, "profile"));
+    const candles = walk(symbol);
+    const price = candles[candles.length - 1].close;
+    const year = candles.slice(-252);
+    const policy = dividendPolicy(symbol);
+    const trailingPE = round(8 + random() * 32);
+    const analysts = Array.from({ length: 5 }, () => Math.floor(random() * 10));
+
+    return {
+        symbol,
+        longName: `${symbol} Holdings (simulated)`,
+        sector: SECTORS[Math.floor(random() * SECTORS.length)],
+        industry: "Simulated",
+        description: `Simulated market data for ${symbol}, generated offline from a seeded random walk.`,
+        marketCap: Math.round(price * (10_000_000 + random() * 2_000_000_000)),
+        trailingPE,
+        forwardPE: round(trailingPE * (0.8 + random() * 0.3)),
+        eps: round(price / trailingPE),
+        dividendYield: policy?.yield,
+        dividendRate: policy ? round(price * policy.yield) : undefined,
+        fiftyTwoWeekHigh: Math.max(...year.map((c) => c.high)),
+        fiftyTwoWeekLow: Math.min(...year.map((c) => c.low)),
+        volume: candles[candles.length - 1].volume,
+        avgVolume: Math.round(year.slice(-90).reduce((sum, c) => sum + c.volume, 0) / Math.min(90, year.length)),
+        beta: round(0.5 + random() * 1.2),
+        recommendations: {
+            strongBuy: analysts[0],
+            buy: analysts[1],
+            hold: analysts[2],
+            sell: analysts[3],
+            strongSell: analysts[4],
+        },
+    };
+}
+
+async function getCandles(symbol: string, range: string): Promise<StockCandle[]> {
+    const start = rangeStart(range);
+    const from = start ? start.toISOString().split("T")[0] : "";
+    return walk(symbol).filter((c) => c.date >= from);
+}
+
+export const randomWalkProvider: MarketDataProvider = {
+    id: "random-walk",
+    name: "Simulated (random walk)",
+    isConfigured: () => true,
+    getQuote,
+    getQuotes: (symbols) => quoteEach(randomWalkProvider, symbols),
+    search,
+    getDetails,
+    getCandles,
+    getDividends,
+};
@@ -0,0 +1,39 @@
+/**
+ * Token bucket: bursts of up to `capacity` calls, refilled evenly so no more
+ * than `capacity` go out per `interval`. Callers past the budget queue in
+ * order; a caller reserves its slot by taking a token the bucket doesn't have
+ * yet, so the balance goes negative while others wait.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt = Date.now();
+
+    constructor(private readonly capacity: number, private readonly interval: number) {
+        this.tokens = capacity;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / this.interval) * this.capacity);
+        this.updatedAt = now;
+    }
+
+    /**
+     * How long a call made now would wait for its turn, in milliseconds
+     */
+    wait(): number {
+        this.refill();
+        return this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.capacity) * this.interval;
+    }
+
+    /**
+     * Wait for a turn, then take it
+     */
+    async take(): Promise<void> {
+        const wait = this.wait();
+        this.tokens -= 1;
+        if (wait > 0) {
+            await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+    }
+}
@@ -0,0 +1,91 @@
+import { Holding, Transaction, PositionCheck, ReconciliationIssue } from "./types";
+import { prisma } from "./prisma";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+import { getClubPortfolioId, toTransaction } from "./storage";
+import { planTransactionImport } from "./transaction-merge";
+import { shareDelta } from "./transaction-replay";
+
+// Share differences below this are rounding on fractional quantities
+const TOLERANCE = 1e-4;
+
+// A whole-number forward (2, 3, ...) or reverse (1/10, ...) split that turns
+// the expected share count into the held one, if there is one
+function findSplitRatio(held: number, expected: number): number | null {
+    if (expected <= TOLERANCE || held <= TOLERANCE) return null;
+    const ratio = held >= expected ? held / expected : expected / held;
+    const rounded = Math.round(ratio);
+    if (rounded < 2 || Math.abs(ratio - rounded) > 1e-3 * ratio) return null;
+    return held >= expected ? rounded : 1 / rounded;
+}
+
+function classify(held: number, expected: number, hasHistory: boolean): { issue: ReconciliationIssue | null; splitRatio: number | null } {
+    if (Math.abs(held - expected) <= TOLERANCE) return { issue: null, splitRatio: null };
+    if (!hasHistory) return { issue: "NO_HISTORY", splitRatio: null };
+    if (held <= TOLERANCE && expected > 0) return { issue: "NOT_HELD", splitRatio: null };
+
+    const splitRatio = findSplitRatio(held, expected);
+    if (splitRatio !== null) return { issue: "SPLIT", splitRatio };
+    return { issue: held > expected ? "MISSING_HISTORY" : "EXTRA_HISTORY", splitRatio: null };
+}
+
+/**
+ * Compare each position's share count with what replaying the transaction
+ * history from zero adds up to. Disagreements usually mean a split, a
+ * transfer or history missing from the export.
+ */
+export function reconcilePositions(holdings: Holding[], transactions: Transaction[]): PositionCheck[] {
+    const held = new Map<string, number>();
+    for (const h of holdings) {
+        const symbol = h.symbol.toUpperCase();
+        held.set(symbol, (held.get(symbol) ?? 0) + h.quantity);
+    }
+
+    const expected = new Map<string, number>();
+    const otherRows = new Map<string, string[]>();
+    for (const t of transactions) {
+        if (!t.symbol || t.symbol === "--") continue;
+        const symbol = t.symbol.toUpperCase();
+        const delta = shareDelta(t);
+        if (delta !== 0) {
+            expected.set(symbol, (expected.get(symbol) ?? 0) + delta);
+        } else if (t.action === "OTHER" && t.quantity > 0) {
+            // Journals and security transfers move shares without a buy or sell
+            const rows = otherRows.get(symbol) ?? [];
+            rows.push(`${t.date.slice(0, 10)} ${t.description || "Other"} (${t.quantity} shares)`);
+            otherRows.set(symbol, rows);
+        }
+    }
+
+    const symbols = new Set([...held.keys(), ...expected.keys()]);
+    return [...symbols]
+        .map((symbol) => {
+            const heldQuantity = held.get(symbol) ?? 0;
+            const expectedQuantity = expected.get(symbol) ?? 0;
+            return {
+                symbol,
+                heldQuantity,
+                expectedQuantity,
+                difference: heldQuantity - expectedQuantity,
+                ...classify(heldQuantity, expectedQuantity, expected.has(symbol)),
+                otherRows: otherRows.get(symbol) ?? [],
+            };
+        })
+        .sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Reconcile an upload's positions against the club's stored history merged
+ * with the upload's transactions, the history saving it would leave. Recorded
+ * corporate actions restate that history first, so a split already entered
+ * is not reported as missing.
+ */
+export async function reconcileUpload(holdings: Holding[], transactions: Transaction[]): Promise<PositionCheck[]> {
+    const portfolioId = await getClubPortfolioId();
+    const [rows, actions] = await Promise.all([
+        prisma.transaction.findMany({ where: { portfolioId }, orderBy: { date: "asc" } }),
+        loadCorporateActions(),
+    ]);
+    const stored = rows.map(toTransaction);
+    const { toInsert } = planTransactionImport(stored, transactions);
+    return reconcilePositions(holdings, applyCorporateActions([...stored, ...toInsert], actions));
+}
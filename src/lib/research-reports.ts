@@ -0,0 +1,137 @@
+import { ResearchReport } from "./types";
+import { prisma } from "./prisma";
+import { getStockDetails, getStockQuote, StockDetails } from "./market-data";
+import { SYMBOL_PATTERN } from "./market-data-provider";
+import type { Prisma, ResearchReport as ResearchReportRow } from "@prisma/client";
+
+export class ResearchReportError extends Error {}
+
+type ReportWithAuthor = ResearchReportRow & { author: { name: string } | null };
+
+// The member asking, to decide whether they can change a report
+interface Member {
+    id: string;
+    role?: string;
+}
+
+function toResearchReport(row: ReportWithAuthor): ResearchReport {
+    return {
+        id: row.id,
+        symbol: row.symbol,
+        title: row.title,
+        body: row.body,
+        targetPrice: row.targetPrice,
+        priceAtWriting: row.priceAtWriting,
+        details: (row.details as unknown as StockDetails | null) ?? null,
+        author: row.author?.name ?? null,
+        authorId: row.authorId,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+function cleanTargetPrice(value: unknown): number | null {
+    if (value === null || value === undefined || value === "") return null;
+    const price = Number(value);
+    if (!Number.isFinite(price) || price <= 0) {
+        throw new ResearchReportError("Target price must be a positive number");
+    }
+    return price;
+}
+
+function cleanText(value: unknown, field: string): string {
+    const text = typeof value === "string" ? value.trim() : "";
+    if (!text) throw new ResearchReportError(`${field} is required`);
+    return text;
+}
+
+// Reports the member can change: their own, or any for admins
+function editableBy(member: Member): Prisma.ResearchReportWhereInput {
+    return member.role === "ADMIN" ? {} : { authorId: member.id };
+}
+
+/**
+ * Every report on a symbol, newest first
+ */
+export async function listResearchReports(symbol: string): Promise<ResearchReport[]> {
+    const rows = await prisma.researchReport.findMany({
+        where: { symbol: symbol.toUpperCase() },
+        include: { author: { select: { name: true } } },
+        orderBy: { createdAt: "desc" },
+    });
+    return rows.map(toResearchReport);
+}
+
+/**
+ * Save a member's report on a symbol with the current price and company
+ * details. The report is saved without them if market data is unavailable.
+ */
+export async function createResearchReport(
+    authorId: string,
+    input: { symbol: string; title: unknown; body: unknown; targetPrice?: unknown }
+): Promise<ResearchReport> {
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!SYMBOL_PATTERN.test(symbol)) throw new ResearchReportError(`"${input.symbol}" is not a ticker symbol`);
+    const title = cleanText(input.title, "Title");
+    const body = cleanText(input.body, "Report");
+    const targetPrice = cleanTargetPrice(input.targetPrice);
+
+    const [quote, details] = await Promise.all([
+        getStockQuote(symbol).catch((error) => {
+            console.error(`Failed to fetch ${symbol} quote for report:`, error);
+            return null;
+        }),
+        getStockDetails(symbol).catch((error) => {
+            console.error(`Failed to fetch ${symbol} details for report:`, error);
+            return null;
+        }),
+    ]);
+
+    const row = await prisma.researchReport.create({
+        data: {
+            symbol,
+            title,
+            body,
+            targetPrice,
+            priceAtWriting: quote?.currentPrice ?? null,
+            details: details ? (details as unknown as Prisma.InputJsonObject) : undefined,
+            authorId,
+        },
+        include: { author: { select: { name: true } } },
+    });
+    return toResearchReport(row);
+}
+
+/**
+ * Edit a report's title, text or target price. The price and details it was
+ * written against are kept. Returns null when the report doesn't exist or
+ * the member can't change it.
+ */
+export async function updateResearchReport(
+    member: Member,
+    id: string,
+    input: { title?: unknown; body?: unknown; targetPrice?: unknown }
+): Promise<ResearchReport | null> {
+    const data: Prisma.ResearchReportUpdateManyMutationInput = {};
+    if ("title" in input) data.title = cleanText(input.title, "Title");
+    if ("body" in input) data.body = cleanText(input.body, "Report");
+    if ("targetPrice" in input) data.targetPrice = cleanTargetPrice(input.targetPrice);
+
+    const { count } = await prisma.researchReport.updateMany({ where: { id, ...editableBy(member) }, data });
+    if (count === 0) return null;
+
+    const row = await prisma.researchReport.findUniqueOrThrow({
+        where: { id },
+        include: { author: { select: { name: true } } },
+    });
+    return toResearchReport(row);
+}
+
+/**
+ * Delete a report. Returns false when it doesn't exist or the member can't
+ * delete it.
+ */
+export async function deleteResearchReport(member: Member, id: string): Promise<boolean> {
+    const { count } = await prisma.researchReport.deleteMany({ where: { id, ...editableBy(member) } });
+    return count > 0;
+}
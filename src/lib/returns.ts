@@ -0,0 +1,264 @@
+import { Holding, Transaction, PerformancePoint, ReturnMetrics } from "./types";
+import { getStockCandles, StockCandle } from "./market-data";
+import { loadPortfolioData } from "./storage";
+import { candleRangeFor, loadPerformanceSeries } from "./performance";
+import { capitalDelta, getFallbackPrices, openingState, shareDelta } from "./transaction-replay";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+export interface CashFlow {
+    date: string;   // YYYY-MM-DD
+    amount: number;
+}
+
+const emptyMetrics: ReturnMetrics = {
+    startDate: null,
+    endDate: null,
+    twr: null,
+    twrAnnualized: null,
+    xirr: null,
+};
+
+function daysBetween(start: string, end: string): number {
+    return (Date.parse(end) - Date.parse(start)) / DAY_MS;
+}
+
+/**
+ * Internal rate of return for irregular cash flows (Excel's XIRR).
+ * Money going in is negative, money coming out (and the ending value) positive.
+ * Returns null when the flows don't change sign or no rate solves them.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+    if (!flows.some((f) => f.amount > 0) || !flows.some((f) => f.amount < 0)) {
+        return null;
+    }
+
+    const start = flows.reduce((min, f) => (f.date < min ? f.date : min), flows[0].date);
+    const years = flows.map((f) => daysBetween(start, f.date) / DAYS_PER_YEAR);
+
+    const npv = (rate: number) =>
+        flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+    const derivative = (rate: number) =>
+        flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+    // Newton's method converges quickly from a sensible guess...
+    let rate = 0.1;
+    for (let i = 0; i < 100; i++) {
+        const value = npv(rate);
+        const slope = derivative(rate);
+        if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+        const next = rate - value / slope;
+        if (next <= -1) break;
+        if (Math.abs(next - rate) < 1e-9) return next;
+        rate = next;
+    }
+
+    // ...but falls back to bisection when it wanders off
+    let low = -0.9999;
+    let high = 10;
+    if (npv(low) * npv(high) > 0) return null;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const value = npv(mid);
+        if (Math.abs(value) < 1e-7) return mid;
+        if (npv(low) * value < 0) high = mid;
+        else low = mid;
+    }
+
+    return (low + high) / 2;
+}
+
+/**
+ * Time-weighted return, chain-linked day by day around external cash flows.
+ * Values are end of day and include that day's flows, so each day's return
+ * is (value - flow) / previous value - 1. Flows falling on a day without a
+ * value (weekends) count on the next valued day.
+ */
+export function timeWeightedReturn(series: { date: string; value: number }[], flows: CashFlow[]): number | null {
+    if (series.length < 2) return null;
+
+    const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+    let nextFlow = 0;
+
+    // Flows up to and including the first day are part of the starting value
+    while (nextFlow < sortedFlows.length && sortedFlows[nextFlow].date <= series[0].date) nextFlow++;
+
+    let growth = 1;
+    for (let i = 1; i < series.length; i++) {
+        let flow = 0;
+        while (nextFlow < sortedFlows.length && sortedFlows[nextFlow].date <= series[i].date) {
+            flow += sortedFlows[nextFlow].amount;
+            nextFlow++;
+        }
+
+        const previous = series[i - 1].value;
+        if (previous > 0) {
+            growth *= (series[i].value - flow) / previous;
+        }
+    }
+
+    return growth - 1;
+}
+
+/**
+ * Annualize a cumulative return. Periods shorter than a year aren't
+ * annualized, since extrapolating a few weeks of returns is misleading.
+ */
+export function annualizeReturn(cumulative: number | null, startDate: string, endDate: string): number | null {
+    if (cumulative === null) return null;
+
+    const days = daysBetween(startDate, endDate);
+    if (days < DAYS_PER_YEAR) return null;
+
+    return Math.pow(1 + cumulative, DAYS_PER_YEAR / days) - 1;
+}
+
+/**
+ * Club returns from the daily value series and member deposits/withdrawals
+ */
+export function calculateClubReturns(points: PerformancePoint[], transactions: Transaction[]): ReturnMetrics {
+    if (points.length < 2) return emptyMetrics;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    const flows: CashFlow[] = transactions
+        .map((t) => ({ date: t.date.slice(0, 10), amount: capitalDelta(t) }))
+        .filter((f) => f.amount !== 0);
+
+    const twr = timeWeightedReturn(points, flows);
+
+    // From the members' side: the starting value and deposits go in, withdrawals
+    // and the ending value come out
+    const irrFlows: CashFlow[] = [
+        { date: first.date, amount: -first.value },
+        ...flows.filter((f) => f.date > first.date && f.date <= last.date).map((f) => ({ date: f.date, amount: -f.amount })),
+        { date: last.date, amount: last.value },
+    ];
+
+    return {
+        startDate: first.date,
+        endDate: last.date,
+        twr,
+        twrAnnualized: annualizeReturn(twr, first.date, last.date),
+        xirr: xirr(irrFlows),
+    };
+}
+
+/**
+ * Returns on a single position. Buys and sells are flows into and out of the
+ * position; dividends are income paid out of it. Shares held before the first
+ * recorded transaction enter at cost on the club's first transaction date.
+ */
+export function calculateHoldingReturns(input: {
+    symbol: string;
+    holdings: Holding[];
+    transactions: Transaction[];
+    cashBalance: number;
+    candles: StockCandle[];
+    currentPrice: number;
+    today: string;
+}): ReturnMetrics {
+    const symbol = input.symbol.toUpperCase();
+    const allTransactions = [...input.transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const transactions = allTransactions.filter((t) => t.symbol.toUpperCase() === symbol);
+
+    const fallbackPrices = getFallbackPrices(input.holdings, allTransactions);
+    const openingShares = openingState(input.holdings, allTransactions, input.cashBalance, fallbackPrices)
+        .shares.get(symbol) ?? 0;
+
+    const startDate = openingShares > 0
+        ? allTransactions[0]?.date.slice(0, 10)
+        : transactions.find((t) => shareDelta(t) !== 0)?.date.slice(0, 10);
+    if (!startDate) return emptyMetrics;
+
+    const holding = input.holdings.find((h) => h.symbol.toUpperCase() === symbol);
+    const openingCost = openingShares * (holding?.costPerShare ?? fallbackPrices.get(symbol) ?? 0);
+
+    // Money into the position is positive; dividends paid out of it are negative
+    const flows: CashFlow[] = [];
+    for (const t of transactions) {
+        if (shareDelta(t) !== 0 || t.action === "DIVIDEND") {
+            flows.push({ date: t.date.slice(0, 10), amount: -t.amount });
+        }
+    }
+
+    // Daily value of the shares held
+    const candles = [...input.candles]
+        .filter((c) => c.date >= startDate)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const dayBefore = new Date(Date.parse(startDate) - DAY_MS).toISOString().split("T")[0];
+    const series: { date: string; value: number }[] = [{ date: dayBefore, value: openingCost }];
+    let shares = openingShares;
+    let next = 0;
+    for (const c of candles) {
+        while (next < transactions.length && transactions[next].date.slice(0, 10) <= c.date) {
+            shares += shareDelta(transactions[next]);
+            next++;
+        }
+        series.push({ date: c.date, value: shares * c.close });
+    }
+
+    const endValue = (holding?.quantity ?? Math.max(shares, 0)) * input.currentPrice;
+    if (series[series.length - 1].date < input.today) {
+        series.push({ date: input.today, value: endValue });
+    }
+
+    const twr = timeWeightedReturn(series, flows);
+
+    const irrFlows: CashFlow[] = [
+        ...(openingCost > 0 ? [{ date: startDate, amount: -openingCost }] : []),
+        ...flows.map((f) => ({ date: f.date, amount: -f.amount })),
+        { date: input.today, amount: endValue },
+    ];
+
+    return {
+        startDate,
+        endDate: input.today,
+        twr,
+        twrAnnualized: annualizeReturn(twr, startDate, input.today),
+        xirr: xirr(irrFlows),
+    };
+}
+
+/**
+ * Club-level returns over its whole recorded history
+ */
+export async function loadClubReturns(): Promise<ReturnMetrics> {
+    const [portfolio, points] = await Promise.all([
+        loadPortfolioData(),
+        loadPerformanceSeries("ALL"),
+    ]);
+
+    return calculateClubReturns(points, portfolio.transactions);
+}
+
+/**
+ * Returns on one holding since it was first bought
+ */
+export async function loadHoldingReturns(symbol: string, currentPrice?: number): Promise<ReturnMetrics> {
+    const [portfolio, actions] = await Promise.all([loadPortfolioData(), loadCorporateActions()]);
+    const transactions = applyCorporateActions(portfolio.transactions, actions);
+    const upper = symbol.toUpperCase();
+    const firstDate = [...transactions].map((t) => t.date.slice(0, 10)).sort()[0];
+    if (!firstDate) return emptyMetrics;
+
+    const today = new Date();
+    const candles = await getStockCandles(upper, candleRangeFor("ALL", firstDate, today));
+    const holding = portfolio.holdings.find((h) => h.symbol.toUpperCase() === upper);
+    const lastClose = candles.length > 0 ? candles[candles.length - 1].close : 0;
+
+    return calculateHoldingReturns({
+        symbol: upper,
+        holdings: portfolio.holdings,
+        transactions,
+        cashBalance: portfolio.cashBalance,
+        candles,
+        currentPrice: currentPrice ?? (lastClose || holding?.currentPrice || 0),
+        today: today.toISOString().split("T")[0],
+    });
+}
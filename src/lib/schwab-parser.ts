@@ -1,13 +1,16 @@
-import { Holding, Transaction, PortfolioData, emptyPortfolio } from "./types";
+import { Holding, Transaction, PortfolioData, ImportKind, ParseResult, emptyPortfolio } from "./types";
+import { parseCSVLine, findColumn, getValue, parseDate, isDate } from "./csv";
+import { emptyResult, skipRow, warnRow, numberField, addTransaction } from "./parse-report";
 
 /**
  * Parse Schwab Positions CSV export
  * Expected columns: Symbol, Description, Quantity, Price, Market Value, Cost Basis, Gain/Loss, Gain/Loss %
  * Note: Schwab format may vary slightly - this parser is flexible
  */
-export function parseSchwabPositionsCSV(csvContent: string): Holding[] {
-    const lines = csvContent.trim().split("\n");
-    if (lines.length < 2) return [];
+export function parseSchwabPositionsCSV(csvContent: string): ParseResult<Holding> {
+    const result = emptyResult<Holding>();
+    const lines = csvContent.trimEnd().split("\n");
+    if (lines.length < 2) return result;
 
     // Find header row (Schwab sometimes has metadata rows at the top)
     let headerIndex = 0;
@@ -20,7 +23,6 @@ export function parseSchwabPositionsCSV(csvContent: string): Holding[] {
     }
 
     const headers = parseCSVLine(lines[headerIndex]).map((h) => h.toLowerCase().trim());
-    const holdings: Holding[] = [];
 
     // Map common Schwab column names
     const symbolCol = findColumn(headers, ["symbol", "ticker"]);
@@ -34,90 +36,133 @@ export function parseSchwabPositionsCSV(csvContent: string): Holding[] {
     const gainLossPctCol = findColumn(headers, ["gain/loss %", "gain loss %", "% gain/loss", "unrealized gain %"]);
 
     for (let i = headerIndex + 1; i < lines.length; i++) {
+        const row = i + 1;
         const line = lines[i].trim();
-        if (!line || line.startsWith("\"\"") || line.toLowerCase().includes("total")) continue;
+        if (!line || line.startsWith("\"\"")) continue;
+        if (line.toLowerCase().includes("total")) {
+            skipRow(result, row, "Totals row", line);
+            continue;
+        }
 
         const values = parseCSVLine(line);
         const symbol = getValue(values, symbolCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
 
         // Skip empty rows or cash entries
-        if (!symbol || symbol === "" || symbol.toLowerCase() === "cash" || symbol === "--") continue;
-
-        const quantity = parseNumber(getValue(values, quantityCol));
-        const currentPrice = parseNumber(getValue(values, priceCol));
-        const marketValue = parseNumber(getValue(values, marketValueCol)) || quantity * currentPrice;
-        const costBasis = parseNumber(getValue(values, costBasisCol));
-        const costPerShare = parseNumber(getValue(values, costPerShareCol)) || (costBasis / quantity) || 0;
-        const gainLoss = parseNumber(getValue(values, gainLossCol)) || (marketValue - costBasis);
-        const gainLossPercent = parseNumber(getValue(values, gainLossPctCol)) || (costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0);
-
-        if (quantity > 0) {
-            holdings.push({
-                symbol: symbol.toUpperCase(),
-                name: getValue(values, nameCol) || symbol,
-                quantity,
-                costPerShare,
-                currentPrice,
-                marketValue,
-                gainLoss,
-                gainLossPercent,
-            });
+        if (!symbol || symbol === "--") {
+            skipRow(result, row, "No symbol", line);
+            continue;
+        }
+        if (symbol.toLowerCase().includes("cash")) {
+            skipRow(result, row, "Cash balance, not a holding", line);
+            continue;
+        }
+
+        const quantity = number(quantityCol, "Quantity");
+        if (quantity <= 0) {
+            skipRow(result, row, "No shares held", line);
+            continue;
+        }
+
+        const currentPrice = number(priceCol, "Price");
+        let marketValue = number(marketValueCol, "Market value");
+        if (!marketValue && currentPrice) {
+            marketValue = quantity * currentPrice;
+            warnRow(result, row, "Market value missing; derived from quantity × price");
         }
+        const costBasis = number(costBasisCol, "Cost basis");
+        const costPerShare = number(costPerShareCol, "Cost per share") || costBasis / quantity;
+        if (!costPerShare) {
+            warnRow(result, row, "Cost basis missing; gain/loss can't be calculated");
+        }
+        const gainLoss = number(gainLossCol, "Gain/loss") || (marketValue - costBasis);
+        const gainLossPercent = number(gainLossPctCol, "Gain/loss %") || (costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0);
+
+        result.rows.push({
+            symbol: symbol.toUpperCase(),
+            name: getValue(values, nameCol) || symbol,
+            quantity,
+            costPerShare,
+            currentPrice,
+            marketValue,
+            gainLoss,
+            gainLossPercent,
+        });
     }
 
-    return holdings;
+    return result;
+}
+
+// Map Schwab actions to our types
+function toAction(actionRaw: string): Transaction["action"] {
+    const action = actionRaw.toLowerCase();
+    // "Stock Split", "Reverse Split", "Name Change"
+    if (action.includes("split")) return "SPLIT";
+    if (action.includes("name change")) return "SYMBOL_CHANGE";
+    if (action.includes("buy")) return "BUY";
+    if (action.includes("sell")) return "SELL";
+    if (action.includes("dividend") || action.includes("div")) return "DIVIDEND";
+    if (action.includes("deposit") || action.includes("transfer in")) return "DEPOSIT";
+    if (action.includes("withdraw") || action.includes("transfer out")) return "WITHDRAWAL";
+    if (action.includes("reinvest")) return "DIVIDEND";
+    return "OTHER";
 }
 
 /**
  * Parse Schwab Transaction History JSON export
  * Schwab JSON format has: FromDate, ToDate, TotalTransactionsAmount, BrokerageTransactions[]
  */
-export function parseSchwabTransactionsJSON(jsonContent: string): Transaction[] {
-    try {
-        const data = JSON.parse(jsonContent);
-        const transactions: Transaction[] = [];
-
-        // Handle the BrokerageTransactions array
-        const rawTransactions = data.BrokerageTransactions || data.transactions || [];
-
-        for (const tx of rawTransactions) {
-            const actionRaw = (tx.Action || "").toLowerCase();
-
-            // Map Schwab actions to our types
-            let action: Transaction["action"] = "OTHER";
-            if (actionRaw.includes("buy")) action = "BUY";
-            else if (actionRaw.includes("sell")) action = "SELL";
-            else if (actionRaw.includes("dividend") || actionRaw.includes("div")) action = "DIVIDEND";
-            else if (actionRaw.includes("deposit") || actionRaw.includes("transfer in")) action = "DEPOSIT";
-            else if (actionRaw.includes("withdraw") || actionRaw.includes("transfer out")) action = "WITHDRAWAL";
-            else if (actionRaw.includes("reinvest")) action = "DIVIDEND";
-
-            transactions.push({
-                date: parseSchwabDate(tx.Date || ""),
-                action,
-                symbol: (tx.Symbol || "--").toUpperCase(),
-                description: tx.Description || "",
-                quantity: Math.abs(parseNumber(tx.Quantity || "0")),
-                price: parseNumber(tx.Price || "0"),
-                fees: parseNumber(tx["Fees & Comm"] || tx.Fees || "0"),
-                amount: parseNumber(tx.Amount || "0"),
-            });
-        }
+export function parseSchwabTransactionsJSON(jsonContent: string): ParseResult<Transaction> {
+    const result = emptyResult<Transaction>();
 
-        return transactions;
+    let data;
+    try {
+        data = JSON.parse(jsonContent);
     } catch (error) {
-        console.error("Failed to parse Schwab JSON:", error);
-        return [];
+        skipRow(result, 0, `Not valid JSON: ${error instanceof Error ? error.message : "parse error"}`, jsonContent.slice(0, 200));
+        return result;
+    }
+
+    // Handle the BrokerageTransactions array
+    const rawTransactions = data.BrokerageTransactions || data.transactions || [];
+    if (!Array.isArray(rawTransactions)) {
+        skipRow(result, 0, "No BrokerageTransactions list in the file", jsonContent.slice(0, 200));
+        return result;
     }
+
+    rawTransactions.forEach((tx: Record<string, string>, index: number) => {
+        const row = index + 1;
+        const text = JSON.stringify(tx);
+        const number = (value: string | undefined, label: string) => numberField(result, row, label, value);
+
+        if (!tx.Date || !isDate(tx.Date)) {
+            skipRow(result, row, tx.Date ? `Date "${tx.Date}" not recognized` : "No date", text);
+            return;
+        }
+
+        addTransaction(result, row, {
+            date: parseDate(tx.Date),
+            action: toAction(tx.Action || ""),
+            symbol: (tx.Symbol || "--").toUpperCase(),
+            description: tx.Description || "",
+            quantity: Math.abs(number(tx.Quantity, "Quantity")),
+            price: number(tx.Price, "Price"),
+            fees: number(tx["Fees & Comm"] || tx.Fees, "Fees"),
+            amount: number(tx.Amount, "Amount"),
+        }, tx.Action || "", text);
+    });
+
+    return result;
 }
 
 /**
  * Parse Schwab Transaction History CSV export
  * Expected columns: Date, Action, Symbol, Description, Quantity, Price, Fees & Comm, Amount
  */
-export function parseSchwabTransactionsCSV(csvContent: string): Transaction[] {
-    const lines = csvContent.trim().split("\n");
-    if (lines.length < 2) return [];
+export function parseSchwabTransactionsCSV(csvContent: string): ParseResult<Transaction> {
+    const result = emptyResult<Transaction>();
+    const lines = csvContent.trimEnd().split("\n");
+    if (lines.length < 2) return result;
 
     // Find header row
     let headerIndex = 0;
@@ -130,7 +175,6 @@ export function parseSchwabTransactionsCSV(csvContent: string): Transaction[] {
     }
 
     const headers = parseCSVLine(lines[headerIndex]).map((h) => h.toLowerCase().trim());
-    const transactions: Transaction[] = [];
 
     const dateCol = findColumn(headers, ["date", "trade date"]);
     const actionCol = findColumn(headers, ["action", "type", "transaction type"]);
@@ -142,36 +186,33 @@ export function parseSchwabTransactionsCSV(csvContent: string): Transaction[] {
     const amountCol = findColumn(headers, ["amount", "total", "net amount"]);
 
     for (let i = headerIndex + 1; i < lines.length; i++) {
+        const row = i + 1;
         const line = lines[i].trim();
         if (!line || line.startsWith("\"\"")) continue;
 
         const values = parseCSVLine(line);
         const date = getValue(values, dateCol);
-        const actionRaw = getValue(values, actionCol).toLowerCase();
+        const actionRaw = getValue(values, actionCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
 
-        if (!date) continue;
-
-        // Map Schwab actions to our types
-        let action: Transaction["action"] = "OTHER";
-        if (actionRaw.includes("buy")) action = "BUY";
-        else if (actionRaw.includes("sell")) action = "SELL";
-        else if (actionRaw.includes("dividend") || actionRaw.includes("div")) action = "DIVIDEND";
-        else if (actionRaw.includes("deposit") || actionRaw.includes("transfer in")) action = "DEPOSIT";
-        else if (actionRaw.includes("withdraw") || actionRaw.includes("transfer out")) action = "WITHDRAWAL";
+        if (!date || !isDate(date)) {
+            skipRow(result, row, date ? `Date "${date}" not recognized` : "No date", line);
+            continue;
+        }
 
-        transactions.push({
-            date: parseSchwabDate(date),
-            action,
+        addTransaction(result, row, {
+            date: parseDate(date),
+            action: toAction(actionRaw),
             symbol: getValue(values, symbolCol).toUpperCase() || "--",
             description: getValue(values, descCol),
-            quantity: Math.abs(parseNumber(getValue(values, quantityCol))),
-            price: parseNumber(getValue(values, priceCol)),
-            fees: parseNumber(getValue(values, feesCol)),
-            amount: parseNumber(getValue(values, amountCol)),
-        });
+            quantity: Math.abs(number(quantityCol, "Quantity")),
+            price: number(priceCol, "Price"),
+            fees: number(feesCol, "Fees"),
+            amount: number(amountCol, "Amount"),
+        }, actionRaw, line);
     }
 
-    return transactions;
+    return result;
 }
 
 /**
@@ -198,82 +239,11 @@ export function calculatePortfolioTotals(holdings: Holding[], transactions: Tran
     };
 }
 
-// Helper functions
-function parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-            inQuotes = !inQuotes;
-        } else if (char === "," && !inQuotes) {
-            result.push(current.trim());
-            current = "";
-        } else {
-            current += char;
-        }
-    }
-    result.push(current.trim());
-    return result;
-}
-
-function findColumn(headers: string[], possibleNames: string[]): number {
-    for (const name of possibleNames) {
-        const index = headers.findIndex((h) => h.includes(name));
-        if (index !== -1) return index;
-    }
-    return -1;
-}
-
-function getValue(values: string[], index: number): string {
-    if (index < 0 || index >= values.length) return "";
-    return values[index].replace(/^"|"$/g, "").trim();
-}
-
-function parseNumber(value: string): number {
-    if (!value) return 0;
-    // Remove currency symbols, commas, parentheses (for negative)
-    const cleaned = value.replace(/[$,\s]/g, "").replace(/^\((.+)\)$/, "-$1");
-    const num = parseFloat(cleaned);
-    return isNaN(num) ? 0 : num;
-}
-
-/**
- * Parse Schwab date format (MM/DD/YYYY) to ISO format (YYYY-MM-DD)
- * Schwab exports dates as "01/26/2026" which JavaScript doesn't parse reliably
- */
-function parseSchwabDate(dateStr: string): string {
-    if (!dateStr) return new Date().toISOString();
-
-    // Handle MM/DD/YYYY format
-    const slashMatch = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (slashMatch) {
-        const [, month, day, year] = slashMatch;
-        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-    }
-
-    // Handle YYYY-MM-DD format (already ISO)
-    if (/^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
-        return dateStr;
-    }
-
-    // Try to parse as-is and convert to ISO
-    const parsed = new Date(dateStr);
-    if (!isNaN(parsed.getTime())) {
-        return parsed.toISOString().split('T')[0];
-    }
-
-    // Fallback to current date
-    return new Date().toISOString().split('T')[0];
-}
-
 /**
  * Auto-detect file format and parse transactions
  * Accepts either JSON or CSV content
  */
-export function parseSchwabTransactions(content: string, filename?: string): Transaction[] {
+export function parseSchwabTransactions(content: string, filename?: string): ParseResult<Transaction> {
     const trimmed = content.trim();
 
     // Check if it's JSON (starts with { or [)
@@ -294,9 +264,27 @@ export function parseSchwabTransactions(content: string, filename?: string): Tra
  * Auto-detect file format and parse positions
  * Currently only CSV is supported for positions
  */
-export function parseSchwabPositions(content: string, _filename?: string): Holding[] {
+export function parseSchwabPositions(content: string, _filename?: string): ParseResult<Holding> {
     // Positions are always CSV from Schwab
     return parseSchwabPositionsCSV(content);
 }
 
+/**
+ * How likely a file is a Schwab export, from 0 to 1. Schwab's parser copes
+ * with most simple CSVs, so any file with the right columns scores a little.
+ */
+export function detectSchwab(content: string, _filename: string, kind: ImportKind): number {
+    const head = content.slice(0, 2000).toLowerCase();
+
+    if (kind === "positions") {
+        if (head.includes("positions for")) return 0.9;
+        return head.includes("symbol") && (head.includes("quantity") || head.includes("shares")) ? 0.2 : 0;
+    }
+
+    if (head.includes("brokeragetransactions") || head.includes("fees & comm")) return 0.9;
+    const trimmed = head.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) return 0.3;
+    return head.includes("date") && head.includes("action") ? 0.2 : 0;
+}
+
 export { emptyPortfolio };
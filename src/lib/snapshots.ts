@@ -0,0 +1,138 @@
+import { PortfolioSnapshot } from "./types";
+import { prisma } from "./prisma";
+import { getMultipleQuotes } from "./market-data";
+import { getClubPortfolioId, loadPortfolioData } from "./storage";
+import { getContributedCapital } from "./transaction-replay";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+import { getMarketDate, isTradingDay } from "./trading-calendar";
+import type {
+    Prisma,
+    PortfolioSnapshot as SnapshotRow,
+    PortfolioSnapshotHolding as SnapshotHoldingRow,
+} from "@prisma/client";
+
+type SnapshotWithHoldings = SnapshotRow & { holdings: SnapshotHoldingRow[] };
+
+function toSnapshot(row: SnapshotWithHoldings): PortfolioSnapshot {
+    return {
+        date: row.date.toISOString().split("T")[0],
+        totalValue: row.totalValue,
+        totalCost: row.totalCost,
+        cashBalance: row.cashBalance,
+        contributedCapital: row.contributedCapital,
+        takenAt: row.createdAt.toISOString(),
+        holdings: row.holdings.map((h) => ({
+            symbol: h.symbol,
+            quantity: h.quantity,
+            price: h.price,
+            marketValue: h.marketValue,
+        })),
+    };
+}
+
+/**
+ * Value the club portfolio at current prices and store it as today's snapshot.
+ * Running again on the same day replaces that day's snapshot.
+ * Returns null on weekends and market holidays.
+ */
+export async function takePortfolioSnapshot(now: Date = new Date()): Promise<PortfolioSnapshot | null> {
+    const date = getMarketDate(now);
+    if (!isTradingDay(date)) return null;
+
+    const snapshotDate = new Date(`${date}T00:00:00Z`);
+    const portfolioId = await getClubPortfolioId();
+    const [portfolio, actions, previous] = await Promise.all([
+        loadPortfolioData(),
+        loadCorporateActions(),
+        prisma.portfolioSnapshot.findFirst({
+            where: { portfolioId, date: { lt: snapshotDate } },
+            include: { holdings: true },
+            orderBy: { date: "desc" },
+        }),
+    ]);
+
+    const quotes = await getMultipleQuotes(portfolio.holdings.map((h) => h.symbol), { waitForFresh: true });
+    const previousPrices = new Map<string, number>(
+        (previous?.holdings ?? []).map((h: SnapshotHoldingRow) => [h.symbol, h.price])
+    );
+
+    const holdings = portfolio.holdings.map((h) => {
+        // Carry the last stored price forward if the provider stops quoting a symbol
+        const price = quotes.get(h.symbol)?.currentPrice || previousPrices.get(h.symbol) || h.currentPrice;
+        return {
+            symbol: h.symbol,
+            quantity: h.quantity,
+            price,
+            marketValue: h.quantity * price,
+        };
+    });
+
+    const holdingsValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
+    const totalCost = portfolio.holdings.reduce((sum, h) => sum + h.costPerShare * h.quantity, 0);
+    const contributedCapital = getContributedCapital(
+        portfolio.holdings,
+        applyCorporateActions(portfolio.transactions, actions),
+        portfolio.cashBalance
+    );
+
+    const row = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.portfolioSnapshot.deleteMany({ where: { portfolioId, date: snapshotDate } });
+        return tx.portfolioSnapshot.create({
+            data: {
+                portfolioId,
+                date: snapshotDate,
+                totalValue: holdingsValue + portfolio.cashBalance,
+                totalCost,
+                cashBalance: portfolio.cashBalance,
+                contributedCapital,
+                holdings: { create: holdings },
+            },
+            include: { holdings: true },
+        });
+    });
+
+    return toSnapshot(row);
+}
+
+/**
+ * Snapshots of the club portfolio from a YYYY-MM-DD date onwards, oldest first
+ */
+export async function loadSnapshots(startDate?: string): Promise<PortfolioSnapshot[]> {
+    const portfolioId = await getClubPortfolioId();
+    const rows = await prisma.portfolioSnapshot.findMany({
+        where: {
+            portfolioId,
+            ...(startDate ? { date: { gte: new Date(`${startDate}T00:00:00Z`) } } : {}),
+        },
+        include: { holdings: true },
+        orderBy: { date: "asc" },
+    });
+
+    return rows.map(toSnapshot);
+}
+
+/**
+ * Whether any snapshot predates a YYYY-MM-DD date, i.e. snapshots cover
+ * everything from that date on
+ */
+export async function hasSnapshotBefore(date: string): Promise<boolean> {
+    const portfolioId = await getClubPortfolioId();
+    const count = await prisma.portfolioSnapshot.count({
+        where: { portfolioId, date: { lt: new Date(`${date}T00:00:00Z`) } },
+    });
+    return count > 0;
+}
+
+/**
+ * Most recent snapshot, or null before the first one has been taken
+ */
+export async function getLatestSnapshot(db: Prisma.TransactionClient = prisma): Promise<PortfolioSnapshot | null> {
+    const portfolioId = await getClubPortfolioId(db);
+    const row = await db.portfolioSnapshot.findFirst({
+        where: { portfolioId },
+        include: { holdings: true },
+        orderBy: { date: "desc" },
+    });
+
+    return row ? toSnapshot(row) : null;
+}
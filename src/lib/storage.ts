@@ -1,43 +1,173 @@
-import { PortfolioData, emptyPortfolio } from "./types";
+import { PortfolioData, Holding, Transaction, ImportSummary, ImportSource, emptyPortfolio } from "./types";
 import { prisma } from "./prisma";
-import type { Prisma } from "@prisma/client";
+import { planTransactionImport, summarizeImportPlan } from "./transaction-merge";
+import type { Prisma, Holding as HoldingRow, Transaction as TransactionRow } from "@prisma/client";
+
+export function toHolding(h: HoldingRow): Holding {
+    return {
+        symbol: h.symbol,
+        name: h.name,
+        quantity: h.quantity,
+        costPerShare: h.costPerShare,
+        currentPrice: h.currentPrice,
+        marketValue: h.marketValue,
+        gainLoss: h.gainLoss,
+        gainLossPercent: h.gainLossPercent,
+    };
+}
+
+export function toTransaction(t: TransactionRow): Transaction {
+    return {
+        date: t.date.toISOString(),
+        action: t.action as Transaction["action"],
+        symbol: t.symbol,
+        description: t.description,
+        quantity: t.quantity,
+        price: t.price,
+        fees: t.fees,
+        amount: t.amount,
+    };
+}
 
 /**
- * Save portfolio data to database
+ * Get the id of the club-owned portfolio, creating it on first use.
+ * Before the unit ledger existed the club's data lived on the first admin's
+ * portfolio; that record is adopted as the club portfolio so no history is lost.
  */
-export async function savePortfolioData(userId: string, data: PortfolioData): Promise<void> {
-    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-        // Upsert portfolio record
-        const portfolio = await tx.portfolio.upsert({
-            where: { userId },
-            create: {
-                userId,
-                totalValue: data.totalValue,
-                totalCost: data.totalCost,
-                totalGainLoss: data.totalGainLoss,
-                totalGainLossPercent: data.totalGainLossPercent,
-                cashBalance: data.cashBalance,
-                lastUpdated: new Date(data.lastUpdated),
-            },
-            update: {
-                totalValue: data.totalValue,
-                totalCost: data.totalCost,
-                totalGainLoss: data.totalGainLoss,
-                totalGainLossPercent: data.totalGainLossPercent,
-                cashBalance: data.cashBalance,
-                lastUpdated: new Date(data.lastUpdated),
-            },
+export async function getClubPortfolioId(db: Prisma.TransactionClient = prisma): Promise<string> {
+    const clubPortfolio = await db.portfolio.findFirst({
+        where: { userId: null },
+        select: { id: true },
+    });
+    if (clubPortfolio) return clubPortfolio.id;
+
+    const adminPortfolio = await db.portfolio.findFirst({
+        where: { user: { role: "ADMIN" } },
+        orderBy: { lastUpdated: "desc" },
+        select: { id: true },
+    });
+    if (adminPortfolio) {
+        await db.portfolio.update({
+            where: { id: adminPortfolio.id },
+            data: { userId: null },
+        });
+        return adminPortfolio.id;
+    }
+
+    const created = await db.portfolio.create({ data: {}, select: { id: true } });
+    return created.id;
+}
+
+/**
+ * Preview how an uploaded transaction history would merge into the stored one
+ */
+export async function previewTransactionImport(transactions: Transaction[]): Promise<ImportSummary> {
+    const portfolioId = await getClubPortfolioId();
+    const existing = await prisma.transaction.findMany({ where: { portfolioId } });
+    return summarizeImportPlan(planTransactionImport(existing.map(toTransaction), transactions));
+}
+
+/**
+ * Filter selecting the club's current holdings: those from the most recent
+ * import batch that included positions, or pre-batch rows if there is none.
+ */
+export async function currentHoldingsWhere(
+    portfolioId: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<Prisma.HoldingWhereInput> {
+    const batch = await db.importBatch.findFirst({
+        where: { portfolioId, holdingsCount: { gt: 0 } },
+        orderBy: { createdAt: "desc" },
+        select: { id: true },
+    });
+    return batch ? { importBatchId: batch.id } : { portfolioId, importBatchId: null };
+}
+
+/**
+ * Recalculate the portfolio totals from its current holdings, and the cash
+ * balance from the upload they came from
+ */
+export async function refreshPortfolioTotals(portfolioId: string, db: Prisma.TransactionClient = prisma): Promise<void> {
+    const holdings = await db.holding.findMany({ where: await currentHoldingsWhere(portfolioId, db) });
+    const [latestBatch, positionsBatch] = await Promise.all([
+        db.importBatch.findFirst({
+            where: { portfolioId },
+            orderBy: { createdAt: "desc" },
+            select: { createdAt: true },
+        }),
+        db.importBatch.findFirst({
+            where: { portfolioId, holdingsCount: { gt: 0 } },
+            orderBy: { createdAt: "desc" },
+            select: { cashBalance: true },
+        }),
+    ]);
+
+    // Uploads from before cash was recorded leave the balance as it is
+    const cashBalance = positionsBatch
+        ? positionsBatch.cashBalance ?? undefined
+        : holdings.length === 0 ? 0 : undefined;
+
+    const totalValue = holdings.reduce((sum: number, h: HoldingRow) => sum + h.marketValue, 0);
+    const totalCost = holdings.reduce((sum: number, h: HoldingRow) => sum + h.costPerShare * h.quantity, 0);
+    const totalGainLoss = totalValue - totalCost;
+
+    await db.portfolio.update({
+        where: { id: portfolioId },
+        data: {
+            totalValue,
+            totalCost,
+            totalGainLoss,
+            totalGainLossPercent: totalCost > 0 ? (totalGainLoss / totalCost) * 100 : 0,
+            cashBalance,
+            lastUpdated: latestBatch?.createdAt ?? new Date(),
+        },
+    });
+}
+
+/**
+ * Save an upload to the club portfolio as a new import batch.
+ * Holdings are a point-in-time snapshot and supersede the previous batch's;
+ * transactions are merged into the existing history so a short export never
+ * wipes older records.
+ */
+export async function savePortfolioData(
+    data: PortfolioData,
+    source: ImportSource,
+    uploadedById: string
+): Promise<ImportSummary> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const portfolioId = await getClubPortfolioId(tx);
+
+        // Merge transactions: insert only rows we haven't seen before
+        const existing = await tx.transaction.findMany({
+            where: { portfolioId },
         });
+        const plan = planTransactionImport(
+            existing.map((t: TransactionRow) => ({ ...toTransaction(t), id: t.id })),
+            data.transactions
+        );
+        const summary = summarizeImportPlan(plan);
 
-        // Delete existing holdings and create new ones
-        await tx.holding.deleteMany({
-            where: { portfolioId: portfolio.id },
+        const batch = await tx.importBatch.create({
+            data: {
+                portfolioId,
+                uploadedById,
+                positionsFile: source.positionsFile,
+                transactionsFile: source.transactionsFile,
+                parser: source.parser,
+                holdingsCount: data.holdings.length,
+                transactionsAdded: summary.added,
+                duplicatesSkipped: summary.duplicates,
+                conflicts: summary.conflicts,
+                cashBalance: data.holdings.length > 0 ? data.cashBalance : null,
+            },
         });
 
         if (data.holdings.length > 0) {
             await tx.holding.createMany({
                 data: data.holdings.map((h: typeof data.holdings[0]) => ({
-                    portfolioId: portfolio.id,
+                    portfolioId,
+                    importBatchId: batch.id,
                     symbol: h.symbol,
                     name: h.name,
                     quantity: h.quantity,
@@ -48,17 +178,32 @@ export async function savePortfolioData(userId: string, data: PortfolioData): Pr
                     gainLossPercent: h.gainLossPercent,
                 })),
             });
+
+            await tx.portfolio.update({
+                where: { id: portfolioId },
+                data: {
+                    totalValue: data.totalValue,
+                    totalCost: data.totalCost,
+                    totalGainLoss: data.totalGainLoss,
+                    totalGainLossPercent: data.totalGainLossPercent,
+                    cashBalance: data.cashBalance,
+                    lastUpdated: new Date(data.lastUpdated),
+                },
+            });
         }
 
-        // Delete existing transactions and create new ones (replace all)
-        await tx.transaction.deleteMany({
-            where: { portfolioId: portfolio.id },
-        });
+        // Remember which rows this upload also contained, for rollbacks
+        if (plan.matched.length > 0) {
+            await tx.importMatch.createMany({
+                data: plan.matched.map((t) => ({ importBatchId: batch.id, transactionId: t.id })),
+            });
+        }
 
-        if (data.transactions.length > 0) {
+        if (plan.toInsert.length > 0) {
             await tx.transaction.createMany({
-                data: data.transactions.map((t: typeof data.transactions[0]) => ({
-                    portfolioId: portfolio.id,
+                data: plan.toInsert.map((t: Transaction) => ({
+                    portfolioId,
+                    importBatchId: batch.id,
                     date: new Date(t.date),
                     action: t.action,
                     symbol: t.symbol,
@@ -70,68 +215,37 @@ export async function savePortfolioData(userId: string, data: PortfolioData): Pr
                 })),
             });
         }
+
+        return summary;
     });
 }
 
 /**
- * Load portfolio data from database
- * For a stock club, all members share the same portfolio.
- * If the user has no portfolio, load the club portfolio (uploaded by an admin).
+ * Load the club portfolio from database
+ * For a stock club, all members share the same club-owned portfolio.
  */
-export async function loadPortfolioData(userId: string): Promise<PortfolioData> {
-    let portfolio = await prisma.portfolio.findUnique({
-        where: { userId },
+export async function loadPortfolioData(): Promise<PortfolioData> {
+    const portfolioId = await getClubPortfolioId();
+    const portfolio = await prisma.portfolio.findUnique({
+        where: { id: portfolioId },
         include: {
-            holdings: true,
             transactions: {
                 orderBy: { date: 'desc' },
             },
         },
     });
 
-    // If user has no portfolio, load the shared club portfolio from an admin
-    if (!portfolio) {
-        const adminUser = await prisma.user.findFirst({
-            where: { role: "ADMIN" },
-            include: {
-                portfolio: {
-                    include: {
-                        holdings: true,
-                        transactions: {
-                            orderBy: { date: 'desc' },
-                        },
-                    },
-                },
-            },
-        });
-        portfolio = adminUser?.portfolio ?? null;
-    }
-
     if (!portfolio) {
         return emptyPortfolio;
     }
 
+    const holdings = await prisma.holding.findMany({
+        where: await currentHoldingsWhere(portfolioId),
+    });
+
     return {
-        holdings: portfolio.holdings.map((h: typeof portfolio.holdings[0]) => ({
-            symbol: h.symbol,
-            name: h.name,
-            quantity: h.quantity,
-            costPerShare: h.costPerShare,
-            currentPrice: h.currentPrice,
-            marketValue: h.marketValue,
-            gainLoss: h.gainLoss,
-            gainLossPercent: h.gainLossPercent,
-        })),
-        transactions: portfolio.transactions.map((t: typeof portfolio.transactions[0]) => ({
-            date: t.date.toISOString(),
-            action: t.action as "BUY" | "SELL" | "DIVIDEND" | "DEPOSIT" | "WITHDRAWAL" | "OTHER",
-            symbol: t.symbol,
-            description: t.description,
-            quantity: t.quantity,
-            price: t.price,
-            fees: t.fees,
-            amount: t.amount,
-        })),
+        holdings: holdings.map(toHolding),
+        transactions: portfolio.transactions.map(toTransaction),
         totalValue: portfolio.totalValue,
         totalCost: portfolio.totalCost,
         totalGainLoss: portfolio.totalGainLoss,
@@ -142,20 +256,25 @@ export async function loadPortfolioData(userId: string): Promise<PortfolioData>
 }
 
 /**
- * Clear stored portfolio data
+ * Clear stored holdings and transactions from the club portfolio.
+ * The portfolio record itself is kept so the unit ledger survives.
  */
-export async function clearPortfolioData(userId: string): Promise<void> {
-    await prisma.portfolio.delete({
-        where: { userId },
-    });
+export async function clearPortfolioData(): Promise<void> {
+    const portfolioId = await getClubPortfolioId();
+    await prisma.$transaction([
+        prisma.holding.deleteMany({ where: { portfolioId } }),
+        prisma.transaction.deleteMany({ where: { portfolioId } }),
+        prisma.importBatch.deleteMany({ where: { portfolioId } }),
+        prisma.lot.deleteMany({ where: { portfolioId } }),
+    ]);
 }
 
 /**
- * Check if user has portfolio data
+ * Check if the club portfolio has any holdings
  */
-export async function hasPortfolioData(userId: string): Promise<boolean> {
-    const count = await prisma.portfolio.count({
-        where: { userId },
+export async function hasPortfolioData(): Promise<boolean> {
+    const count = await prisma.holding.count({
+        where: { portfolio: { userId: null } },
     });
     return count > 0;
 }
@@ -174,7 +293,7 @@ export async function migrateLocalStorageToDatabase(userId: string): Promise<voi
 
     try {
         const data = JSON.parse(stored) as PortfolioData;
-        await savePortfolioData(userId, data);
+        await savePortfolioData(data, { positionsFile: null, transactionsFile: null, parser: "localStorage" }, userId);
 
         // Optionally clear localStorage after successful migration
         localStorage.removeItem(STORAGE_KEY);
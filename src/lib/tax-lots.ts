@@ -0,0 +1,386 @@
+import { Transaction, CostBasisMethod, TaxLot, LotSale, SymbolLots } from "./types";
+import { prisma } from "./prisma";
+import { currentHoldingsWhere, getClubPortfolioId, toHolding, toTransaction } from "./storage";
+import { getFallbackPrices, openingState, shareDelta } from "./transaction-replay";
+import { SpinOff, applyCorporateActions, loadCorporateActions, spinOffsInTodaysTerms } from "./corporate-actions";
+import type {
+    Prisma,
+    Lot as LotRow,
+    LotSale as LotSaleRow,
+    Transaction as TransactionRow,
+} from "@prisma/client";
+
+export class LotError extends Error {}
+
+export interface LotTransaction extends Transaction {
+    id: string;
+}
+
+export interface LotChoice {
+    sellTransactionId: string;
+    acquiredTransactionId: string | null;
+    quantity: number;
+}
+
+export interface OpeningLot {
+    symbol: string;
+    quantity: number;
+    costPerShare: number;
+}
+
+export interface MatchedLot {
+    symbol: string;
+    acquiredTransactionId: string | null;
+    acquiredDate: string;
+    quantity: number;
+    remainingQuantity: number;
+    costPerShare: number;
+}
+
+export interface MatchedSale {
+    lotIndex: number;
+    sellTransactionId: string;
+    soldDate: string;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+}
+
+// Shares below this are rounding left over from fractional quantities
+const EPSILON = 1e-6;
+
+/**
+ * Whether shares bought on one date and sold on another were held more than
+ * a year (long-term for tax purposes)
+ */
+export function isLongTerm(acquiredDate: string, soldDate: string): boolean {
+    const acquired = new Date(acquiredDate);
+    const oneYearLater = Date.UTC(acquired.getUTCFullYear() + 1, acquired.getUTCMonth(), acquired.getUTCDate());
+    return Date.parse(soldDate.slice(0, 10)) > oneYearLater;
+}
+
+// Order in which a sell draws from the lots still open
+function sortForMethod(lots: MatchedLot[], method: CostBasisMethod): MatchedLot[] {
+    const sorted = [...lots];
+    if (method === "LIFO") {
+        return sorted.sort((a, b) => b.acquiredDate.localeCompare(a.acquiredDate));
+    }
+    if (method === "HIFO") {
+        return sorted.sort((a, b) => b.costPerShare - a.costPerShare || a.acquiredDate.localeCompare(b.acquiredDate));
+    }
+    // FIFO, and the fallback for specific-ID sales with no lots chosen
+    return sorted.sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+}
+
+// Give every lot of the parent still open a lot of the new company, acquired
+// with it, and move the allocated share of its basis over
+function spinOff(lots: MatchedLot[], event: SpinOff): void {
+    for (const lot of lots.filter((l) => l.symbol === event.symbol && l.remainingQuantity > EPSILON)) {
+        const quantity = lot.remainingQuantity * event.ratio;
+        lots.push({
+            symbol: event.newSymbol,
+            acquiredTransactionId: lot.acquiredTransactionId,
+            acquiredDate: lot.acquiredDate,
+            quantity,
+            remainingQuantity: quantity,
+            costPerShare: (lot.costPerShare * event.costAllocation) / event.ratio,
+        });
+        lot.costPerShare *= 1 - event.costAllocation;
+    }
+}
+
+/**
+ * Build lots from buys and reinvested dividends and match every sell against
+ * them. Opening lots are dated to the first transaction. Specific-ID sales
+ * use the chosen lots first and FIFO for any shares not chosen. Transactions
+ * and spin-offs are expected in today's terms (see applyCorporateActions), so
+ * splits and ticker changes need no handling here.
+ */
+export function matchLots(
+    transactions: LotTransaction[],
+    openingLots: OpeningLot[],
+    method: CostBasisMethod,
+    choices: LotChoice[] = [],
+    spinOffs: SpinOff[] = []
+): { lots: MatchedLot[]; sales: MatchedSale[] } {
+    // Same-day buys go before sells so a day trade doesn't go short
+    const sorted = [...transactions].sort(
+        (a, b) => a.date.slice(0, 10).localeCompare(b.date.slice(0, 10)) || shareDelta(b) - shareDelta(a)
+    );
+    const startDate = sorted[0]?.date ?? new Date().toISOString();
+
+    const lots: MatchedLot[] = openingLots
+        .filter((l) => l.quantity > EPSILON)
+        .map((l) => ({
+            symbol: l.symbol.toUpperCase(),
+            acquiredTransactionId: null,
+            acquiredDate: startDate,
+            quantity: l.quantity,
+            remainingQuantity: l.quantity,
+            costPerShare: l.costPerShare,
+        }));
+    const sales: MatchedSale[] = [];
+
+    const draw = (lot: MatchedLot, quantity: number, sell: LotTransaction) => {
+        lot.remainingQuantity -= quantity;
+        sales.push({
+            lotIndex: lots.indexOf(lot),
+            sellTransactionId: sell.id,
+            soldDate: sell.date,
+            quantity,
+            proceeds: sell.quantity > 0 ? (sell.amount * quantity) / sell.quantity : 0,
+            costBasis: quantity * lot.costPerShare,
+        });
+    };
+
+    // Spin-offs take effect before that day's trades
+    const pending = [...spinOffs].sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const t of sorted) {
+        while (pending.length > 0 && pending[0].date.slice(0, 10) <= t.date.slice(0, 10)) {
+            spinOff(lots, pending.shift()!);
+        }
+
+        const delta = shareDelta(t);
+        if (delta === 0 || !t.symbol) continue;
+        const symbol = t.symbol.toUpperCase();
+
+        if (delta > 0) {
+            lots.push({
+                symbol,
+                acquiredTransactionId: t.id,
+                acquiredDate: t.date,
+                quantity: delta,
+                remainingQuantity: delta,
+                costPerShare: Math.abs(t.amount) / delta,
+            });
+            continue;
+        }
+
+        let toSell = -delta;
+        const open = lots.filter((l) => l.symbol === symbol && l.remainingQuantity > EPSILON);
+
+        if (method === "SPECIFIC_ID") {
+            for (const choice of choices.filter((c) => c.sellTransactionId === t.id)) {
+                const lot = open.find((l) => l.acquiredTransactionId === choice.acquiredTransactionId);
+                if (!lot) continue;
+                const quantity = Math.min(choice.quantity, lot.remainingQuantity, toSell);
+                if (quantity <= EPSILON) continue;
+                draw(lot, quantity, t);
+                toSell -= quantity;
+            }
+        }
+
+        for (const lot of sortForMethod(open, method)) {
+            if (toSell <= EPSILON) break;
+            const quantity = Math.min(lot.remainingQuantity, toSell);
+            if (quantity <= EPSILON) continue;
+            draw(lot, quantity, t);
+            toSell -= quantity;
+        }
+        // Anything left over was sold from shares the history never shows being
+        // bought; with no cost to match it against it's left out of the lots
+    }
+    for (const event of pending) spinOff(lots, event);
+
+    return { lots, sales };
+}
+
+/**
+ * Rebuild the club's lots and lot sales from its transaction history.
+ * Call after anything that changes the history, the method or the chosen lots.
+ */
+export async function rebuildLots(): Promise<void> {
+    const portfolioId = await getClubPortfolioId();
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const [portfolio, holdingRows, transactionRows, choices, actions] = await Promise.all([
+            tx.portfolio.findUniqueOrThrow({
+                where: { id: portfolioId },
+                select: { cashBalance: true, costBasisMethod: true },
+            }),
+            tx.holding.findMany({ where: await currentHoldingsWhere(portfolioId, tx) }),
+            tx.transaction.findMany({ where: { portfolioId }, orderBy: { date: "asc" } }),
+            tx.lotSelection.findMany({ where: { portfolioId } }),
+            loadCorporateActions(tx),
+        ]);
+
+        const holdings = holdingRows.map(toHolding);
+        const transactions: LotTransaction[] = applyCorporateActions(
+            transactionRows.map((t: TransactionRow) => ({ ...toTransaction(t), id: t.id })),
+            actions
+        );
+
+        const fallbackPrices = getFallbackPrices(holdings, transactions);
+        const opening = openingState(holdings, transactions, portfolio.cashBalance, fallbackPrices);
+        const spinOffs = spinOffsInTodaysTerms(actions);
+
+        // Shares a spin-off handed out weren't held before the history starts
+        for (const event of spinOffs) {
+            const parentShares = transactions
+                .filter((t) => t.symbol.toUpperCase() === event.symbol && t.date.slice(0, 10) < event.date.slice(0, 10))
+                .reduce((sum, t) => sum + shareDelta(t), opening.shares.get(event.symbol) ?? 0);
+            const remaining = (opening.shares.get(event.newSymbol) ?? 0) - parentShares * event.ratio;
+            if (remaining > EPSILON) {
+                opening.shares.set(event.newSymbol, remaining);
+            } else {
+                opening.shares.delete(event.newSymbol);
+            }
+        }
+
+        const openingLots: OpeningLot[] = [...opening.shares].map(([symbol, quantity]) => ({
+            symbol,
+            quantity,
+            costPerShare: holdings.find((h) => h.symbol.toUpperCase() === symbol)?.costPerShare
+                ?? fallbackPrices.get(symbol)
+                ?? 0,
+        }));
+
+        const { lots, sales } = matchLots(transactions, openingLots, portfolio.costBasisMethod, choices, spinOffs);
+
+        // Sales cascade with their lots
+        await tx.lot.deleteMany({ where: { portfolioId } });
+
+        for (const [index, lot] of lots.entries()) {
+            const lotSales = sales.filter((s) => s.lotIndex === index);
+            await tx.lot.create({
+                data: {
+                    portfolioId,
+                    acquiredTransactionId: lot.acquiredTransactionId,
+                    symbol: lot.symbol,
+                    acquiredDate: new Date(lot.acquiredDate),
+                    quantity: lot.quantity,
+                    remainingQuantity: Math.max(lot.remainingQuantity, 0),
+                    costPerShare: lot.costPerShare,
+                    sales: {
+                        create: lotSales.map((s) => ({
+                            sellTransactionId: s.sellTransactionId,
+                            soldDate: new Date(s.soldDate),
+                            quantity: s.quantity,
+                            proceeds: s.proceeds,
+                            costBasis: s.costBasis,
+                            gain: s.proceeds - s.costBasis,
+                        })),
+                    },
+                },
+            });
+        }
+    }, { timeout: 30000 });
+}
+
+function toTaxLot(row: LotRow, today: string): TaxLot {
+    return {
+        id: row.id,
+        symbol: row.symbol,
+        acquiredTransactionId: row.acquiredTransactionId,
+        acquiredDate: row.acquiredDate.toISOString(),
+        quantity: row.quantity,
+        remainingQuantity: row.remainingQuantity,
+        costPerShare: row.costPerShare,
+        longTerm: isLongTerm(row.acquiredDate.toISOString(), today),
+    };
+}
+
+export function toLotSale(row: LotSaleRow & { lot: LotRow }): LotSale {
+    const acquiredDate = row.lot.acquiredDate.toISOString();
+    const soldDate = row.soldDate.toISOString();
+    return {
+        id: row.id,
+        lotId: row.lotId,
+        symbol: row.lot.symbol,
+        sellTransactionId: row.sellTransactionId,
+        acquiredDate,
+        soldDate,
+        quantity: row.quantity,
+        proceeds: row.proceeds,
+        costBasis: row.costBasis,
+        gain: row.gain,
+        longTerm: isLongTerm(acquiredDate, soldDate),
+    };
+}
+
+/**
+ * Lots and realized sales for one symbol
+ */
+export async function loadSymbolLots(symbol: string): Promise<SymbolLots> {
+    const portfolioId = await getClubPortfolioId();
+    const upper = symbol.toUpperCase();
+
+    const [portfolio, lots, sales] = await Promise.all([
+        prisma.portfolio.findUniqueOrThrow({ where: { id: portfolioId }, select: { costBasisMethod: true } }),
+        prisma.lot.findMany({ where: { portfolioId, symbol: upper }, orderBy: { acquiredDate: "asc" } }),
+        prisma.lotSale.findMany({
+            where: { lot: { portfolioId, symbol: upper } },
+            include: { lot: true },
+            orderBy: [{ soldDate: "desc" }, { sellTransactionId: "asc" }, { lot: { acquiredDate: "asc" } }],
+        }),
+    ]);
+
+    return {
+        symbol: upper,
+        method: portfolio.costBasisMethod,
+        lots: lots.map((l: LotRow) => toTaxLot(l, new Date().toISOString())),
+        sales: sales.map(toLotSale),
+    };
+}
+
+/**
+ * Change how sells are matched to lots and rebuild the lots
+ */
+export async function setCostBasisMethod(method: CostBasisMethod): Promise<void> {
+    const portfolioId = await getClubPortfolioId();
+    await prisma.portfolio.update({ where: { id: portfolioId }, data: { costBasisMethod: method } });
+    await rebuildLots();
+}
+
+/**
+ * Choose the lots a sell draws from (specific identification), replacing any
+ * earlier choice for it, and rebuild the lots. An empty list clears the choice.
+ * Quantities are shares in today's terms, after splits and ticker changes,
+ * the same as the lots and sales they are matched against.
+ */
+export async function chooseLotsForSale(
+    sellTransactionId: string,
+    choices: { acquiredTransactionId: string | null; quantity: number }[]
+): Promise<void> {
+    const portfolioId = await getClubPortfolioId();
+    const row = await prisma.transaction.findFirst({
+        where: { id: sellTransactionId, portfolioId, action: "SELL" },
+    });
+    if (!row) throw new LotError("Sale not found");
+
+    // Restate the sale the way rebuildLots does before checking it against lots
+    const [sell] = applyCorporateActions([toTransaction(row)], await loadCorporateActions());
+
+    if (choices.some((c) => !(c.quantity > 0))) {
+        throw new LotError("Quantities must be greater than zero");
+    }
+    const total = choices.reduce((sum, c) => sum + c.quantity, 0);
+    if (total > sell.quantity + EPSILON) {
+        throw new LotError(`Chosen lots add up to ${total} shares but the sale was ${sell.quantity}`);
+    }
+
+    const lots = await prisma.lot.findMany({ where: { portfolioId, symbol: sell.symbol.toUpperCase() } });
+    for (const choice of choices) {
+        const lot = lots.find((l: LotRow) => l.acquiredTransactionId === choice.acquiredTransactionId);
+        if (!lot || lot.acquiredDate > row.date) {
+            throw new LotError("Chosen lots must be held when the sale was made");
+        }
+        if (choice.quantity > lot.quantity + EPSILON) {
+            throw new LotError("A lot can't supply more shares than it was bought with");
+        }
+    }
+
+    await prisma.$transaction([
+        prisma.lotSelection.deleteMany({ where: { sellTransactionId } }),
+        prisma.lotSelection.createMany({
+            data: choices.map((c) => ({
+                portfolioId,
+                sellTransactionId,
+                acquiredTransactionId: c.acquiredTransactionId,
+                quantity: c.quantity,
+            })),
+        }),
+    ]);
+    await rebuildLots();
+}
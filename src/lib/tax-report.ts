@@ -0,0 +1,151 @@
+import { CostBasisMethod, LotSale, RealizedSale, GainTotals, DividendIncome, TaxYearReport } from "./types";
+import { prisma } from "./prisma";
+import { getClubPortfolioId, toTransaction } from "./storage";
+import { LotTransaction, toLotSale } from "./tax-lots";
+import { applyCorporateActions, loadCorporateActions } from "./corporate-actions";
+import { toCSV } from "./csv";
+import type { Transaction as TransactionRow } from "@prisma/client";
+
+const yearOf = (date: string) => Number(date.slice(0, 4));
+
+function addTo(totals: GainTotals, sale: LotSale): void {
+    totals.proceeds += sale.proceeds;
+    totals.costBasis += sale.costBasis;
+    totals.gain += sale.gain;
+}
+
+// Cash dividends; reinvestments show up as a second, negative dividend row
+function isDividendIncome(t: LotTransaction): boolean {
+    return t.action === "DIVIDEND" && t.amount > 0;
+}
+
+/**
+ * Realized gains for every sell in a tax year, split into short-term and
+ * long-term by the lots each sell drew from, plus dividend income by symbol
+ */
+export function buildTaxYearReport(
+    year: number,
+    method: CostBasisMethod,
+    transactions: LotTransaction[],
+    lotSales: LotSale[]
+): TaxYearReport {
+    const sells = transactions
+        .filter((t) => t.action === "SELL" && yearOf(t.date) === year)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const shortTerm: GainTotals = { proceeds: 0, costBasis: 0, gain: 0 };
+    const longTerm: GainTotals = { proceeds: 0, costBasis: 0, gain: 0 };
+
+    const sales: RealizedSale[] = sells.map((t) => {
+        const pieces = lotSales.filter((s) => s.sellTransactionId === t.id);
+        const unmatched = t.quantity - pieces.reduce((sum, s) => sum + s.quantity, 0);
+
+        for (const piece of pieces) {
+            addTo(piece.longTerm ? longTerm : shortTerm, piece);
+        }
+
+        return {
+            sellTransactionId: t.id,
+            date: t.date,
+            symbol: t.symbol,
+            quantity: t.quantity,
+            proceeds: t.amount,
+            costBasis: pieces.reduce((sum, s) => sum + s.costBasis, 0),
+            shortTermGain: pieces.filter((s) => !s.longTerm).reduce((sum, s) => sum + s.gain, 0),
+            longTermGain: pieces.filter((s) => s.longTerm).reduce((sum, s) => sum + s.gain, 0),
+            unmatchedQuantity: unmatched > 1e-6 ? unmatched : 0,
+        };
+    });
+
+    const bySymbol = new Map<string, DividendIncome>();
+    for (const t of transactions) {
+        if (!isDividendIncome(t) || yearOf(t.date) !== year) continue;
+        const symbol = t.symbol.toUpperCase();
+        const income = bySymbol.get(symbol) ?? { symbol, amount: 0, payments: 0 };
+        income.amount += t.amount;
+        income.payments++;
+        bySymbol.set(symbol, income);
+    }
+    const dividends = [...bySymbol.values()].sort((a, b) => b.amount - a.amount);
+
+    const years = new Set<number>([year]);
+    for (const t of transactions) {
+        if (t.action === "SELL" || isDividendIncome(t)) years.add(yearOf(t.date));
+    }
+
+    return {
+        year,
+        years: [...years].sort((a, b) => b - a),
+        method,
+        sales,
+        shortTerm,
+        longTerm,
+        dividends,
+        totalDividends: dividends.reduce((sum, d) => sum + d.amount, 0),
+    };
+}
+
+/**
+ * The tax year report for the club portfolio
+ */
+export async function loadTaxYearReport(year: number): Promise<TaxYearReport> {
+    const portfolioId = await getClubPortfolioId();
+
+    const [portfolio, transactionRows, saleRows, actions] = await Promise.all([
+        prisma.portfolio.findUniqueOrThrow({ where: { id: portfolioId }, select: { costBasisMethod: true } }),
+        prisma.transaction.findMany({
+            where: { portfolioId, action: { in: ["SELL", "DIVIDEND"] } },
+            orderBy: { date: "asc" },
+        }),
+        prisma.lotSale.findMany({
+            where: { lot: { portfolioId } },
+            include: { lot: true },
+        }),
+        loadCorporateActions(),
+    ]);
+
+    // Sale quantities in the same split-adjusted terms as the lots
+    const transactions: LotTransaction[] = applyCorporateActions(
+        transactionRows.map((t: TransactionRow) => ({ ...toTransaction(t), id: t.id })),
+        actions
+    );
+    return buildTaxYearReport(year, portfolio.costBasisMethod, transactions, saleRows.map(toLotSale));
+}
+
+/**
+ * The report's sales and dividend income as CSV, one row per line item
+ */
+export function taxYearReportToCSV(report: TaxYearReport): string {
+    const round = (n: number) => n.toFixed(2);
+
+    return toCSV(
+        ["Type", "Date", "Symbol", "Quantity", "Proceeds", "Cost Basis", "Short-Term Gain", "Long-Term Gain", "Dividends", "Note"],
+        [
+            ...report.sales.map((s) => [
+                "Sale",
+                s.date.slice(0, 10),
+                s.symbol,
+                s.quantity,
+                round(s.proceeds),
+                round(s.costBasis),
+                round(s.shortTermGain),
+                round(s.longTermGain),
+                "",
+                s.unmatchedQuantity > 0 ? `${s.unmatchedQuantity} shares have no recorded cost basis` : "",
+            ]),
+            ...report.dividends.map((d) => [
+                "Dividends",
+                String(report.year),
+                d.symbol,
+                "",
+                "",
+                "",
+                "",
+                "",
+                round(d.amount),
+                `${d.payments} payments`,
+            ]),
+            ["Total", String(report.year), "", "", "", "", round(report.shortTerm.gain), round(report.longTerm.gain), round(report.totalDividends), ""],
+        ]
+    );
+}
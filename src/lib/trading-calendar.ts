@@ -0,0 +1,279 @@
+import { MarketSession, MarketStatus } from "./types";
+
+/**
+ * NYSE trading calendar: holidays, early closes and the pre-market, regular
+ * and after-hours sessions. Holidays follow the exchange's rules rather than
+ * a published list, so one-off closures (national days of mourning and the
+ * like) aren't known.
+ */
+
+export const MARKET_TIME_ZONE = "America/New_York";
+
+// Session boundaries, minutes after midnight New York time
+const PRE_MARKET_OPEN = 4 * 60;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+const AFTER_HOURS_CLOSE = 20 * 60;
+const EARLY_AFTER_HOURS_CLOSE = 17 * 60;
+
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+// How often live prices are refreshed in each session
+const REFRESH_INTERVALS: Record<MarketSession, number> = {
+    REGULAR: MINUTE,
+    PRE_MARKET: 5 * MINUTE,
+    AFTER_HOURS: 5 * MINUTE,
+    CLOSED: 60 * MINUTE,
+};
+
+const QUOTE_LABELS: Record<MarketSession, string> = {
+    REGULAR: "Live",
+    PRE_MARKET: "Pre-market",
+    AFTER_HOURS: "At close",
+    CLOSED: "At close",
+};
+
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const fromDate = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: string, days: number) => fromDate(new Date(toDate(date).getTime() + days * DAY));
+const weekday = (date: string) => toDate(date).getUTCDay();
+
+// The nth given weekday of a month (1-based month; n = -1 for the last)
+function nthWeekday(year: number, month: number, day: number, n: number): string {
+    if (n < 0) {
+        const last = new Date(Date.UTC(year, month, 0));
+        return fromDate(new Date(last.getTime() - ((last.getUTCDay() - day + 7) % 7) * DAY));
+    }
+    const first = new Date(Date.UTC(year, month - 1, 1));
+    return fromDate(new Date(first.getTime() + (((day - first.getUTCDay() + 7) % 7) + (n - 1) * 7) * DAY));
+}
+
+// Easter Sunday (anonymous Gregorian algorithm)
+function easter(year: number): string {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return fromDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+// A fixed-date holiday on a Saturday is observed the Friday before, on a
+// Sunday the Monday after
+function observed(date: string): string {
+    const day = weekday(date);
+    return day === 6 ? addDays(date, -1) : day === 0 ? addDays(date, 1) : date;
+}
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+function holidays(year: number): Map<string, string> {
+    const cached = holidayCache.get(year);
+    if (cached) return cached;
+
+    const ymd = (month: number, day: number) => fromDate(new Date(Date.UTC(year, month - 1, day)));
+    const list: [string, string][] = [
+        ["Martin Luther King Jr. Day", nthWeekday(year, 1, 1, 3)],
+        ["Washington's Birthday", nthWeekday(year, 2, 1, 3)],
+        ["Good Friday", addDays(easter(year), -2)],
+        ["Memorial Day", nthWeekday(year, 5, 1, -1)],
+        ["Independence Day", observed(ymd(7, 4))],
+        ["Labor Day", nthWeekday(year, 9, 1, 1)],
+        ["Thanksgiving Day", nthWeekday(year, 11, 4, 4)],
+        ["Christmas Day", observed(ymd(12, 25))],
+    ];
+    // New Year's Day on a Saturday isn't made up on the Friday before
+    if (weekday(ymd(1, 1)) !== 6) list.push(["New Year's Day", observed(ymd(1, 1))]);
+    if (year >= 2022) list.push(["Juneteenth", observed(ymd(6, 19))]);
+
+    const byDate = new Map(list.map(([name, date]) => [date, name]));
+    holidayCache.set(year, byDate);
+    return byDate;
+}
+
+/**
+ * The holiday the market is closed for on a YYYY-MM-DD date, if any
+ */
+export function marketHoliday(date: string): string | null {
+    return holidays(Number(date.slice(0, 4))).get(date) ?? null;
+}
+
+/**
+ * Whether the market is open on a YYYY-MM-DD date: a weekday that isn't a
+ * holiday
+ */
+export function isTradingDay(date: string): boolean {
+    const day = weekday(date);
+    return day !== 0 && day !== 6 && !marketHoliday(date);
+}
+
+/**
+ * Whether the market closes at 1 p.m. on a YYYY-MM-DD date: July 3, the day
+ * after Thanksgiving and Christmas Eve, when they're trading days
+ */
+export function isEarlyClose(date: string): boolean {
+    if (!isTradingDay(date)) return false;
+    const year = Number(date.slice(0, 4));
+    return date === `${year}-07-03` || date === `${year}-12-24` || date === addDays(nthWeekday(year, 11, 4, 4), 1);
+}
+
+/**
+ * The trading day before a YYYY-MM-DD date
+ */
+export function previousTradingDay(date: string): string {
+    let day = addDays(date, -1);
+    while (!isTradingDay(day)) day = addDays(day, -1);
+    return day;
+}
+
+/**
+ * The trading day after a YYYY-MM-DD date
+ */
+export function nextTradingDay(date: string): string {
+    let day = addDays(date, 1);
+    while (!isTradingDay(day)) day = addDays(day, 1);
+    return day;
+}
+
+/**
+ * Calendar date in New York for a moment in time, as YYYY-MM-DD
+ */
+export function getMarketDate(now: Date = new Date()): string {
+    return new Intl.DateTimeFormat("en-CA", {
+        timeZone: MARKET_TIME_ZONE,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).format(now);
+}
+
+// Minutes after midnight New York time
+function marketMinutes(now: Date): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: MARKET_TIME_ZONE,
+        hour: "numeric",
+        minute: "numeric",
+        hourCycle: "h23",
+    }).formatToParts(now);
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return part("hour") * 60 + part("minute");
+}
+
+// The moment a New York wall-clock time occurs on a YYYY-MM-DD date
+function marketTime(date: string, minutes: number): Date {
+    const asUTC = toDate(date).getTime() + minutes * MINUTE;
+    const wallClock = toDate(getMarketDate(new Date(asUTC))).getTime() + marketMinutes(new Date(asUTC)) * MINUTE;
+    return new Date(asUTC + (asUTC - wallClock));
+}
+
+// When the regular session and after hours end on a trading day
+const regularClose = (date: string) => (isEarlyClose(date) ? EARLY_CLOSE : REGULAR_CLOSE);
+const afterHoursClose = (date: string) => (isEarlyClose(date) ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE);
+
+/**
+ * The session the market is in at a moment in time
+ */
+export function getMarketSession(now: Date = new Date()): MarketSession {
+    const date = getMarketDate(now);
+    if (!isTradingDay(date)) return "CLOSED";
+
+    const minutes = marketMinutes(now);
+    if (minutes < PRE_MARKET_OPEN) return "CLOSED";
+    if (minutes < REGULAR_OPEN) return "PRE_MARKET";
+    if (minutes < regularClose(date)) return "REGULAR";
+    if (minutes < afterHoursClose(date)) return "AFTER_HOURS";
+    return "CLOSED";
+}
+
+/**
+ * The session, today's holiday or early close, and the last and next
+ * regular sessions at a moment in time
+ */
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+    const date = getMarketDate(now);
+    const tradingDay = isTradingDay(date);
+    const opened = tradingDay && marketMinutes(now) >= REGULAR_OPEN;
+
+    return {
+        session: getMarketSession(now),
+        date,
+        tradingDay,
+        holiday: marketHoliday(date),
+        earlyClose: isEarlyClose(date),
+        lastSession: opened ? date : previousTradingDay(date),
+        nextOpen: marketTime(tradingDay && !opened ? date : nextTradingDay(date), REGULAR_OPEN).toISOString(),
+    };
+}
+
+/**
+ * When the latest regular session to have finished closed
+ */
+export function lastSessionClose(now: Date = new Date()): Date {
+    const date = getMarketDate(now);
+    if (isTradingDay(date) && marketMinutes(now) >= regularClose(date)) {
+        return marketTime(date, regularClose(date));
+    }
+    const previous = previousTradingDay(date);
+    return marketTime(previous, regularClose(previous));
+}
+
+/**
+ * How long to wait before refreshing live prices: every minute in the
+ * regular session, every five around it, and otherwise hourly or at the next
+ * pre-market open, whichever comes first
+ */
+export function refreshInterval(now: Date = new Date()): number {
+    const session = getMarketSession(now);
+    if (session !== "CLOSED") return REFRESH_INTERVALS[session];
+
+    const date = getMarketDate(now);
+    const nextDay = isTradingDay(date) && marketMinutes(now) < PRE_MARKET_OPEN ? date : nextTradingDay(date);
+    const untilPreMarket = marketTime(nextDay, PRE_MARKET_OPEN).getTime() - now.getTime();
+    return Math.max(MINUTE, Math.min(REFRESH_INTERVALS.CLOSED, untilPreMarket));
+}
+
+/**
+ * What a quote's price is in a session: "Live", "Pre-market" or "At close"
+ */
+export function quoteLabel(session: MarketSession): string {
+    return QUOTE_LABELS[session];
+}
+
+/**
+ * Heading for the day's change: "Today's Change" once today's session has
+ * opened, otherwise named for the session the change is from ("Friday's
+ * Change" over a weekend)
+ */
+export function changeLabel(status: MarketStatus): string {
+    if (status.lastSession === status.date) return "Today's Change";
+    const day = toDate(status.lastSession).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+    return `${day}'s Change`;
+}
+
+/**
+ * One-line summary of the market for page headers, e.g. "Market open",
+ * "After hours" or "Market closed for Good Friday"
+ */
+export function marketSummary(status: MarketStatus): string {
+    switch (status.session) {
+        case "REGULAR":
+            return status.earlyClose ? "Market open until 1:00 PM ET" : "Market open";
+        case "PRE_MARKET":
+            return "Pre-market";
+        case "AFTER_HOURS":
+            return "After hours";
+        default:
+            return status.holiday ? `Market closed for ${status.holiday}` : "Market closed";
+    }
+}
@@ -0,0 +1,97 @@
+import { Transaction, TransactionConflict, ImportSummary } from "./types";
+
+export interface TransactionImportPlan<T extends Transaction = Transaction> {
+    toInsert: Transaction[];
+    duplicates: Transaction[];
+    matched: T[];       // the existing row each duplicate matched
+    conflicts: TransactionConflict[];
+}
+
+/**
+ * Stable identity for a transaction row: date, action, symbol, quantity and amount.
+ * Broker exports don't carry transaction ids, so this is what we dedupe on.
+ */
+export function transactionFingerprint(t: Transaction): string {
+    return [
+        t.date.slice(0, 10),
+        t.action,
+        t.symbol.toUpperCase(),
+        t.quantity.toFixed(4),
+        t.amount.toFixed(2),
+    ].join("|");
+}
+
+// Looser key used to spot rows that look like an edited version of an existing one
+function conflictKey(t: Transaction): string {
+    return [t.date.slice(0, 10), t.action, t.symbol.toUpperCase()].join("|");
+}
+
+/**
+ * Work out which incoming rows are new.
+ *
+ * - Rows whose fingerprint matches an existing row are duplicates. Matching is
+ *   count-aware, so two identical rows in a file are both kept the first time
+ *   and both skipped on re-upload.
+ * - Rows left over that share date, action and symbol with an existing row that
+ *   nothing in the file matched are conflicts (likely a correction by the broker)
+ *   and are not inserted.
+ * - Everything else is inserted.
+ */
+export function planTransactionImport<T extends Transaction>(
+    existing: T[],
+    incoming: Transaction[]
+): TransactionImportPlan<T> {
+    const unmatched = new Map<string, T[]>();
+    for (const t of existing) {
+        const fp = transactionFingerprint(t);
+        unmatched.set(fp, [...(unmatched.get(fp) ?? []), t]);
+    }
+
+    const duplicates: Transaction[] = [];
+    const matched: T[] = [];
+    const remaining: Transaction[] = [];
+
+    for (const t of incoming) {
+        const matches = unmatched.get(transactionFingerprint(t));
+        if (matches && matches.length > 0) {
+            matched.push(matches.pop()!);
+            duplicates.push(t);
+        } else {
+            remaining.push(t);
+        }
+    }
+
+    const unmatchedByKey = new Map<string, T[]>();
+    for (const rows of unmatched.values()) {
+        for (const t of rows) {
+            const key = conflictKey(t);
+            unmatchedByKey.set(key, [...(unmatchedByKey.get(key) ?? []), t]);
+        }
+    }
+
+    const toInsert: Transaction[] = [];
+    const conflicts: TransactionConflict[] = [];
+
+    for (const t of remaining) {
+        const candidates = unmatchedByKey.get(conflictKey(t));
+        if (candidates && candidates.length > 0) {
+            conflicts.push({ incoming: t, existing: candidates });
+        } else {
+            toInsert.push(t);
+        }
+    }
+
+    return { toInsert, duplicates, matched, conflicts };
+}
+
+/**
+ * Condense an import plan into the counts reported back to the uploader
+ */
+export function summarizeImportPlan(plan: TransactionImportPlan): ImportSummary {
+    return {
+        added: plan.toInsert.length,
+        duplicates: plan.duplicates.length,
+        conflicts: plan.conflicts.length,
+        conflictRows: plan.conflicts,
+    };
+}
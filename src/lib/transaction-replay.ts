@@ -0,0 +1,103 @@
+import { Holding, Transaction } from "./types";
+
+export interface ReplayState {
+    shares: Map<string, number>;
+    cash: number;
+    contributed: number;
+}
+
+// Shares added (or removed) by a transaction
+export function shareDelta(t: Transaction): number {
+    if (t.action === "BUY") return t.quantity;
+    if (t.action === "SELL") return -t.quantity;
+    // Reinvested dividends arrive as a dividend row that spends cash on shares
+    if (t.action === "DIVIDEND" && t.quantity > 0 && t.amount < 0) return t.quantity;
+    // Split and ticker change rows are only a record; the history is restated
+    // through corporate actions instead
+    return 0;
+}
+
+// Money members put in (or took out) of the club
+export function capitalDelta(t: Transaction): number {
+    if (t.action === "DEPOSIT") return Math.abs(t.amount);
+    if (t.action === "WITHDRAWAL") return -Math.abs(t.amount);
+    return 0;
+}
+
+export function applyTransaction(state: ReplayState, t: Transaction): void {
+    const delta = shareDelta(t);
+    if (delta !== 0 && t.symbol) {
+        const symbol = t.symbol.toUpperCase();
+        state.shares.set(symbol, (state.shares.get(symbol) ?? 0) + delta);
+    }
+    state.cash += t.amount;
+    state.contributed += capitalDelta(t);
+}
+
+/**
+ * Position before the first recorded transaction.
+ * Broker exports only cover a window of history, so the opening position is
+ * whatever makes replaying every transaction land on today's holdings and cash.
+ * Anything already held at the start counts as contributed capital, at cost.
+ */
+export function openingState(
+    holdings: Holding[],
+    transactions: Transaction[],
+    cashBalance: number,
+    fallbackPrices: Map<string, number>
+): ReplayState {
+    if (holdings.length === 0) {
+        return { shares: new Map(), cash: 0, contributed: 0 };
+    }
+
+    const shares = new Map<string, number>();
+    const costPerShare = new Map<string, number>();
+    for (const h of holdings) {
+        const symbol = h.symbol.toUpperCase();
+        shares.set(symbol, (shares.get(symbol) ?? 0) + h.quantity);
+        costPerShare.set(symbol, h.costPerShare);
+    }
+
+    let cash = cashBalance;
+    for (const t of transactions) {
+        const delta = shareDelta(t);
+        if (delta !== 0 && t.symbol) {
+            const symbol = t.symbol.toUpperCase();
+            shares.set(symbol, (shares.get(symbol) ?? 0) - delta);
+        }
+        cash -= t.amount;
+    }
+
+    let contributed = cash;
+    for (const [symbol, quantity] of shares) {
+        // A negative opening position means the export is missing a buy; ignore it
+        if (quantity <= 1e-6) {
+            shares.delete(symbol);
+            continue;
+        }
+        contributed += quantity * (costPerShare.get(symbol) ?? fallbackPrices.get(symbol) ?? 0);
+    }
+
+    return { shares, cash, contributed };
+}
+
+// Used when a symbol has no candles (delisted, money market funds, ...)
+export function getFallbackPrices(holdings: Holding[], sortedTransactions: Transaction[]): Map<string, number> {
+    const prices = new Map<string, number>();
+    for (const t of sortedTransactions) {
+        if (t.symbol && t.price > 0) prices.set(t.symbol.toUpperCase(), t.price);
+    }
+    for (const h of holdings) {
+        if (h.currentPrice > 0) prices.set(h.symbol.toUpperCase(), h.currentPrice);
+    }
+    return prices;
+}
+
+/**
+ * Capital contributed to date: the opening position at cost plus net deposits
+ */
+export function getContributedCapital(holdings: Holding[], transactions: Transaction[], cashBalance: number): number {
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const state = openingState(holdings, sorted, cashBalance, getFallbackPrices(holdings, sorted));
+    return sorted.reduce((sum, t) => sum + capitalDelta(t), state.contributed);
+}
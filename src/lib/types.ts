@@ -1,3 +1,5 @@
+import type { StockDetails } from "./market-data-provider";
+
 // Types for portfolio data
 export interface Holding {
     symbol: string;
@@ -12,7 +14,7 @@ export interface Holding {
 
 export interface Transaction {
     date: string;
-    action: "BUY" | "SELL" | "DIVIDEND" | "DEPOSIT" | "WITHDRAWAL" | "OTHER";
+    action: "BUY" | "SELL" | "DIVIDEND" | "DEPOSIT" | "WITHDRAWAL" | "SPLIT" | "SYMBOL_CHANGE" | "OTHER";
     symbol: string;
     description: string;
     quantity: number;
@@ -32,6 +34,230 @@ export interface PortfolioData {
     lastUpdated: string;
 }
 
+// Result of merging an uploaded transaction history into the stored one
+export interface TransactionConflict {
+    incoming: Transaction;
+    existing: Transaction[];
+}
+
+export interface ImportSummary {
+    added: number;
+    duplicates: number;
+    conflicts: number;
+    conflictRows: TransactionConflict[];
+}
+
+// Which of an upload's two files a parser is reading
+export type ImportKind = "positions" | "transactions";
+
+// What a parser read from a file, with the rows it dropped and anything it
+// had to guess. Row numbers are lines in a CSV, or entries in a JSON or OFX
+// list; row 0 is the file as a whole.
+export interface SkippedRow {
+    row: number;
+    reason: string;
+    text: string;
+}
+
+export interface ParseWarning {
+    row: number;
+    message: string;
+}
+
+export interface ParseResult<T> {
+    rows: T[];
+    skipped: SkippedRow[];
+    warnings: ParseWarning[];
+}
+
+// Where an upload came from, recorded on its import batch
+export interface ImportSource {
+    positionsFile: string | null;
+    transactionsFile: string | null;
+    parser: string;
+}
+
+// Which source column feeds each Holding or Transaction field, by header name
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportTemplate {
+    id: string;
+    name: string;
+    kind: ImportKind;
+    mapping: ColumnMapping;
+    createdBy: string | null;
+    createdAt: string;
+}
+
+export interface ImportBatchSummary extends ImportSource {
+    id: string;
+    uploadedBy: string | null;
+    createdAt: string;
+    holdingsCount: number;
+    transactionsAdded: number;
+    duplicatesSkipped: number;
+    conflicts: number;
+    isCurrentPositions: boolean;
+}
+
+export interface ImportBatchDetail extends ImportBatchSummary {
+    holdings: Holding[];
+    transactions: Transaction[];
+}
+
+// End-of-day valuation written by the snapshot cron
+export interface PortfolioSnapshotHolding {
+    symbol: string;
+    quantity: number;
+    price: number;
+    marketValue: number;
+}
+
+export interface PortfolioSnapshot {
+    date: string;
+    totalValue: number;
+    totalCost: number;
+    cashBalance: number;
+    contributedCapital: number;
+    takenAt: string;
+    holdings: PortfolioSnapshotHolding[];
+}
+
+// Daily point on the portfolio performance chart
+export interface PerformancePoint {
+    date: string;
+    value: number;  // holdings at that day's close plus cash
+    cost: number;   // capital contributed to date
+    benchmarks?: Record<string, number>;  // value had every deposit gone into the symbol
+}
+
+// Club vs. a benchmark over a chart range, with the same cash flows
+export interface BenchmarkComparison {
+    symbol: string;
+    portfolioReturn: number | null;  // time-weighted
+    benchmarkReturn: number | null;
+    alpha: number | null;            // portfolio minus benchmark
+    endingValue: number;
+    benchmarkEndingValue: number;
+}
+
+export type PerformanceRange = "1M" | "3M" | "YTD" | "1Y" | "ALL";
+
+// Where the NYSE trading day stands. Times are New York time; sessions run
+// 4:00-9:30 pre-market, 9:30-16:00 regular (13:00 on early-close days) and
+// until 20:00 after hours (17:00 on early-close days).
+export type MarketSession = "PRE_MARKET" | "REGULAR" | "AFTER_HOURS" | "CLOSED";
+
+export interface MarketStatus {
+    session: MarketSession;
+    date: string;               // today in New York, YYYY-MM-DD
+    tradingDay: boolean;
+    holiday: string | null;     // the holiday the market is closed for today
+    earlyClose: boolean;
+    lastSession: string;        // the latest trading day whose regular session has opened
+    nextOpen: string;           // ISO time of the next regular-session open
+}
+
+// Time-weighted and money-weighted returns over a holding period.
+// Figures are fractions (0.05 = 5%); null when there isn't enough history.
+export interface ReturnMetrics {
+    startDate: string | null;
+    endDate: string | null;
+    twr: number | null;
+    twrAnnualized: number | null;
+    xirr: number | null;
+}
+
+// DFDII holdings register, maintained by admins
+export interface RegisterLot {
+    id: string;
+    quantity: number;
+    price: number;
+    costBasis: number;
+    purchaseDate: string;
+}
+
+export interface RegisterDividend {
+    id: string;
+    amount: number;
+    paidDate: string | null;    // null for a total seeded from the holdings sheet
+    note: string | null;
+}
+
+export interface RegisterHolding {
+    id: string;
+    symbol: string;
+    name: string;
+    qty: number;
+    price: number;          // average price paid per share
+    date: string;           // first purchase
+    costBasis: number;
+    dividends: number;
+    divYTD: number;
+    monthsHeld: number;     // since the first purchase
+    lots: RegisterLot[];
+    dividendPayments: RegisterDividend[];
+}
+
+// Tax lots built from the transaction history
+export type CostBasisMethod = "FIFO" | "LIFO" | "HIFO" | "SPECIFIC_ID";
+
+export interface TaxLot {
+    id: string;
+    symbol: string;
+    acquiredTransactionId: string | null;   // null for shares held before the history starts
+    acquiredDate: string;
+    quantity: number;
+    remainingQuantity: number;
+    costPerShare: number;
+    longTerm: boolean;      // held more than a year as of today
+}
+
+export interface LotSale {
+    id: string;
+    lotId: string;
+    symbol: string;
+    sellTransactionId: string;
+    acquiredDate: string;
+    soldDate: string;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+    longTerm: boolean;      // held more than a year
+}
+
+export interface SymbolLots {
+    symbol: string;
+    method: CostBasisMethod;
+    lots: TaxLot[];
+    sales: LotSale[];
+}
+
+// Splits, spin-offs and ticker changes, applied to the history when it's replayed
+export type CorporateActionType = "SPLIT" | "SPIN_OFF" | "SYMBOL_CHANGE";
+
+export interface CorporateAction {
+    id: string;
+    type: CorporateActionType;
+    date: string;
+    symbol: string;
+    newSymbol: string | null;   // new ticker, or the spun-off company
+    ratio: number;              // new shares per old share
+    costAllocation: number;     // spin-off: fraction of the parent's basis moved to the new shares
+    note: string | null;
+}
+
+// A split or ticker change row from an import with no corporate action recorded for it
+export interface CorporateActionSuggestion {
+    transactionDate: string;
+    type: CorporateActionType;
+    symbol: string;
+    description: string;
+    quantity: number;
+    ratio: number | null;       // for splits, from the shares held the day before
+}
+
 // Default empty portfolio
 export const emptyPortfolio: PortfolioData = {
     holdings: [],
@@ -43,3 +269,207 @@ export const emptyPortfolio: PortfolioData = {
     cashBalance: 0,
     lastUpdated: new Date().toISOString(),
 };
+
+// Types for member capital accounts (unit valuation)
+export interface UnitLedgerEntry {
+    id: string;
+    userId: string;
+    date: string;
+    type: "DEPOSIT" | "WITHDRAWAL";
+    amount: number;
+    unitValue: number;
+    units: number;
+    note: string | null;
+}
+
+export interface CapitalAccount {
+    userId: string;
+    name: string;
+    email: string;
+    units: number;
+    value: number;
+    ownershipPercent: number;
+    totalDeposits: number;
+    totalWithdrawals: number;
+    gainLoss: number;
+}
+
+export interface ClubValuation {
+    totalValue: number;
+    unitsOutstanding: number;
+    unitValue: number | null;   // null until the treasurer sets an opening unit value
+    valuationDate: string;
+}
+
+// Annual realized gains and dividend income for the partnership return
+export interface RealizedSale {
+    sellTransactionId: string;
+    date: string;
+    symbol: string;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+    shortTermGain: number;
+    longTermGain: number;
+    unmatchedQuantity: number;  // shares sold with no lot to match (basis unknown)
+}
+
+export interface GainTotals {
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+}
+
+export interface DividendIncome {
+    symbol: string;
+    amount: number;
+    payments: number;
+}
+
+export interface TaxYearReport {
+    year: number;
+    years: number[];            // every year with sales or dividends
+    method: CostBasisMethod;
+    sales: RealizedSale[];
+    shortTerm: GainTotals;
+    longTerm: GainTotals;
+    dividends: DividendIncome[];
+    totalDividends: number;
+}
+
+// Dividend income from the transaction history. Reinvested dividends count
+// as income; the shares they bought are noted alongside. Yields are fractions.
+export interface DividendPayment {
+    date: string;
+    symbol: string;
+    amount: number;
+    reinvestedShares: number;   // 0 when paid in cash
+}
+
+export interface DividendMonth {
+    month: string;              // YYYY-MM
+    cash: number;
+    reinvested: number;
+}
+
+export interface SymbolDividends {
+    symbol: string;
+    total: number;
+    ttm: number;                // trailing twelve months
+    ytd: number;
+    reinvested: number;         // of the total
+    quantity: number;           // shares held now
+    costBasis: number;
+    yieldOnCost: number | null;     // TTM income over the cost of the shares held
+    currentYield: number | null;    // the stock's quoted yield
+    payments: DividendPayment[];    // newest first
+}
+
+export interface DividendSummary {
+    asOf: string;
+    total: number;
+    ttm: number;
+    ytd: number;
+    reinvested: number;
+    yieldOnCost: number | null;     // TTM income over the cost basis of the holdings
+    currentYield: number | null;    // TTM income over their market value
+    months: DividendMonth[];        // the last twelve, oldest first
+    symbols: SymbolDividends[];
+}
+
+// Dividends expected over the coming months for the shares held now. The next
+// announced ex-date is used where there is one; the rest are projected from
+// how often the stock has paid, at its last dividend per share.
+export interface ExpectedDividend {
+    symbol: string;
+    exDate: string;
+    payDate: string | null;     // null when the stock's payment lag isn't known
+    amountPerShare: number;
+    shares: number;
+    amount: number;             // projected cash
+    declared: boolean;          // an announced ex-date rather than a projection
+    paymentsPerYear: number;
+}
+
+export interface DividendCalendar {
+    asOf: string;
+    through: string;
+    total: number;
+    dividends: ExpectedDividend[];  // by ex-date
+}
+
+// Partnership income for a tax year, allocated to members by the units they
+// held over the year (K-1 style)
+export interface PartnershipIncome {
+    shortTermGain: number;
+    longTermGain: number;
+    dividends: number;
+    expenses: number;           // positive
+}
+
+export interface MemberAllocation extends PartnershipIncome {
+    userId: string;
+    name: string;
+    email: string;
+    averageUnits: number;       // time-weighted over the year
+    unitsAtYearEnd: number;
+    sharePercent: number;
+}
+
+export interface PartnershipAllocation {
+    year: number;
+    years: number[];
+    periodStart: string;
+    periodEnd: string;          // year end, or today for the current year
+    totals: PartnershipIncome;
+    allocations: MemberAllocation[];
+}
+
+// Positions file checked against the share counts its transaction history adds up to
+export type ReconciliationIssue =
+    | "SPLIT"               // off by a split ratio
+    | "MISSING_HISTORY"     // more shares than the history explains
+    | "EXTRA_HISTORY"       // fewer shares than the history explains
+    | "NOT_HELD"            // history ends with shares the positions file doesn't list
+    | "NO_HISTORY";         // held with no transactions at all
+
+export interface PositionCheck {
+    symbol: string;
+    heldQuantity: number;       // positions file
+    expectedQuantity: number;   // replaying the stored history plus the upload from zero
+    difference: number;         // held minus expected
+    issue: ReconciliationIssue | null;
+    splitRatio: number | null;  // new shares per old share, for SPLIT
+    otherRows: string[];        // rows that moved shares without a buy or sell, which may explain the gap
+}
+
+// Stocks the club is researching: each member's own watchlist and the club's
+export type WatchlistScope = "personal" | "club";
+
+export interface WatchlistItem {
+    id: string;
+    symbol: string;
+    scope: WatchlistScope;
+    targetPrice: number | null;
+    notes: string | null;
+    addedBy: string | null;     // member name
+    addedById: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A member's stock pitch. The price and company details are as they were
+// when it was written.
+export interface ResearchReport {
+    id: string;
+    symbol: string;
+    title: string;
+    body: string;                   // Markdown
+    targetPrice: number | null;
+    priceAtWriting: number | null;
+    details: StockDetails | null;
+    author: string | null;          // member name
+    authorId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
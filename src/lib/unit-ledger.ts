@@ -0,0 +1,284 @@
+import { CapitalAccount, ClubValuation, UnitLedgerEntry } from "./types";
+import { prisma } from "./prisma";
+import { getClubPortfolioId } from "./storage";
+import { getLatestSnapshot } from "./snapshots";
+import { getMarketDate } from "./trading-calendar";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Unit value used for the very first deposit, before any units exist.
+ * $10.00 per unit is the NAIC convention.
+ */
+export const INITIAL_UNIT_VALUE = 10;
+
+export class UnitLedgerError extends Error {}
+
+/**
+ * Value of one unit: total club value divided by units outstanding.
+ * A club with neither value nor units starts at INITIAL_UNIT_VALUE. Returns
+ * null when the value can't price units: a club that already holds value
+ * before any units are issued needs an explicit opening unit value, and
+ * units with nothing behind them have no value to redeem at.
+ */
+export function calculateUnitValue(totalValue: number, unitsOutstanding: number): number | null {
+    if (unitsOutstanding <= 1e-9) return totalValue > 0 ? null : INITIAL_UNIT_VALUE;
+    if (totalValue <= 0) return null;
+    return totalValue / unitsOutstanding;
+}
+
+/**
+ * Build each member's capital account from their ledger entries.
+ * A member's share of the club is their unit balance times the current unit value.
+ */
+export function summarizeCapitalAccounts(
+    entries: UnitLedgerEntry[],
+    members: { id: string; name: string; email: string }[],
+    valuation: ClubValuation
+): CapitalAccount[] {
+    return members.map((member) => {
+        const memberEntries = entries.filter((e) => e.userId === member.id);
+        const units = memberEntries.reduce((sum, e) => sum + e.units, 0);
+        const totalDeposits = memberEntries
+            .filter((e) => e.type === "DEPOSIT")
+            .reduce((sum, e) => sum + e.amount, 0);
+        const totalWithdrawals = memberEntries
+            .filter((e) => e.type === "WITHDRAWAL")
+            .reduce((sum, e) => sum + e.amount, 0);
+        const value = units * (valuation.unitValue ?? 0);
+
+        return {
+            userId: member.id,
+            name: member.name,
+            email: member.email,
+            units,
+            value,
+            ownershipPercent: valuation.unitsOutstanding > 0 ? (units / valuation.unitsOutstanding) * 100 : 0,
+            totalDeposits,
+            totalWithdrawals,
+            gainLoss: value - totalDeposits + totalWithdrawals,
+        };
+    });
+}
+
+export function toLedgerEntry(e: {
+    id: string;
+    userId: string;
+    date: Date;
+    type: "DEPOSIT" | "WITHDRAWAL";
+    amount: number;
+    unitValue: number;
+    units: number;
+    note: string | null;
+}): UnitLedgerEntry {
+    return {
+        id: e.id,
+        userId: e.userId,
+        date: e.date.toISOString(),
+        type: e.type,
+        amount: e.amount,
+        unitValue: e.unitValue,
+        units: e.units,
+        note: e.note,
+    };
+}
+
+// Deposits less withdrawals across the matching ledger entries
+async function ledgerCash(db: Prisma.TransactionClient, where: Prisma.UnitLedgerEntryWhereInput): Promise<number> {
+    const entries = await db.unitLedgerEntry.findMany({ where, select: { type: true, amount: true } });
+    return entries.reduce((sum, e) => sum + (e.type === "DEPOSIT" ? e.amount : -e.amount), 0);
+}
+
+/**
+ * Current club valuation: total value (holdings plus cash) and units outstanding.
+ * Uses the latest daily snapshot when it is newer than the last upload. Either
+ * way the cash is the broker's as of that upload, so deposits and withdrawals
+ * recorded since the upload are added on top.
+ */
+export async function getClubValuation(db: Prisma.TransactionClient = prisma): Promise<ClubValuation> {
+    const portfolioId = await getClubPortfolioId(db);
+    const portfolio = await db.portfolio.findUniqueOrThrow({ where: { id: portfolioId } });
+    const units = await db.unitLedgerEntry.aggregate({
+        where: { portfolioId },
+        _sum: { units: true },
+    });
+
+    // An end-of-day snapshot taken after the last upload has fresher prices
+    const snapshot = await getLatestSnapshot(db);
+    const useSnapshot = snapshot !== null && new Date(snapshot.takenAt) > portfolio.lastUpdated;
+    const valuedAt = useSnapshot ? new Date(snapshot.takenAt) : portfolio.lastUpdated;
+
+    const cash = await ledgerCash(db, { portfolioId, createdAt: { gt: portfolio.lastUpdated } });
+    const totalValue = (useSnapshot ? snapshot.totalValue : portfolio.totalValue + portfolio.cashBalance) + cash;
+    const unitsOutstanding = units._sum.units ?? 0;
+
+    return {
+        totalValue,
+        unitsOutstanding,
+        unitValue: calculateUnitValue(totalValue, unitsOutstanding),
+        valuationDate: valuedAt.toISOString(),
+    };
+}
+
+// Club valuation as of a past YYYY-MM-DD date: the latest snapshot on or
+// before it, against the units issued by then. The snapshot's cash is the
+// broker's as of the upload in force when it was taken, so ledger entries up
+// to that date recorded after that upload are added. Null when no snapshot
+// goes back that far.
+async function getClubValuationOn(
+    db: Prisma.TransactionClient,
+    portfolioId: string,
+    date: string
+): Promise<ClubValuation | null> {
+    const asOf = new Date(`${date}T00:00:00Z`);
+    const snapshot = await db.portfolioSnapshot.findFirst({
+        where: { portfolioId, date: { lte: asOf } },
+        orderBy: { date: "desc" },
+    });
+    if (!snapshot) return null;
+
+    const units = await db.unitLedgerEntry.aggregate({
+        where: { portfolioId, date: { lte: asOf } },
+        _sum: { units: true },
+    });
+    const upload = await db.importBatch.findFirst({
+        where: { portfolioId, holdingsCount: { gt: 0 }, createdAt: { lte: snapshot.createdAt } },
+        orderBy: { createdAt: "desc" },
+        select: { createdAt: true },
+    });
+    const cash = await ledgerCash(db, {
+        portfolioId,
+        date: { lte: asOf },
+        ...(upload ? { createdAt: { gt: upload.createdAt } } : {}),
+    });
+    const totalValue = snapshot.totalValue + cash;
+    const unitsOutstanding = units._sum.units ?? 0;
+
+    return {
+        totalValue,
+        unitsOutstanding,
+        unitValue: calculateUnitValue(totalValue, unitsOutstanding),
+        valuationDate: snapshot.date.toISOString(),
+    };
+}
+
+// Why a valuation can't price an entry, for the treasurer to act on
+function missingUnitValue(valuation: ClubValuation | null, date: string): string {
+    if (!valuation) return `There is no valuation for ${date}; enter the unit value from that date's statement`;
+    if (valuation.unitsOutstanding <= 1e-9) return "The club holds value but no units have been issued; enter the opening unit value";
+    return "The club has no value to price units at; enter the unit value";
+}
+
+/**
+ * Record a member deposit or withdrawal against the club portfolio.
+ * Units are bought or redeemed at the unit value on the entry's date (the
+ * current valuation for today, that day's snapshot for backdated entries)
+ * unless the treasurer supplies the unit value from the valuation statement.
+ */
+export async function recordUnitEntry(input: {
+    userId: string;
+    type: "DEPOSIT" | "WITHDRAWAL";
+    amount: number;
+    date: string;
+    unitValue?: number;
+    note?: string;
+}): Promise<UnitLedgerEntry> {
+    if (!(input.amount > 0)) {
+        throw new UnitLedgerError("Amount must be greater than zero");
+    }
+    if (input.unitValue !== undefined && !(input.unitValue > 0)) {
+        throw new UnitLedgerError("Unit value must be greater than zero");
+    }
+    const date = new Date(input.date);
+    if (isNaN(date.getTime())) {
+        throw new UnitLedgerError("Date is not valid");
+    }
+    const day = date.toISOString().split("T")[0];
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const member = await tx.user.findUnique({ where: { id: input.userId }, select: { id: true } });
+        if (!member) throw new UnitLedgerError("Member not found");
+
+        const portfolioId = await getClubPortfolioId(tx);
+        let unitValue = input.unitValue;
+        if (unitValue === undefined) {
+            const valuation = day < getMarketDate()
+                ? await getClubValuationOn(tx, portfolioId, day)
+                : await getClubValuation(tx);
+            if (!valuation?.unitValue) throw new UnitLedgerError(missingUnitValue(valuation, day));
+            unitValue = valuation.unitValue;
+        }
+        const units = input.amount / unitValue;
+
+        if (input.type === "WITHDRAWAL") {
+            const balance = await tx.unitLedgerEntry.aggregate({
+                where: { portfolioId, userId: input.userId },
+                _sum: { units: true },
+            });
+            if (units > (balance._sum.units ?? 0) + 1e-9) {
+                throw new UnitLedgerError("Withdrawal exceeds the member's unit balance");
+            }
+        }
+
+        const entry = await tx.unitLedgerEntry.create({
+            data: {
+                portfolioId,
+                userId: input.userId,
+                date,
+                type: input.type,
+                amount: input.amount,
+                unitValue,
+                units: input.type === "DEPOSIT" ? units : -units,
+                note: input.note || null,
+            },
+        });
+
+        return toLedgerEntry(entry);
+    });
+}
+
+/**
+ * Load every member's capital account along with the club valuation
+ */
+export async function loadCapitalAccounts(): Promise<{ valuation: ClubValuation; accounts: CapitalAccount[] }> {
+    const portfolioId = await getClubPortfolioId();
+    const [valuation, entries, members] = await Promise.all([
+        getClubValuation(),
+        prisma.unitLedgerEntry.findMany({ where: { portfolioId } }),
+        prisma.user.findMany({
+            select: { id: true, name: true, email: true },
+            orderBy: { name: "asc" },
+        }),
+    ]);
+
+    return {
+        valuation,
+        accounts: summarizeCapitalAccounts(entries.map(toLedgerEntry), members, valuation),
+    };
+}
+
+/**
+ * Load one member's capital account and ledger history
+ */
+export async function loadMemberCapitalAccount(userId: string): Promise<{
+    valuation: ClubValuation;
+    account: CapitalAccount | null;
+    entries: UnitLedgerEntry[];
+}> {
+    const portfolioId = await getClubPortfolioId();
+    const [valuation, member, rows] = await Promise.all([
+        getClubValuation(),
+        prisma.user.findUnique({
+            where: { id: userId },
+            select: { id: true, name: true, email: true },
+        }),
+        prisma.unitLedgerEntry.findMany({
+            where: { portfolioId, userId },
+            orderBy: { date: "desc" },
+        }),
+    ]);
+
+    const entries = rows.map(toLedgerEntry);
+    const account = member ? summarizeCapitalAccounts(entries, [member], valuation)[0] : null;
+
+    return { valuation, account, entries };
+}
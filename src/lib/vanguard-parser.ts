@@ -0,0 +1,149 @@
+import { Holding, Transaction, ImportKind, ParseResult } from "./types";
+import { parseCSVLine, findColumn, getValue, parseDate } from "./csv";
+import { emptyResult, skipRow, warnRow, numberField, addTransaction } from "./parse-report";
+
+// First match wins, so "Reinvestment" is checked before "Dividend"
+const ACTIONS: [string, Transaction["action"]][] = [
+    ["buy", "BUY"],
+    ["sell", "SELL"],
+    ["reinvestment", "DIVIDEND"],
+    ["dividend", "DIVIDEND"],
+    ["funds received", "DEPOSIT"],
+    ["transfer (incoming)", "DEPOSIT"],
+    ["withdrawal", "WITHDRAWAL"],
+    ["transfer (outgoing)", "WITHDRAWAL"],
+];
+
+const DATE_PATTERN = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})$/;
+
+// Vanguard's download puts holdings and transactions in one file as separate
+// tables, each with its own header row and ending at a blank line
+function findSection(lines: string[], required: string[]): { headers: string[]; rows: { row: number; line: string }[] } | null {
+    const headerIndex = lines.findIndex((line) => {
+        const lower = line.toLowerCase();
+        return required.every((name) => lower.includes(name));
+    });
+    if (headerIndex === -1) return null;
+
+    const rows: { row: number; line: string }[] = [];
+    for (let i = headerIndex + 1; i < lines.length && lines[i].trim(); i++) {
+        rows.push({ row: i + 1, line: lines[i].trim() });
+    }
+
+    return {
+        headers: parseCSVLine(lines[headerIndex]).map((h) => h.toLowerCase().trim()),
+        rows,
+    };
+}
+
+/**
+ * Parse the holdings table of a Vanguard CSV download
+ * Expected columns: Account Number, Investment Name, Symbol, Shares, Share Price, Total Value
+ * Vanguard leaves cost basis out of the download, so cost and gain are zero
+ */
+export function parseVanguardPositionsCSV(csvContent: string): ParseResult<Holding> {
+    const result = emptyResult<Holding>();
+    const section = findSection(csvContent.trimEnd().split("\n"), ["investment name", "share price", "total value"]);
+    if (!section) return result;
+
+    const { headers, rows } = section;
+    const symbolCol = findColumn(headers, ["symbol"]);
+    const nameCol = findColumn(headers, ["investment name"]);
+    const quantityCol = findColumn(headers, ["shares"]);
+    const priceCol = findColumn(headers, ["share price"]);
+    const marketValueCol = findColumn(headers, ["total value"]);
+
+    for (const { row, line } of rows) {
+        const values = parseCSVLine(line);
+        const symbol = getValue(values, symbolCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
+
+        if (!symbol) {
+            skipRow(result, row, "No symbol", line);
+            continue;
+        }
+        const quantity = number(quantityCol, "Shares");
+        if (quantity <= 0) {
+            skipRow(result, row, "No shares held", line);
+            continue;
+        }
+
+        const currentPrice = number(priceCol, "Share price");
+        result.rows.push({
+            symbol: symbol.toUpperCase(),
+            name: getValue(values, nameCol) || symbol,
+            quantity,
+            costPerShare: 0,
+            currentPrice,
+            marketValue: number(marketValueCol, "Total value") || quantity * currentPrice,
+            gainLoss: 0,
+            gainLossPercent: 0,
+        });
+    }
+
+    if (result.rows.length > 0) {
+        warnRow(result, 0, "Vanguard downloads have no cost basis; cost and gain/loss are left at zero");
+    }
+    return result;
+}
+
+/**
+ * Parse the transactions table of a Vanguard CSV download
+ * Expected columns: Trade Date, Transaction Type, Transaction Description, Investment Name,
+ * Symbol, Shares, Share Price, Commissions and Fees, Net Amount
+ */
+export function parseVanguardTransactionsCSV(csvContent: string): ParseResult<Transaction> {
+    const result = emptyResult<Transaction>();
+    const section = findSection(csvContent.trimEnd().split("\n"), ["trade date", "transaction type"]);
+    if (!section) return result;
+
+    const { headers, rows } = section;
+    const dateCol = findColumn(headers, ["trade date"]);
+    const actionCol = findColumn(headers, ["transaction type"]);
+    const descCol = findColumn(headers, ["transaction description", "investment name"]);
+    const symbolCol = findColumn(headers, ["symbol"]);
+    const quantityCol = findColumn(headers, ["shares"]);
+    const priceCol = findColumn(headers, ["share price"]);
+    const feesCol = findColumn(headers, ["commissions and fees", "fees"]);
+    const amountCol = findColumn(headers, ["net amount"]);
+
+    for (const { row, line } of rows) {
+        const values = parseCSVLine(line);
+        const date = getValue(values, dateCol);
+        const number = (col: number, label: string) => numberField(result, row, label, getValue(values, col));
+
+        if (!DATE_PATTERN.test(date)) {
+            skipRow(result, row, date ? `Date "${date}" not recognized` : "No date", line);
+            continue;
+        }
+
+        const actionRaw = getValue(values, actionCol);
+        const action = ACTIONS.find(([text]) => actionRaw.toLowerCase().includes(text))?.[1] ?? "OTHER";
+
+        addTransaction(result, row, {
+            date: parseDate(date),
+            action,
+            symbol: getValue(values, symbolCol).toUpperCase() || "--",
+            description: getValue(values, descCol) || actionRaw,
+            quantity: Math.abs(number(quantityCol, "Shares")),
+            price: number(priceCol, "Share price"),
+            fees: Math.abs(number(feesCol, "Commissions and fees")),
+            amount: number(amountCol, "Net amount"),
+        }, actionRaw, line);
+    }
+
+    return result;
+}
+
+/**
+ * How likely a file is a Vanguard download, from 0 to 1
+ */
+export function detectVanguard(content: string, _filename: string, kind: ImportKind): number {
+    const lines = content.slice(0, 20000).toLowerCase().split("\n");
+    const has = (required: string[]) => lines.some((line) => required.every((name) => line.includes(name)));
+
+    if (kind === "positions") {
+        return has(["investment name", "share price", "total value"]) ? 0.9 : 0;
+    }
+    return has(["trade date", "transaction type", "net amount"]) ? 0.9 : 0;
+}
@@ -0,0 +1,146 @@
+import { WatchlistItem, WatchlistScope } from "./types";
+import { prisma } from "./prisma";
+import { SYMBOL_PATTERN } from "./market-data-provider";
+import { Prisma, type WatchlistItem as WatchlistItemRow } from "@prisma/client";
+
+export class WatchlistError extends Error {}
+
+/** The stock is already on that watchlist */
+export class DuplicateWatchlistItemError extends WatchlistError {}
+
+type ItemWithAdder = WatchlistItemRow & { addedBy: { name: string } | null };
+
+// The member asking, to decide which items they can see and change
+interface Member {
+    id: string;
+    role?: string;
+}
+
+function toWatchlistItem(row: ItemWithAdder): WatchlistItem {
+    return {
+        id: row.id,
+        symbol: row.symbol,
+        scope: row.ownerId ? "personal" : "club",
+        targetPrice: row.targetPrice,
+        notes: row.notes,
+        addedBy: row.addedBy?.name ?? null,
+        addedById: row.addedById,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+function cleanTargetPrice(value: unknown): number | null {
+    if (value === null || value === undefined || value === "") return null;
+    const price = Number(value);
+    if (!Number.isFinite(price) || price <= 0) {
+        throw new WatchlistError("Target price must be a positive number");
+    }
+    return price;
+}
+
+function cleanNotes(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== "string") throw new WatchlistError("Notes must be text");
+    return value.trim() || null;
+}
+
+// Items the member can change: their own list, and on the club list what
+// they added (admins can change anything there)
+function editableBy(member: Member): Prisma.WatchlistItemWhereInput {
+    return {
+        OR: [
+            { ownerId: member.id },
+            member.role === "ADMIN" ? { ownerId: null } : { ownerId: null, addedById: member.id },
+        ],
+    };
+}
+
+/**
+ * The member's own watchlist and the club's, each in the order added
+ */
+export async function listWatchlists(userId: string): Promise<Record<WatchlistScope, WatchlistItem[]>> {
+    const rows = await prisma.watchlistItem.findMany({
+        where: { OR: [{ ownerId: userId }, { ownerId: null }] },
+        include: { addedBy: { select: { name: true } } },
+        orderBy: { createdAt: "asc" },
+    });
+    const items = rows.map(toWatchlistItem);
+
+    return {
+        personal: items.filter((item) => item.scope === "personal"),
+        club: items.filter((item) => item.scope === "club"),
+    };
+}
+
+/**
+ * Add a stock to the member's watchlist or the club's. Any member can add to
+ * the club's.
+ */
+export async function addToWatchlist(
+    member: Member,
+    scope: WatchlistScope,
+    input: { symbol: string; targetPrice?: unknown; notes?: unknown }
+): Promise<WatchlistItem> {
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!SYMBOL_PATTERN.test(symbol)) throw new WatchlistError(`"${input.symbol}" is not a ticker symbol`);
+
+    const ownerId = scope === "personal" ? member.id : null;
+    const targetPrice = cleanTargetPrice(input.targetPrice);
+    const notes = cleanNotes(input.notes);
+
+    // The unique keys reject a second add, even one racing this one
+    try {
+        const row = await prisma.watchlistItem.create({
+            data: {
+                symbol,
+                ownerId,
+                clubSymbol: ownerId ? null : symbol,
+                targetPrice,
+                notes,
+                addedById: member.id,
+            },
+            include: { addedBy: { select: { name: true } } },
+        });
+        return toWatchlistItem(row);
+    } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            throw new DuplicateWatchlistItemError(
+                `${symbol} is already on ${scope === "personal" ? "your" : "the club"} watchlist`
+            );
+        }
+        throw error;
+    }
+}
+
+/**
+ * Change an item's target price and notes. Returns null when it doesn't
+ * exist or the member can't change it.
+ */
+export async function updateWatchlistItem(
+    member: Member,
+    id: string,
+    input: { targetPrice?: unknown; notes?: unknown }
+): Promise<WatchlistItem | null> {
+    const data: Prisma.WatchlistItemUpdateManyMutationInput = {};
+    if ("targetPrice" in input) data.targetPrice = cleanTargetPrice(input.targetPrice);
+    if ("notes" in input) data.notes = cleanNotes(input.notes);
+
+    const { count } = await prisma.watchlistItem.updateMany({ where: { id, ...editableBy(member) }, data });
+    if (count === 0) return null;
+
+    const row = await prisma.watchlistItem.findUniqueOrThrow({
+        where: { id },
+        include: { addedBy: { select: { name: true } } },
+    });
+    return toWatchlistItem(row);
+}
+
+/**
+ * Take a stock off a watchlist. Returns false when the item doesn't exist or
+ * the member can't remove it.
+ */
+export async function removeFromWatchlist(member: Member, id: string): Promise<boolean> {
+    const { count } = await prisma.watchlistItem.deleteMany({ where: { id, ...editableBy(member) } });
+    return count > 0;
+}
@@ -0,0 +1,223 @@
+/**
+ * Yahoo Finance backend. No API key required. Yahoo publishes no limit, so
+ * requests are kept to a conservative YAHOO_CALLS_PER_MINUTE (default 100).
+ */
+
+import {
+    MarketDataProvider,
+    StockQuote,
+    StockDetails,
+    StockCandle,
+    DividendEvent,
+    SymbolSearchResult,
+    fetchJSON,
+    quoteEach,
+} from "./market-data-provider";
+import { TokenBucket } from "./rate-limiter";
+
+// Yahoo numbers and dates come as { raw } (dates in epoch seconds)
+interface YahooValue {
+    raw?: number;
+}
+
+interface YahooChart {
+    chart?: {
+        result?: {
+            meta?: { regularMarketPrice?: number; chartPreviousClose?: number; previousClose?: number };
+            timestamp?: number[];
+            indicators?: {
+                quote?: {
+                    open?: (number | null)[];
+                    high?: (number | null)[];
+                    low?: (number | null)[];
+                    close?: (number | null)[];
+                    volume?: (number | null)[];
+                }[];
+            };
+            events?: { dividends?: Record<string, { amount?: number; date?: number }> };
+        }[];
+    };
+}
+
+interface YahooSearch {
+    quotes?: { symbol?: string; shortname?: string; longname?: string; quoteType?: string }[];
+}
+
+interface YahooQuoteSummary {
+    quoteSummary?: {
+        result?: {
+            summaryProfile?: { longName?: string; sector?: string; industry?: string; website?: string; longBusinessSummary?: string };
+            summaryDetail?: Record<string, YahooValue | undefined>;
+            defaultKeyStatistics?: Record<string, YahooValue | undefined>;
+            financialData?: { longName?: string };
+            recommendationTrend?: { trend?: { strongBuy?: number; buy?: number; hold?: number; sell?: number; strongSell?: number }[] };
+            calendarEvents?: { exDividendDate?: YahooValue; dividendDate?: YahooValue };
+        }[];
+    };
+}
+
+const BASE_URL = "https://query1.finance.yahoo.com";
+const HEADERS = { "User-Agent": "Mozilla/5.0" };
+const budget = new TokenBucket(Number(process.env.YAHOO_CALLS_PER_MINUTE) || 100, 60 * 1000);
+
+const toISODate = (value?: YahooValue) =>
+    value?.raw ? new Date(value.raw * 1000).toISOString().split("T")[0] : undefined;
+
+// Our range values as Yahoo chart parameters
+const CHART_RANGES: Record<string, string> = {
+    "5D": "5d",
+    "1W": "5d",
+    "1M": "1mo",
+    "3M": "3mo",
+    "6M": "6mo",
+    "YTD": "ytd",
+    "1Y": "1y",
+    "2Y": "2y",
+    "5Y": "5y",
+    "10Y": "10y",
+    "MAX": "max",
+};
+
+async function getQuote(symbol: string): Promise<StockQuote | null> {
+    const url = `${BASE_URL}/v8/finance/chart/${encodeURIComponent(symbol)}?range=1d&interval=1d`;
+    const data = await fetchJSON<YahooChart>("Yahoo Finance", url, { headers: HEADERS, next: { revalidate: 300 } }, budget);
+    const result = data?.chart?.result?.[0];
+    const meta = result?.meta;
+
+    if (!meta || !meta.regularMarketPrice) {
+        return null;
+    }
+
+    const currentPrice = meta.regularMarketPrice;
+    const previousClose = meta.chartPreviousClose ?? meta.previousClose ?? currentPrice;
+    const change = currentPrice - previousClose;
+    const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
+
+    // Get intraday high/low/open from the quote data if available
+    const quoteData = result?.indicators?.quote?.[0];
+
+    return {
+        symbol,
+        currentPrice,
+        change,
+        changePercent,
+        high: quoteData?.high?.[0] ?? currentPrice,
+        low: quoteData?.low?.[0] ?? currentPrice,
+        open: quoteData?.open?.[0] ?? previousClose,
+        previousClose,
+        timestamp: Date.now(),
+    };
+}
+
+async function search(query: string): Promise<SymbolSearchResult[]> {
+    const url = `${BASE_URL}/v1/finance/search?q=${encodeURIComponent(query)}&quotesCount=10&newsCount=0&listsCount=0`;
+    const data = await fetchJSON<YahooSearch>("Yahoo Finance", url, { headers: HEADERS, next: { revalidate: 300 } }, budget);
+
+    return (data.quotes ?? [])
+        .filter((q) => q.quoteType === "EQUITY" && q.symbol && q.shortname)
+        .slice(0, 10)
+        .map((q) => ({
+            symbol: q.symbol!,
+            description: q.shortname || q.longname || q.symbol!,
+            type: q.quoteType!,
+        }));
+}
+
+async function getDetails(symbol: string): Promise<StockDetails | null> {
+    const modules = "summaryProfile,summaryDetail,defaultKeyStatistics,financialData,recommendationTrend,calendarEvents";
+    const url = `${BASE_URL}/v10/finance/quoteSummary/${encodeURIComponent(symbol)}?modules=${modules}`;
+    const data = await fetchJSON<YahooQuoteSummary>("Yahoo Finance", url, { headers: HEADERS, next: { revalidate: 300 } }, budget);
+    const result = data?.quoteSummary?.result?.[0];
+    if (!result) return null;
+
+    const profile = result.summaryProfile ?? {};
+    const summary = result.summaryDetail ?? {};
+    const keyStats = result.defaultKeyStatistics ?? {};
+    const financial = result.financialData ?? {};
+    const recTrend = result.recommendationTrend?.trend?.[0];
+    const calendar = result.calendarEvents ?? {};
+
+    const details: StockDetails = {
+        symbol,
+        longName: financial.longName ?? profile.longName,
+        sector: profile.sector,
+        industry: profile.industry,
+        website: profile.website,
+        description: profile.longBusinessSummary,
+        marketCap: summary.marketCap?.raw,
+        trailingPE: summary.trailingPE?.raw,
+        forwardPE: keyStats.forwardPE?.raw,
+        eps: keyStats.trailingEps?.raw,
+        dividendYield: summary.dividendYield?.raw,
+        fiftyTwoWeekHigh: summary.fiftyTwoWeekHigh?.raw,
+        fiftyTwoWeekLow: summary.fiftyTwoWeekLow?.raw,
+        volume: summary.volume?.raw,
+        avgVolume: summary.averageVolume?.raw,
+        beta: keyStats.beta?.raw,
+        dividendRate: summary.dividendRate?.raw,
+        exDividendDate: toISODate(calendar.exDividendDate ?? summary.exDividendDate),
+        dividendPayDate: toISODate(calendar.dividendDate),
+    };
+
+    if (recTrend) {
+        details.recommendations = {
+            strongBuy: recTrend.strongBuy ?? 0,
+            buy: recTrend.buy ?? 0,
+            hold: recTrend.hold ?? 0,
+            sell: recTrend.sell ?? 0,
+            strongSell: recTrend.strongSell ?? 0,
+        };
+    }
+
+    return details;
+}
+
+async function getCandles(symbol: string, range: string): Promise<StockCandle[]> {
+    const yahooRange = CHART_RANGES[range] ?? "1mo";
+    const url = `${BASE_URL}/v8/finance/chart/${encodeURIComponent(symbol)}?range=${yahooRange}&interval=1d`;
+    const data = await fetchJSON<YahooChart>("Yahoo Finance", url, { headers: HEADERS, next: { revalidate: 300 } }, budget);
+    const result = data?.chart?.result?.[0];
+    const quote = result?.indicators?.quote?.[0];
+
+    if (!result?.timestamp || !quote) {
+        return [];
+    }
+
+    return result.timestamp
+        .map((ts, i) => ({
+            date: new Date(ts * 1000).toISOString().split("T")[0],
+            open: quote.open?.[i] ?? 0,
+            high: quote.high?.[i] ?? 0,
+            low: quote.low?.[i] ?? 0,
+            close: quote.close?.[i] ?? 0,
+            volume: quote.volume?.[i] ?? 0,
+        }))
+        .filter((c) => c.close > 0);
+}
+
+// The last two years of dividends, newest first
+async function getDividends(symbol: string): Promise<DividendEvent[]> {
+    const url = `${BASE_URL}/v8/finance/chart/${encodeURIComponent(symbol)}?range=2y&interval=1mo&events=div`;
+    const data = await fetchJSON<YahooChart>("Yahoo Finance", url, { headers: HEADERS, next: { revalidate: 3600 } }, budget);
+    const dividends = data?.chart?.result?.[0]?.events?.dividends ?? {};
+
+    return Object.values(dividends)
+        .filter((d) => d.amount && d.date)
+        .map((d) => ({
+            exDate: new Date(d.date! * 1000).toISOString().split("T")[0],
+            amount: d.amount!,
+        }))
+        .sort((a, b) => b.exDate.localeCompare(a.exDate));
+}
+
+export const yahooProvider: MarketDataProvider = {
+    id: "yahoo",
+    name: "Yahoo Finance",
+    isConfigured: () => true,
+    getQuote,
+    getQuotes: (symbols) => quoteEach(yahooProvider, symbols),
+    search,
+    getDetails,
+    getCandles,
+    getDividends,
+};